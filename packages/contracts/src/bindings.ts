@@ -0,0 +1,287 @@
+/**
+ * TypeScript bindings generator — emits a self-contained module with types
+ * and a typed client class for a contract `Spec`.
+ *
+ * The generated types mirror the native values produced and accepted by
+ * `Spec.nativeToScVal` / `Spec.scValToNative`, and the client methods build
+ * `invokeHostFunction` operations with `@stellar/tx-builder`.
+ */
+
+import {
+  SCSpecEntry,
+  is,
+  type SCSpecFunctionV0,
+  type SCSpecTypeDef,
+  type SCSpecUDTEnumV0,
+  type SCSpecUDTErrorEnumV0,
+  type SCSpecUDTStructV0,
+  type SCSpecUDTUnionV0,
+} from '@stellar/xdr';
+import { isTupleStruct } from './spec-convert.js';
+import type { Spec } from './spec.js';
+
+export interface BindingsOptions {
+  /** Name of the generated client class (default: `Client`). */
+  className?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Client members that generated contract methods must not shadow.
+const RESERVED_MEMBERS = new Set(['contractId', 'results', 'spec', 'invoke', 'constructor']);
+
+/**
+ * Generate TypeScript bindings for a contract spec.
+ */
+export function generateBindings(spec: Spec, opts: BindingsOptions = {}): string {
+  const className = opts.className ?? 'Client';
+  if (!IDENTIFIER.test(className)) {
+    throw new TypeError(`Invalid class name: ${className}`);
+  }
+
+  const ctx: TypeContext = { usesScError: false, usesResult: false };
+  const entries = spec.entries as readonly SCSpecEntry[];
+  const typeDecls: string[] = [];
+  const funcs: SCSpecFunctionV0[] = [];
+
+  for (const entry of entries) {
+    if (is(entry, 'UdtStructV0')) typeDecls.push(structDecl(entry.UdtStructV0, ctx));
+    else if (is(entry, 'UdtUnionV0')) typeDecls.push(unionDecl(entry.UdtUnionV0, ctx));
+    else if (is(entry, 'UdtEnumV0')) typeDecls.push(enumDecl(entry.UdtEnumV0, false));
+    else if (is(entry, 'UdtErrorEnumV0')) typeDecls.push(enumDecl(entry.UdtErrorEnumV0, true));
+    else if (is(entry, 'FunctionV0')) funcs.push(entry.FunctionV0);
+  }
+
+  // Double-underscore functions (e.g. `__constructor`) are not callable.
+  const callable = funcs.filter((f) => !f.name.startsWith('__'));
+  const methods = callable.map((f) => methodDecl(f, ctx));
+  const results = callable.map((f) => resultDecl(f, ctx));
+  const signatures = callable.map((f) => methodSignature(f, ctx));
+
+  const xdrImports = ['SCSpecEntry', 'invokeHostFunction', 'type Operation'];
+  if (ctx.usesScError) xdrImports.push('type SCError');
+  xdrImports.push('type SCVal', 'type SorobanAuthorizationEntry');
+  const contractImports = ['Spec', 'parseScAddress'];
+  if (ctx.usesResult) contractImports.push('type SpecResult');
+
+  const out: string[] = [];
+  out.push('// Generated by @stellar/contracts generateBindings. Do not edit.');
+  out.push('');
+  out.push(`import { ${contractImports.join(', ')} } from '@stellar/contracts';`);
+  out.push('import {');
+  for (const name of xdrImports) out.push(`  ${name},`);
+  out.push("} from '@stellar/tx-builder';");
+  out.push('');
+
+  for (const decl of typeDecls) {
+    out.push(decl);
+    out.push('');
+  }
+
+  out.push('const SPEC = new Spec([');
+  for (const entry of entries) out.push(`  '${SCSpecEntry.toBase64(entry)}',`);
+  out.push('].map((entry) => SCSpecEntry.fromBase64(entry)));');
+  out.push('');
+  out.push(`/** Method signatures, for use with \`ContractClient<${className}Methods>\`. */`);
+  out.push(`export type ${className}Methods = {`);
+  for (const signature of signatures) out.push(signature);
+  out.push('};');
+  out.push('');
+  out.push('export interface InvokeOptions {');
+  out.push('  /** Operation source account. */');
+  out.push('  source?: string;');
+  out.push('  /** Authorization entries, usually filled in from simulation. */');
+  out.push('  auth?: SorobanAuthorizationEntry[];');
+  out.push('}');
+  out.push('');
+  out.push(`export class ${className} {`);
+  out.push('  static readonly spec: Spec = SPEC;');
+  out.push('');
+  out.push('  readonly contractId: string;');
+  out.push('');
+  out.push('  constructor(contractId: string) {');
+  out.push('    this.contractId = contractId;');
+  out.push('  }');
+  for (const method of methods) {
+    out.push('');
+    out.push(method);
+  }
+  out.push('');
+  out.push('  /** Decoders for each method\'s return value (an `SCVal` or base64 XDR). */');
+  out.push('  readonly results = {');
+  for (const result of results) out.push(result);
+  out.push('  };');
+  out.push('');
+  out.push('  private invoke(method: string, args: Record<string, unknown>, opts?: InvokeOptions): Operation {');
+  out.push('    return invokeHostFunction({');
+  out.push('      hostFunction: {');
+  out.push('        InvokeContract: {');
+  out.push('          contractAddress: parseScAddress(this.contractId),');
+  out.push('          functionName: method,');
+  out.push('          args: SPEC.funcArgsToScVals(method, args),');
+  out.push('        },');
+  out.push('      },');
+  out.push('      auth: opts?.auth ?? [],');
+  out.push('      source: opts?.source,');
+  out.push('    });');
+  out.push('  }');
+  out.push('}');
+  out.push('');
+  return out.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Type mapping
+// ---------------------------------------------------------------------------
+
+interface TypeContext {
+  usesScError: boolean;
+  usesResult: boolean;
+}
+
+const PRIMITIVE_TYPES: Record<Extract<SCSpecTypeDef, string>, string> = {
+  Val: 'SCVal',
+  Bool: 'boolean',
+  Void: 'null',
+  Error: 'SCError',
+  U32: 'number',
+  I32: 'number',
+  U64: 'bigint',
+  I64: 'bigint',
+  Timepoint: 'bigint',
+  Duration: 'bigint',
+  U128: 'bigint',
+  I128: 'bigint',
+  U256: 'bigint',
+  I256: 'bigint',
+  Bytes: 'Uint8Array',
+  String: 'string',
+  Symbol: 'string',
+  Address: 'string',
+  MuxedAddress: 'string',
+};
+
+function tsType(type: SCSpecTypeDef, ctx: TypeContext): string {
+  if (typeof type === 'string') {
+    if (type === 'Error') ctx.usesScError = true;
+    return PRIMITIVE_TYPES[type];
+  }
+  if (is(type, 'Option')) return `${tsType(type.Option.valueType, ctx)} | null`;
+  if (is(type, 'Result')) {
+    ctx.usesResult = true;
+    const ok = tsType(type.Result.okType, ctx);
+    const err = tsType(type.Result.errorType, ctx);
+    return `SpecResult<${ok}, ${err}>`;
+  }
+  if (is(type, 'Vec')) return `Array<${tsType(type.Vec.elementType, ctx)}>`;
+  if (is(type, 'Map')) {
+    return `Map<${tsType(type.Map.keyType, ctx)}, ${tsType(type.Map.valueType, ctx)}>`;
+  }
+  if (is(type, 'Tuple')) {
+    return `[${type.Tuple.valueTypes.map((t) => tsType(t, ctx)).join(', ')}]`;
+  }
+  if (is(type, 'BytesN')) return 'Uint8Array';
+  return type.Udt.name;
+}
+
+function returnType(func: SCSpecFunctionV0, ctx: TypeContext): string {
+  // Soroban functions have at most one output; `funcResToNative` decodes the first.
+  const output = func.outputs[0];
+  return output === undefined ? 'null' : tsType(output, ctx);
+}
+
+// ---------------------------------------------------------------------------
+// Declarations
+// ---------------------------------------------------------------------------
+
+function docComment(doc: string, indent: string): string[] {
+  const text = doc.trim().replace(/\*\//g, '*\\/');
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+  return [`${indent}/**`, ...lines.map((l) => `${indent} *${l ? ` ${l}` : ''}`), `${indent} */`];
+}
+
+function propertyName(name: string): string {
+  return IDENTIFIER.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+}
+
+function structDecl(struct: SCSpecUDTStructV0, ctx: TypeContext): string {
+  const lines = docComment(struct.doc, '');
+  if (isTupleStruct(struct)) {
+    const types = struct.fields.map((f) => tsType(f.type, ctx));
+    lines.push(`export type ${struct.name} = [${types.join(', ')}];`);
+    return lines.join('\n');
+  }
+  lines.push(`export interface ${struct.name} {`);
+  for (const field of struct.fields) {
+    lines.push(...docComment(field.doc, '  '));
+    lines.push(`  ${propertyName(field.name)}: ${tsType(field.type, ctx)};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function unionDecl(union: SCSpecUDTUnionV0, ctx: TypeContext): string {
+  const lines = docComment(union.doc, '');
+  lines.push(`export type ${union.name} =`);
+  for (const c of union.cases) {
+    if (is(c, 'VoidV0')) {
+      lines.push(`  | { tag: '${c.VoidV0.name}' }`);
+    } else {
+      const values = c.TupleV0.type.map((t) => tsType(t, ctx)).join(', ');
+      lines.push(`  | { tag: '${c.TupleV0.name}'; values: [${values}] }`);
+    }
+  }
+  lines[lines.length - 1] += ';';
+  return lines.join('\n');
+}
+
+function enumDecl(e: SCSpecUDTEnumV0 | SCSpecUDTErrorEnumV0, isError: boolean): string {
+  const lines = docComment(e.doc, '');
+  lines.push(`export ${isError ? 'const enum' : 'enum'} ${e.name} {`);
+  for (const c of e.cases) {
+    lines.push(...docComment(c.doc, '  '));
+    lines.push(`  ${propertyName(c.name)} = ${c.value},`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function memberName(name: string): string {
+  return RESERVED_MEMBERS.has(name) ? `${name}_` : name;
+}
+
+function argsType(func: SCSpecFunctionV0, ctx: TypeContext): string {
+  const fields = func.inputs.map((input) => {
+    const optional = typeof input.type === 'object' && is(input.type, 'Option');
+    return `${propertyName(input.name)}${optional ? '?' : ''}: ${tsType(input.type, ctx)}`;
+  });
+  return `{ ${fields.join('; ')} }`;
+}
+
+function methodDecl(func: SCSpecFunctionV0, ctx: TypeContext): string {
+  const lines = docComment(func.doc, '  ');
+  const name = memberName(func.name);
+  if (func.inputs.length === 0) {
+    lines.push(`  ${name}(opts?: InvokeOptions): Operation {`);
+    lines.push(`    return this.invoke('${func.name}', {}, opts);`);
+  } else {
+    lines.push(`  ${name}(args: ${argsType(func, ctx)}, opts?: InvokeOptions): Operation {`);
+    lines.push(`    return this.invoke('${func.name}', args, opts);`);
+  }
+  lines.push('  }');
+  return lines.join('\n');
+}
+
+function methodSignature(func: SCSpecFunctionV0, ctx: TypeContext): string {
+  const args = func.inputs.length === 0 ? 'Record<string, never>' : argsType(func, ctx);
+  return `  ${propertyName(func.name)}: { args: ${args}; result: ${returnType(func, ctx)} };`;
+}
+
+function resultDecl(func: SCSpecFunctionV0, ctx: TypeContext): string {
+  return (
+    `    ${propertyName(func.name)}: (val: SCVal | string): ${returnType(func, ctx)} =>\n` +
+    `      SPEC.funcResToNative('${func.name}', val),`
+  );
+}
@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+/**
+ * stellar-contract-bindings — generate TypeScript bindings for a contract.
+ *
+ *   stellar-contract-bindings <contract.wasm | spec.json> [--out file.ts] [--name ClassName]
+ *
+ * A spec JSON file is an array of `SCSpecEntry` values, each either a base64
+ * XDR string or the entry's JSON form.
+ */
+
+import { realpathSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import { SCSpecEntry } from '@stellar/xdr';
+import { generateBindings } from './bindings.js';
+import { Spec } from './spec.js';
+
+const USAGE =
+  'Usage: stellar-contract-bindings <contract.wasm | spec.json> [--out file.ts] [--name ClassName]';
+
+interface CliArgs {
+  input: string;
+  out?: string;
+  name?: string;
+}
+
+function parseArgs(argv: readonly string[]): CliArgs {
+  let input: string | undefined;
+  let out: string | undefined;
+  let name: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === '--out' || arg === '-o' || arg === '--name') {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      if (arg === '--name') name = value;
+      else out = value;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (input === undefined) {
+      input = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  if (input === undefined) throw new Error('Missing input file');
+  return { input, out, name };
+}
+
+/**
+ * Parse a spec JSON document: an array of base64 XDR strings or JSON entries.
+ */
+export function specFromJson(json: string): Spec {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new TypeError('Spec JSON must be an array of SCSpecEntry values');
+  }
+  return new Spec(
+    parsed.map((entry) =>
+      typeof entry === 'string' ? SCSpecEntry.fromBase64(entry) : SCSpecEntry.fromJsonValue(entry),
+    ),
+  );
+}
+
+async function loadSpec(path: string): Promise<Spec> {
+  const bytes = await readFile(path);
+  if (path.endsWith('.wasm')) {
+    return Spec.fromWasm(new Uint8Array(bytes));
+  }
+  return specFromJson(bytes.toString('utf8'));
+}
+
+/**
+ * Run the CLI with the given arguments (excluding `node` and the script path).
+ * Returns the process exit code.
+ */
+export async function runCli(argv: readonly string[]): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n${USAGE}`);
+    return 2;
+  }
+  try {
+    const spec = await loadSpec(args.input);
+    const source = generateBindings(spec, { className: args.name });
+    if (args.out === undefined) {
+      process.stdout.write(source);
+    } else {
+      await writeFile(args.out, source);
+    }
+    return 0;
+  } catch (err) {
+    console.error((err as Error).message);
+    return 1;
+  }
+}
+
+// npm installs bin entries as symlinks, so compare against the resolved path.
+const entryPoint = process.argv[1];
+if (entryPoint !== undefined && import.meta.url === pathToFileURL(realpathSync(entryPoint)).href) {
+  process.exitCode = await runCli(process.argv.slice(2));
+}
@@ -0,0 +1,289 @@
+/**
+ * ContractClient — typed contract invocation on top of `RpcClient` and
+ * `TransactionBuilder`.
+ *
+ * `call()` builds an `invokeHostFunction` transaction, simulates it and
+ * returns a `ContractCall` holding the decoded simulation result. Read-only
+ * calls can stop there; writes go on to sign auth entries, sign, submit and
+ * poll.
+ */
+
+import {
+  RpcClient,
+  assembleTransaction,
+  isSimulationError,
+  type GetTransactionResponse,
+  type PollOptions,
+  type SendTransactionResponse,
+  type SimulateTransactionSuccessResponse,
+} from '@stellar/rpc-client';
+import {
+  BuiltTransaction,
+  TransactionBuilder,
+  authorizeEntry,
+  invokeHostFunction,
+  is,
+  transactionHash,
+  type Signer,
+  type SorobanAuthorizationEntry,
+  type Transaction,
+} from '@stellar/tx-builder';
+import { parseScAddress, scAddressToString } from '@stellar/xdr';
+import { Spec } from './spec.js';
+
+/**
+ * Method signatures of a contract: argument object and decoded result type
+ * per method name. Generated bindings export one of these for each contract.
+ */
+export type ContractMethods = Record<string, { args: Record<string, unknown>; result: unknown }>;
+
+export interface ContractClientOptions {
+  contractId: string;
+  rpc: RpcClient;
+  networkPassphrase: string;
+  /** Transaction source account. Read-only calls may omit it. */
+  publicKey?: string;
+  /** Base inclusion fee in stroops (default: 100). */
+  fee?: number;
+  /** Transaction validity window in seconds (default: 300). */
+  timeoutSeconds?: number;
+}
+
+/**
+ * Signs one Address-credential authorization entry, returning the signed
+ * entry. Receives the simulation's latest ledger to derive an expiration.
+ */
+export type AuthEntrySigner = (
+  entry: SorobanAuthorizationEntry,
+  latestLedger: number,
+) => Promise<SorobanAuthorizationEntry>;
+
+// Source account for simulations when no publicKey is configured; simulation
+// does not load the transaction source.
+const NULL_ACCOUNT = 'GAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAWHF';
+
+const DEFAULT_FEE = 100;
+const DEFAULT_TIMEOUT_SECONDS = 300;
+// Auth entries signed with a `Signer` expire this many ledgers after the
+// simulation's latest ledger (~8 minutes).
+const DEFAULT_AUTH_VALIDITY_LEDGERS = 100;
+
+export class ContractClient<M extends ContractMethods = ContractMethods> {
+  readonly spec: Spec;
+  readonly options: ContractClientOptions;
+
+  constructor(spec: Spec, options: ContractClientOptions) {
+    this.spec = spec;
+    this.options = options;
+  }
+
+  /**
+   * Create a client for a deployed contract, fetching its spec via RPC.
+   */
+  static async fromContract<M extends ContractMethods = ContractMethods>(
+    options: ContractClientOptions,
+  ): Promise<ContractClient<M>> {
+    const spec = await Spec.fromContract(options.rpc, options.contractId);
+    return new ContractClient<M>(spec, options);
+  }
+
+  /**
+   * Build and simulate a contract invocation.
+   */
+  async call<K extends keyof M & string>(
+    method: K,
+    args: M[K]['args'],
+  ): Promise<ContractCall<M[K]['result']>> {
+    const { rpc, networkPassphrase, contractId } = this.options;
+    const source = this.options.publicKey ?? NULL_ACCOUNT;
+    const sequenceNumber =
+      this.options.publicKey === undefined ? 0n : (await rpc.getAccount(source)).seqNum;
+
+    const op = invokeHostFunction({
+      hostFunction: {
+        InvokeContract: {
+          contractAddress: parseScAddress(contractId),
+          functionName: method,
+          args: this.spec.funcArgsToScVals(method, args),
+        },
+      },
+      auth: [],
+    });
+    const built = await new TransactionBuilder(
+      { address: source, sequenceNumber },
+      { fee: this.options.fee ?? DEFAULT_FEE, networkPassphrase },
+    )
+      .addOperation(op)
+      .setTimeout(this.options.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS)
+      .build();
+
+    const envelope = built.toTransactionEnvelope();
+    const sim = await rpc.simulateTransaction(envelope);
+    if (isSimulationError(sim)) {
+      throw new Error(`${method}: simulation failed: ${sim.error}`);
+    }
+    const retval = sim.results[0]?.retval ?? 'Void';
+    const result = this.spec.funcResToNative(method, retval) as M[K]['result'];
+
+    const assembled = assembleTransaction(envelope, sim);
+    if (!is(assembled, 'Tx')) {
+      throw new Error('assembleTransaction returned a non-v1 envelope');
+    }
+    return new ContractCall(this.spec, method, rpc, assembled.Tx.tx, networkPassphrase, sim, result);
+  }
+}
+
+/**
+ * A simulated contract invocation, ready to be signed and submitted.
+ */
+export class ContractCall<R> {
+  readonly method: string;
+  readonly simulation: SimulateTransactionSuccessResponse;
+  /** Return value decoded from the simulation. */
+  readonly result: R;
+  /** True when the call needs no authorization and writes no ledger entries. */
+  readonly readOnly: boolean;
+
+  private readonly spec: Spec;
+  private readonly rpc: RpcClient;
+  private readonly networkPassphrase: string;
+  private tx: Transaction;
+  private built: BuiltTransaction | null = null;
+  private sent: SendTransactionResponse | null = null;
+
+  constructor(
+    spec: Spec,
+    method: string,
+    rpc: RpcClient,
+    tx: Transaction,
+    networkPassphrase: string,
+    simulation: SimulateTransactionSuccessResponse,
+    result: R,
+  ) {
+    this.spec = spec;
+    this.method = method;
+    this.rpc = rpc;
+    this.tx = tx;
+    this.networkPassphrase = networkPassphrase;
+    this.simulation = simulation;
+    this.result = result;
+    this.readOnly =
+      (simulation.results[0]?.auth.length ?? 0) === 0 &&
+      simulation.transactionData.resources.footprint.readWrite.length === 0;
+  }
+
+  /** The assembled transaction (auth entries reflect any signing so far). */
+  get transaction(): Transaction {
+    return this.tx;
+  }
+
+  /**
+   * Addresses whose Address-credential auth entries are still unsigned.
+   */
+  needsNonInvokerSigningBy(): string[] {
+    const addresses = new Set<string>();
+    for (const entry of this.authEntries()) {
+      if (is(entry.credentials, 'Address') && entry.credentials.Address.signature === 'Void') {
+        addresses.add(scAddressToString(entry.credentials.Address.address));
+      }
+    }
+    return [...addresses];
+  }
+
+  /**
+   * Sign the unsigned Address-credential auth entries belonging to `address`
+   * (all of them when omitted). A `Signer` defaults `address` to its own
+   * public key. Must happen before `sign()`.
+   */
+  async signAuthEntries(signer: AuthEntrySigner | Signer, address?: string): Promise<this> {
+    if (this.built !== null) {
+      throw new Error('Auth entries must be signed before signing the transaction');
+    }
+    let sign: AuthEntrySigner;
+    if (typeof signer === 'function') {
+      sign = signer;
+    } else {
+      address ??= signer.publicKey;
+      sign = (entry, latestLedger) =>
+        authorizeEntry(entry, signer, latestLedger + DEFAULT_AUTH_VALIDITY_LEDGERS, this.networkPassphrase);
+    }
+    const latestLedger = this.simulation.latestLedger;
+    const auth = await Promise.all(
+      this.authEntries().map(async (entry) => {
+        if (!is(entry.credentials, 'Address') || entry.credentials.Address.signature !== 'Void') {
+          return entry;
+        }
+        if (address !== undefined && scAddressToString(entry.credentials.Address.address) !== address) {
+          return entry;
+        }
+        return sign(entry, latestLedger);
+      }),
+    );
+    const op = this.tx.operations[0]!;
+    if (!is(op.body, 'InvokeHostFunction')) return this;
+    this.tx = {
+      ...this.tx,
+      operations: [{ ...op, body: { InvokeHostFunction: { ...op.body.InvokeHostFunction, auth } } }],
+    };
+    return this;
+  }
+
+  /**
+   * Sign the transaction envelope.
+   */
+  async sign(...signers: Signer[]): Promise<this> {
+    if (this.built === null) {
+      const hash = await transactionHash(this.tx, this.networkPassphrase);
+      this.built = new BuiltTransaction(this.tx, hash, this.networkPassphrase);
+    }
+    await this.built.sign(...signers);
+    return this;
+  }
+
+  /**
+   * Submit the signed transaction. Throws `TransactionFailedError` when the
+   * RPC rejects it.
+   */
+  async submit(): Promise<SendTransactionResponse> {
+    if (this.built === null) {
+      throw new Error('Transaction must be signed before submitting');
+    }
+    const resp = await this.rpc.sendTransaction(this.built.toTransactionEnvelope());
+    if (resp.status === 'TRY_AGAIN_LATER') {
+      throw new Error(`${this.method}: sendTransaction returned ${resp.status}`);
+    }
+    this.sent = resp;
+    return resp;
+  }
+
+  /**
+   * Poll until the submitted transaction is final; returns the decoded
+   * on-chain return value. Throws `TransactionFailedError` when it failed.
+   */
+  async poll(opts?: PollOptions): Promise<{ response: GetTransactionResponse; result: R }> {
+    if (this.sent === null) {
+      throw new Error('Transaction must be submitted before polling');
+    }
+    const response = await this.rpc.pollTransaction(this.sent.hash, opts);
+    const result = this.spec.funcResToNative(this.method, response.returnValue ?? 'Void') as R;
+    return { response, result };
+  }
+
+  /**
+   * Sign, submit and poll in one step.
+   */
+  async signAndSubmit(
+    signer: Signer,
+    opts?: PollOptions,
+  ): Promise<{ response: GetTransactionResponse; result: R }> {
+    await this.sign(signer);
+    await this.submit();
+    return this.poll(opts);
+  }
+
+  private authEntries(): readonly SorobanAuthorizationEntry[] {
+    const body = this.tx.operations[0]?.body;
+    if (body === undefined || !is(body, 'InvokeHostFunction')) return [];
+    return body.InvokeHostFunction.auth;
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Readable call traces and errors from Soroban diagnostic events.
+ *
+ * The host records each contract call as an `fn_call` event (topics
+ * `[fn_call, contract id bytes, function]`, arguments as data) and its
+ * result as `fn_return` (topics `[fn_return, function]`). Failures add
+ * `error` events whose second topic is the `SCError`.
+ */
+
+import {
+  bytesToHex,
+  is,
+  scAddressToString,
+  strkeyToString,
+  type DiagnosticEvent,
+  type SCError,
+  SCErrorCode,
+  SCErrorType,
+  type SCVal,
+  type XdrCodec,
+} from '@stellar/xdr';
+import type {
+  GetTransactionResponse,
+  SimulateTransactionErrorResponse,
+  TransactionInfo,
+} from '@stellar/rpc-client';
+import { scValToBigInt } from './scval-bigint.js';
+import type { Spec } from './spec.js';
+
+export interface DiagnosticOptions {
+  /** Contract spec used to name contract error codes. */
+  spec?: Spec;
+}
+
+/**
+ * An `SCError`, flattened.
+ */
+export interface HostError {
+  /** `'Contract'` for errors raised by the contract, otherwise the host area. */
+  type: SCErrorType;
+  /** Host error code; unset for contract errors. */
+  code?: SCErrorCode;
+  /** The contract's error number; set for contract errors. */
+  contractCode?: number;
+  /** Error case name from the spec, when one was supplied and declares it. */
+  name?: string;
+  /** Message from the `error` diagnostic event, if any. */
+  message?: string;
+  /** C-address of the contract that emitted the error, if known. */
+  contractId?: string;
+}
+
+/**
+ * What went wrong in a failed simulation or transaction.
+ */
+export interface SorobanFailure {
+  /** The final error, or `null` when none could be found. */
+  error: HostError | null;
+  /** Call trace from the diagnostic events; empty when there were none. */
+  trace: string;
+}
+
+/**
+ * Format diagnostic events as an indented call trace, one line per call,
+ * return, error, log and contract event. Contract IDs are shown as
+ * C-addresses and values in a compact native form.
+ */
+export function formatDiagnosticEvents(
+  events: readonly DiagnosticEvent[],
+  opts: DiagnosticOptions = {},
+): string {
+  const lines: string[] = [];
+  let depth = 0;
+  for (const { event } of events) {
+    const { topics, data } = event.body[0];
+    const contract = event.contractID ? contractAddress(event.contractID) : undefined;
+    const kind = topics[0] !== undefined && is(topics[0], 'Symbol') ? topics[0].Symbol : undefined;
+    const indent = '  '.repeat(depth);
+
+    if (event.type === 'Contract') {
+      const topicList = topics.map(renderScVal).join(', ');
+      lines.push(`${indent}event ${contract ?? '?'} [${topicList}] ${renderScVal(data)}`);
+      continue;
+    }
+    switch (kind) {
+      case 'fn_call': {
+        const callee = topics[1] !== undefined && is(topics[1], 'Bytes')
+          ? contractAddress(topics[1].Bytes)
+          : '?';
+        const args = callArgs(data).map(renderScVal).join(', ');
+        lines.push(`${indent}${callee}.${renderTopic(topics[2])}(${args})`);
+        depth++;
+        break;
+      }
+      case 'fn_return':
+        depth = Math.max(depth - 1, 0);
+        lines.push(`${'  '.repeat(depth)}${renderTopic(topics[1])} -> ${renderScVal(data)}`);
+        break;
+      case 'error': {
+        const error = topics[1] !== undefined && is(topics[1], 'Error')
+          ? formatScError(topics[1].Error, opts)
+          : renderTopic(topics[1]);
+        lines.push(`${indent}error ${error}: ${errorDetails(data).map(renderScVal).join(', ')}`);
+        break;
+      }
+      case 'log':
+        lines.push(`${indent}log ${callArgs(data).map(renderScVal).join(', ')}`);
+        break;
+      case 'core_metrics':
+        break;
+      default:
+        lines.push(`${indent}${topics.map(renderScVal).join(', ')} ${renderScVal(data)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The last `SCError` reported by the events' `error` entries, with its
+ * message and, for contract errors, the spec's case name.
+ */
+export function extractHostError(
+  events: readonly DiagnosticEvent[],
+  opts: DiagnosticOptions = {},
+): HostError | null {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const { event } = events[i]!;
+    const { topics, data } = event.body[0];
+    const [kind, error] = topics;
+    if (kind === undefined || !is(kind, 'Symbol') || kind.Symbol !== 'error') continue;
+    if (error === undefined || !is(error, 'Error')) continue;
+    const result = hostError(error.Error, opts);
+    const [message] = errorDetails(data);
+    if (message !== undefined && is(message, 'String')) result.message = message.String;
+    if (event.contractID) result.contractId = contractAddress(event.contractID);
+    return result;
+  }
+  return null;
+}
+
+/**
+ * Explain a failed simulation or transaction: its final error and call
+ * trace. Simulation errors without events fall back to the `Error(…)` in
+ * the error string.
+ */
+export function explainSorobanFailure(
+  failure: SimulateTransactionErrorResponse | GetTransactionResponse | TransactionInfo,
+  opts: DiagnosticOptions = {},
+): SorobanFailure {
+  const events = 'error' in failure
+    ? failure.events ?? []
+    : failure.diagnosticEventsXdr ?? metaDiagnosticEvents(failure);
+  let error = extractHostError(events, opts);
+  if (error === null && 'error' in failure) error = parseHostError(failure.error, opts);
+  return { error, trace: formatDiagnosticEvents(events, opts) };
+}
+
+/**
+ * Format an `SCError` the way the host does, e.g. `Error(Contract, #3)` or
+ * `Error(Storage, MissingValue)`, adding the spec's case name for contract
+ * errors (`Error(Contract, #3: NotAuthorized)`).
+ */
+export function formatScError(error: SCError, opts: DiagnosticOptions = {}): string {
+  return describeHostError(hostError(error, opts));
+}
+
+function describeHostError(error: HostError): string {
+  if (error.contractCode === undefined) return `Error(${error.type}, ${error.code})`;
+  const name = error.name !== undefined ? `: ${error.name}` : '';
+  return `Error(Contract, #${error.contractCode}${name})`;
+}
+
+function hostError(error: SCError, opts: DiagnosticOptions): HostError {
+  if (is(error, 'Contract')) {
+    const result: HostError = { type: 'Contract', contractCode: error.Contract };
+    const name = opts.spec?.errorCases().find((c) => c.value === error.Contract)?.name;
+    if (name !== undefined) result.name = name;
+    return result;
+  }
+  const type = Object.keys(error)[0] as Exclude<SCErrorType, 'Contract'>;
+  return { type, code: (error as Record<string, SCErrorCode>)[type] };
+}
+
+const HOST_ERROR_PATTERN = /Error\((\w+), #?(\w+)\)/;
+
+function parseHostError(message: string, opts: DiagnosticOptions): HostError | null {
+  const match = HOST_ERROR_PATTERN.exec(message);
+  if (!match) return null;
+  const type = match[1]!;
+  const code = match[2]!;
+  if (type === 'Contract') {
+    return /^\d+$/.test(code) ? hostError({ Contract: Number(code) }, opts) : null;
+  }
+  if (!isEnumMember(SCErrorType, type) || !isEnumMember(SCErrorCode, code)) return null;
+  return { type, code };
+}
+
+/** Whether `name` is a member of a generated enum codec. */
+function isEnumMember<T extends string>(codec: XdrCodec<T>, name: string): name is T {
+  return typeof Object.getOwnPropertyDescriptor(codec, name)?.value === 'number';
+}
+
+function metaDiagnosticEvents(
+  tx: GetTransactionResponse | TransactionInfo,
+): readonly DiagnosticEvent[] {
+  const meta = tx.resultMetaXdr;
+  if (meta === undefined) return [];
+  if (is(meta, '3')) return meta['3'].sorobanMeta?.diagnosticEvents ?? [];
+  if (is(meta, '4')) return meta['4'].diagnosticEvents;
+  return [];
+}
+
+/** Call arguments: a `Vec` of several, `Void` for none, or a single value. */
+function callArgs(data: SCVal): readonly SCVal[] {
+  if (data === 'Void') return [];
+  if (is(data, 'Vec')) return data.Vec ?? [];
+  return [data];
+}
+
+/** Error event data: a message, or a `Vec` of the message and its arguments. */
+function errorDetails(data: SCVal): readonly SCVal[] {
+  return is(data, 'Vec') ? data.Vec ?? [] : [data];
+}
+
+function contractAddress(id: Uint8Array): string {
+  return strkeyToString({ type: 'contract', data: id });
+}
+
+function renderTopic(topic: SCVal | undefined): string {
+  if (topic === undefined) return '?';
+  return is(topic, 'Symbol') ? topic.Symbol : renderScVal(topic);
+}
+
+function renderScVal(scv: SCVal): string {
+  if (scv === 'Void') return '()';
+  if (typeof scv === 'string') return scv;
+  if (is(scv, 'Bool')) return String(scv.Bool);
+  if (is(scv, 'Error')) return formatScError(scv.Error);
+  if (is(scv, 'U32')) return String(scv.U32);
+  if (is(scv, 'I32')) return String(scv.I32);
+  if (is(scv, 'Bytes')) return `0x${bytesToHex(scv.Bytes)}`;
+  if (is(scv, 'String')) return JSON.stringify(scv.String);
+  if (is(scv, 'Symbol')) return scv.Symbol;
+  if (is(scv, 'Vec')) return `[${(scv.Vec ?? []).map(renderScVal).join(', ')}]`;
+  if (is(scv, 'Map')) {
+    const entries = (scv.Map ?? []).map((e) => `${renderScVal(e.key)}: ${renderScVal(e.val)}`);
+    return `{${entries.join(', ')}}`;
+  }
+  if (is(scv, 'Address')) return scAddressToString(scv.Address);
+  if (is(scv, 'ContractInstance')) return 'ContractInstance';
+  if (is(scv, 'LedgerKeyNonce')) return `Nonce(${scv.LedgerKeyNonce.nonce})`;
+  return String(scValToBigInt(scv));
+}
@@ -0,0 +1,103 @@
+/**
+ * Decoding contract events with `SCSpecEventV0` definitions.
+ */
+
+import { is, type SCSpecEventV0, type SCSpecEventParamV0, type SCVal } from '@stellar/xdr';
+import { scValToNative, type UdtResolver } from './spec-convert.js';
+
+/**
+ * The parts of a contract event needed for decoding; satisfied by the
+ * RPC's `EventInfo`.
+ */
+export interface ContractEventLike {
+  topic: readonly SCVal[];
+  value: SCVal;
+}
+
+/**
+ * A contract event decoded with its spec definition.
+ */
+export interface DecodedEvent<P = Record<string, any>> {
+  /** Name of the matching spec event. */
+  name: string;
+  /** Topic and data parameters, by name, as native values. */
+  params: P;
+}
+
+/**
+ * Decode `event` with the first definition whose prefix topics, topic count
+ * and data shape match. Returns `null` when none does.
+ */
+export function decodeEvent(
+  event: ContractEventLike,
+  defs: readonly SCSpecEventV0[],
+  resolve: UdtResolver,
+): DecodedEvent | null {
+  for (const def of defs) {
+    try {
+      const params = decodeParams(event, def, resolve);
+      if (params) return { name: def.name, params };
+    } catch (err) {
+      // A type mismatch means another definition may still match.
+      if (!(err instanceof TypeError)) throw err;
+    }
+  }
+  return null;
+}
+
+function decodeParams(
+  { topic, value }: ContractEventLike,
+  def: SCSpecEventV0,
+  resolve: UdtResolver,
+): Record<string, any> | null {
+  const topicParams = def.params.filter((p) => p.location === 'TopicList');
+  const dataParams = def.params.filter((p) => p.location === 'Data');
+  if (topic.length !== def.prefixTopics.length + topicParams.length) return null;
+  for (const [i, prefix] of def.prefixTopics.entries()) {
+    const t = topic[i]!;
+    if (!is(t, 'Symbol') || t.Symbol !== prefix) return null;
+  }
+
+  const params: Record<string, any> = {};
+  for (const [i, param] of topicParams.entries()) {
+    params[param.name] = toNative(topic[def.prefixTopics.length + i]!, param, resolve);
+  }
+
+  switch (def.dataFormat) {
+    case 'SingleValue': {
+      const [param, ...rest] = dataParams;
+      if (rest.length > 0) return null;
+      if (param === undefined) return value === 'Void' ? params : null;
+      params[param.name] = toNative(value, param, resolve);
+      return params;
+    }
+    case 'Vec': {
+      if (!is(value, 'Vec')) return null;
+      const items = value.Vec ?? [];
+      if (items.length !== dataParams.length) return null;
+      for (const [i, param] of dataParams.entries()) {
+        params[param.name] = toNative(items[i]!, param, resolve);
+      }
+      return params;
+    }
+    case 'Map': {
+      if (!is(value, 'Map')) return null;
+      const entries = new Map<string, SCVal>();
+      for (const entry of value.Map ?? []) {
+        if (!is(entry.key, 'Symbol')) return null;
+        entries.set(entry.key.Symbol, entry.val);
+      }
+      if (entries.size !== dataParams.length) return null;
+      for (const param of dataParams) {
+        const val = entries.get(param.name);
+        if (val === undefined) return null;
+        params[param.name] = toNative(val, param, resolve);
+      }
+      return params;
+    }
+  }
+}
+
+function toNative(scv: SCVal, param: SCSpecEventParamV0, resolve: UdtResolver): any {
+  return scValToNative(scv, param.type, resolve, param.name);
+}
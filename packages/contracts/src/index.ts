@@ -8,7 +8,43 @@ export {
 } from './invocation-tree.js';
 export { ScInt, type ScIntType } from './scint.js';
 export { scValToBigInt } from './scval-bigint.js';
-export { Spec } from './spec.js';
+export { Spec, type ContractSpecSource } from './spec.js';
+export { STELLAR_ASSET_CONTRACT_SPEC_ENTRIES } from './sac-spec.js';
+export { type ContractEventLike, type DecodedEvent } from './events.js';
+export {
+  TOKEN_EVENT_SPEC_ENTRIES,
+  decodeTokenEvent,
+  type TokenEvent,
+} from './token-events.js';
+export {
+  formatDiagnosticEvents,
+  extractHostError,
+  explainSorobanFailure,
+  formatScError,
+  type DiagnosticOptions,
+  type HostError,
+  type SorobanFailure,
+} from './diagnostics.js';
+export { generateBindings, type BindingsOptions } from './bindings.js';
+export {
+  ContractClient,
+  ContractCall,
+  type ContractClientOptions,
+  type ContractMethods,
+  type AuthEntrySigner,
+} from './contract-client.js';
+export {
+  sortScMapEntries,
+  type SpecResult,
+  type SpecUnionValue,
+} from './spec-convert.js';
+export { parseScAddress, scAddressToString } from '@stellar/xdr';
+export {
+  parseContractWasm,
+  parseWasmCustomSections,
+  type ContractMetadata,
+  type ContractWasmInfo,
+} from './wasm.js';
 export {
   LiquidityPoolAsset,
   type AssetLike,
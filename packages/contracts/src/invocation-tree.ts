@@ -4,13 +4,10 @@
 
 import {
   is,
-  encodeStrkey,
-  STRKEY_CONTRACT,
-  STRKEY_ED25519_PUBLIC,
+  scAddressToString,
   type SorobanAuthorizedInvocation,
   type SorobanAuthorizedFunction,
   type SCVal,
-  type SCAddress,
 } from '@stellar/xdr';
 
 export interface InvocationTreeExecuteArgs {
@@ -29,18 +26,6 @@ export interface InvocationTree {
   invocations: InvocationTree[];
 }
 
-function scAddressToString(addr: SCAddress): string {
-  if (is(addr, 'Contract')) {
-    return encodeStrkey(STRKEY_CONTRACT, addr.Contract);
-  }
-  if (is(addr, 'Account')) {
-    if (is(addr.Account, 'PublicKeyTypeEd25519')) {
-      return encodeStrkey(STRKEY_ED25519_PUBLIC, addr.Account.PublicKeyTypeEd25519);
-    }
-  }
-  return '<unknown>';
-}
-
 function buildArgs(fn: SorobanAuthorizedFunction): InvocationTree['args'] {
   if (is(fn, 'ContractFn')) {
     return {
@@ -0,0 +1,107 @@
+/**
+ * Built-in contract spec for the Stellar Asset Contract (SAC).
+ *
+ * SAC instances execute host code rather than WASM, so there is no
+ * `contractspecv0` section to read; this mirrors the interface exposed by
+ * the host (SEP-41 token functions plus the admin extensions).
+ */
+
+import type {
+  SCSpecEntry,
+  SCSpecFunctionInputV0,
+  SCSpecTypeDef,
+} from '@stellar/xdr';
+
+function input(name: string, type: SCSpecTypeDef): SCSpecFunctionInputV0 {
+  return { doc: '', name, type };
+}
+
+function fn(
+  name: string,
+  doc: string,
+  inputs: SCSpecFunctionInputV0[],
+  outputs: SCSpecTypeDef[] = [],
+): SCSpecEntry {
+  return { FunctionV0: { doc, name, inputs, outputs } };
+}
+
+const ERROR_CASES: readonly [string, number][] = [
+  ['InternalError', 1],
+  ['OperationNotSupportedError', 2],
+  ['AlreadyInitializedError', 3],
+  ['UnauthorizedError', 4],
+  ['AuthenticationError', 5],
+  ['AccountMissingError', 6],
+  ['AccountIsNotClassic', 7],
+  ['NegativeAmountError', 8],
+  ['AllowanceError', 9],
+  ['BalanceError', 10],
+  ['BalanceDeauthorizedError', 11],
+  ['OverflowError', 12],
+  ['TrustlineMissingError', 13],
+];
+
+/**
+ * Spec entries describing the Stellar Asset Contract interface.
+ */
+export const STELLAR_ASSET_CONTRACT_SPEC_ENTRIES: readonly SCSpecEntry[] = [
+  fn('allowance', 'Returns the allowance for `spender` to transfer from `from`.', [
+    input('from', 'Address'),
+    input('spender', 'Address'),
+  ], ['I128']),
+  fn('approve', 'Set the allowance by `amount` for `spender` to transfer/burn from `from`.', [
+    input('from', 'Address'),
+    input('spender', 'Address'),
+    input('amount', 'I128'),
+    input('expiration_ledger', 'U32'),
+  ]),
+  fn('balance', 'Returns the balance of `id`.', [input('id', 'Address')], ['I128']),
+  fn('transfer', 'Transfer `amount` from `from` to `to`.', [
+    input('from', 'Address'),
+    input('to', 'MuxedAddress'),
+    input('amount', 'I128'),
+  ]),
+  fn('transfer_from', 'Transfer `amount` from `from` to `to`, consuming the allowance of `spender`.', [
+    input('spender', 'Address'),
+    input('from', 'Address'),
+    input('to', 'Address'),
+    input('amount', 'I128'),
+  ]),
+  fn('burn', 'Burn `amount` from `from`.', [
+    input('from', 'Address'),
+    input('amount', 'I128'),
+  ]),
+  fn('burn_from', 'Burn `amount` from `from`, consuming the allowance of `spender`.', [
+    input('spender', 'Address'),
+    input('from', 'Address'),
+    input('amount', 'I128'),
+  ]),
+  fn('decimals', 'Returns the number of decimals used to represent amounts.', [], ['U32']),
+  fn('name', 'Returns the name for this token.', [], ['String']),
+  fn('symbol', 'Returns the symbol for this token.', [], ['String']),
+  fn('set_admin', 'Sets the administrator to `new_admin`.', [input('new_admin', 'Address')]),
+  fn('admin', 'Returns the current administrator.', [], ['Address']),
+  fn('set_authorized', 'Sets whether `id` is authorized to hold the token.', [
+    input('id', 'Address'),
+    input('authorize', 'Bool'),
+  ]),
+  fn('authorized', 'Returns whether `id` is authorized to hold the token.', [
+    input('id', 'Address'),
+  ], ['Bool']),
+  fn('mint', 'Mints `amount` to `to`.', [
+    input('to', 'Address'),
+    input('amount', 'I128'),
+  ]),
+  fn('clawback', 'Claws back `amount` from `from`.', [
+    input('from', 'Address'),
+    input('amount', 'I128'),
+  ]),
+  {
+    UdtErrorEnumV0: {
+      doc: '',
+      lib: '',
+      name: 'ContractError',
+      cases: ERROR_CASES.map(([name, value]) => ({ doc: '', name, value })),
+    },
+  },
+];
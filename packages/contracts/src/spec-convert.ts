@@ -0,0 +1,660 @@
+/**
+ * Spec-driven conversion between native JS values and SCVal.
+ *
+ * Every conversion is guided by an `SCSpecTypeDef`, so values are encoded
+ * exactly as the contract expects them (e.g. `5` becomes a `U32` or an
+ * `I128` depending on the declared parameter type). Errors carry the path of
+ * the offending value, e.g. `recipients[2].amount`.
+ */
+
+import {
+  SCValType,
+  SCVal as SCValCodec,
+  is,
+  parseScAddress,
+  scAddressToString,
+  type SCError,
+  type SCMapEntry,
+  type SCSpecEntry,
+  type SCSpecTypeDef,
+  type SCSpecUDTStructV0,
+  type SCSpecUDTUnionV0,
+  type SCSpecUDTEnumV0,
+  type SCSpecUDTErrorEnumV0,
+  type SCVal,
+} from '@stellar/xdr';
+import { ScInt, type ScIntType } from './scint.js';
+import { scValToBigInt } from './scval-bigint.js';
+
+/**
+ * Native representation of a `Result<T, E>` spec type.
+ */
+export type SpecResult<T = any, E = any> = { ok: T } | { err: E };
+
+/**
+ * Native representation of a UDT union value: the case name, plus the
+ * payload values for tuple cases.
+ */
+export interface SpecUnionValue {
+  tag: string;
+  values?: readonly any[];
+}
+
+/**
+ * Resolves a user-defined type name to its spec entry. `path` locates the
+ * value being converted, for errors.
+ */
+export type UdtResolver = (name: string, path: string) => SCSpecEntry;
+
+const SYMBOL_PATTERN = /^[a-zA-Z0-9_]{0,32}$/;
+
+const INT_TYPES: Record<string, ScIntType> = {
+  U128: 'u128',
+  I128: 'i128',
+  U256: 'u256',
+  I256: 'i256',
+};
+
+const SMALL_INT_RANGES = {
+  U32: { min: 0, max: 0xffffffff },
+  I32: { min: -0x80000000, max: 0x7fffffff },
+} as const;
+
+const U64_MAX = (1n << 64n) - 1n;
+const I64_MIN = -(1n << 63n);
+const I64_MAX = (1n << 63n) - 1n;
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export function fail(path: string, message: string): never {
+  throw new TypeError(path ? `${path}: ${message}` : message);
+}
+
+function describe(val: unknown): string {
+  if (val === null) return 'null';
+  if (val instanceof Uint8Array) return `Uint8Array(${val.length})`;
+  if (Array.isArray(val)) return `array(${val.length})`;
+  if (typeof val === 'string') return `string ${JSON.stringify(val)}`;
+  if (typeof val === 'object') return 'object';
+  return `${typeof val} ${String(val)}`;
+}
+
+function typeName(type: SCSpecTypeDef): string {
+  if (typeof type === 'string') return type;
+  if (is(type, 'Udt')) return type.Udt.name;
+  if (is(type, 'BytesN')) return `BytesN<${type.BytesN.n}>`;
+  return Object.keys(type)[0]!;
+}
+
+function armOf(scv: SCVal): string {
+  return typeof scv === 'string' ? scv : Object.keys(scv)[0]!;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// ---------------------------------------------------------------------------
+// Native → SCVal
+// ---------------------------------------------------------------------------
+
+function toBigInt(val: unknown, path: string, type: string): bigint {
+  if (typeof val === 'bigint') return val;
+  if (typeof val === 'number' && Number.isInteger(val)) return BigInt(val);
+  if (typeof val === 'string' && /^-?\d+$/.test(val)) return BigInt(val);
+  if (val instanceof ScInt) return val.toBigInt();
+  return fail(path, `expected ${type} integer, got ${describe(val)}`);
+}
+
+function bigIntInRange(
+  val: unknown,
+  path: string,
+  type: string,
+  min: bigint,
+  max: bigint,
+): bigint {
+  const n = toBigInt(val, path, type);
+  if (n < min || n > max) {
+    fail(path, `value ${n} out of range for ${type}`);
+  }
+  return n;
+}
+
+/**
+ * Sort map entries into the canonical order required by the Soroban host:
+ * by value type first, then by value.
+ */
+export function sortScMapEntries(entries: readonly SCMapEntry[]): SCMapEntry[] {
+  return [...entries].sort((a, b) => compareScVals(a.key, b.key));
+}
+
+function compareScVals(a: SCVal, b: SCVal): number {
+  const ta = SCValType[armOf(a) as SCValType];
+  const tb = SCValType[armOf(b) as SCValType];
+  if (ta !== tb) return ta - tb;
+  if (is(a, 'Symbol') && is(b, 'Symbol')) return compareStrings(a.Symbol, b.Symbol);
+  if (is(a, 'String') && is(b, 'String')) return compareStrings(a.String, b.String);
+  if (is(a, 'Bytes') && is(b, 'Bytes')) return compareBytes(a.Bytes, b.Bytes);
+  if (is(a, 'Bool') && is(b, 'Bool')) return Number(a.Bool) - Number(b.Bool);
+  try {
+    const na = scValToBigInt(a);
+    const nb = scValToBigInt(b);
+    return na < nb ? -1 : na > nb ? 1 : 0;
+  } catch {
+    return compareBytes(SCValCodec.toXdr(a), SCValCodec.toXdr(b));
+  }
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    if (a[i] !== b[i]) return a[i]! - b[i]!;
+  }
+  return a.length - b.length;
+}
+
+function mapInputEntries(val: unknown, path: string): [unknown, unknown][] {
+  if (val instanceof Map) return [...val.entries()];
+  if (Array.isArray(val)) {
+    return val.map((pair, i) => {
+      if (!Array.isArray(pair) || pair.length !== 2) {
+        fail(join(path, i), `expected [key, value] pair, got ${describe(pair)}`);
+      }
+      return [pair[0], pair[1]] as [unknown, unknown];
+    });
+  }
+  if (typeof val === 'object' && val !== null && !(val instanceof Uint8Array)) {
+    return Object.entries(val);
+  }
+  return fail(path, `expected Map, [key, value][] or object, got ${describe(val)}`);
+}
+
+export function nativeToScVal(
+  val: unknown,
+  type: SCSpecTypeDef,
+  resolve: UdtResolver,
+  path: string = '',
+): SCVal {
+  if (typeof type === 'string') {
+    return primitiveToScVal(val, type, path);
+  }
+
+  if (is(type, 'Option')) {
+    if (val === null || val === undefined) return 'Void';
+    return nativeToScVal(val, type.Option.valueType, resolve, path);
+  }
+
+  if (is(type, 'Result')) {
+    if (typeof val === 'object' && val !== null && 'ok' in val) {
+      return nativeToScVal((val as { ok: unknown }).ok, type.Result.okType, resolve, join(path, 'ok'));
+    }
+    if (typeof val === 'object' && val !== null && 'err' in val) {
+      return nativeToScVal((val as { err: unknown }).err, type.Result.errorType, resolve, join(path, 'err'));
+    }
+    return fail(path, `expected { ok } or { err } for Result, got ${describe(val)}`);
+  }
+
+  if (is(type, 'Vec')) {
+    if (!Array.isArray(val)) {
+      return fail(path, `expected array for Vec, got ${describe(val)}`);
+    }
+    return {
+      Vec: val.map((item, i) =>
+        nativeToScVal(item, type.Vec.elementType, resolve, join(path, i)),
+      ),
+    };
+  }
+
+  if (is(type, 'Map')) {
+    const entries = mapInputEntries(val, path).map(([k, v], i) => ({
+      key: nativeToScVal(k, type.Map.keyType, resolve, join(path, i)),
+      val: nativeToScVal(v, type.Map.valueType, resolve, join(path, typeof k === 'string' ? k : i)),
+    }));
+    return { Map: sortScMapEntries(entries) };
+  }
+
+  if (is(type, 'Tuple')) {
+    const types = type.Tuple.valueTypes;
+    if (!Array.isArray(val) || val.length !== types.length) {
+      return fail(path, `expected tuple of ${types.length} values, got ${describe(val)}`);
+    }
+    return {
+      Vec: types.map((t, i) => nativeToScVal(val[i], t, resolve, join(path, i))),
+    };
+  }
+
+  if (is(type, 'BytesN')) {
+    const n = type.BytesN.n;
+    if (!(val instanceof Uint8Array) || val.length !== n) {
+      return fail(path, `expected Uint8Array of length ${n}, got ${describe(val)}`);
+    }
+    return { Bytes: val };
+  }
+
+  return udtToScVal(val, resolve(type.Udt.name, path), resolve, path);
+}
+
+function primitiveToScVal(val: unknown, type: Extract<SCSpecTypeDef, string>, path: string): SCVal {
+  switch (type) {
+    case 'Val':
+      if (typeof val !== 'string' && (typeof val !== 'object' || val === null)) {
+        fail(path, `expected SCVal, got ${describe(val)}`);
+      }
+      return val as SCVal;
+    case 'Bool':
+      if (typeof val !== 'boolean') fail(path, `expected boolean, got ${describe(val)}`);
+      return { Bool: val };
+    case 'Void':
+      if (val !== null && val !== undefined) fail(path, `expected null for Void, got ${describe(val)}`);
+      return 'Void';
+    case 'Error':
+      if (typeof val !== 'object' || val === null) fail(path, `expected SCError, got ${describe(val)}`);
+      return { Error: val as SCError };
+    case 'U32':
+    case 'I32': {
+      const { min, max } = SMALL_INT_RANGES[type];
+      if (typeof val !== 'number' || !Number.isInteger(val)) {
+        fail(path, `expected ${type} integer, got ${describe(val)}`);
+      }
+      if (val < min || val > max) fail(path, `value ${val} out of range for ${type}`);
+      return type === 'U32' ? { U32: val } : { I32: val };
+    }
+    case 'U64':
+      return { U64: bigIntInRange(val, path, type, 0n, U64_MAX) };
+    case 'Timepoint':
+      return { Timepoint: bigIntInRange(val, path, type, 0n, U64_MAX) };
+    case 'Duration':
+      return { Duration: bigIntInRange(val, path, type, 0n, U64_MAX) };
+    case 'I64':
+      return { I64: bigIntInRange(val, path, type, I64_MIN, I64_MAX) };
+    case 'U128':
+    case 'I128':
+    case 'U256':
+    case 'I256': {
+      const n = toBigInt(val, path, type);
+      try {
+        return new ScInt(n, { type: INT_TYPES[type] }).toScVal();
+      } catch (err) {
+        return fail(path, (err as Error).message);
+      }
+    }
+    case 'Bytes':
+      if (!(val instanceof Uint8Array)) fail(path, `expected Uint8Array, got ${describe(val)}`);
+      return { Bytes: val };
+    case 'String':
+      if (typeof val !== 'string') fail(path, `expected string, got ${describe(val)}`);
+      return { String: val };
+    case 'Symbol':
+      if (typeof val !== 'string' || !SYMBOL_PATTERN.test(val)) {
+        fail(path, `expected symbol (up to 32 chars of [a-zA-Z0-9_]), got ${describe(val)}`);
+      }
+      return { Symbol: val };
+    case 'Address':
+    case 'MuxedAddress': {
+      if (typeof val !== 'string') fail(path, `expected ${type} strkey, got ${describe(val)}`);
+      let address;
+      try {
+        address = parseScAddress(val);
+      } catch (err) {
+        return fail(path, `invalid ${type} ${JSON.stringify(val)}: ${(err as Error).message}`);
+      }
+      if (type === 'Address' && is(address, 'MuxedAccount')) {
+        fail(path, `muxed accounts are only accepted by MuxedAddress parameters`);
+      }
+      return { Address: address };
+    }
+  }
+}
+
+function udtToScVal(
+  val: unknown,
+  entry: SCSpecEntry,
+  resolve: UdtResolver,
+  path: string,
+): SCVal {
+  if (is(entry, 'UdtStructV0')) return structToScVal(val, entry.UdtStructV0, resolve, path);
+  if (is(entry, 'UdtUnionV0')) return unionToScVal(val, entry.UdtUnionV0, resolve, path);
+  if (is(entry, 'UdtEnumV0')) {
+    const u32 = enumValue(val, entry.UdtEnumV0, path);
+    return { U32: u32 };
+  }
+  if (is(entry, 'UdtErrorEnumV0')) {
+    const code = enumValue(val, entry.UdtErrorEnumV0, path);
+    return { Error: { Contract: code } };
+  }
+  return fail(path, `spec entry is not a user-defined type`);
+}
+
+/**
+ * Structs whose fields are all named by position ("0", "1", ...) are tuple
+ * structs and are encoded as a Vec rather than a Map.
+ */
+export function isTupleStruct(struct: SCSpecUDTStructV0): boolean {
+  return (
+    struct.fields.length > 0 &&
+    struct.fields.every((f, i) => f.name === String(i))
+  );
+}
+
+function structToScVal(
+  val: unknown,
+  struct: SCSpecUDTStructV0,
+  resolve: UdtResolver,
+  path: string,
+): SCVal {
+  if (isTupleStruct(struct)) {
+    if (!Array.isArray(val) || val.length !== struct.fields.length) {
+      return fail(path, `expected tuple of ${struct.fields.length} values for ${struct.name}, got ${describe(val)}`);
+    }
+    return {
+      Vec: struct.fields.map((f, i) => nativeToScVal(val[i], f.type, resolve, join(path, i))),
+    };
+  }
+  if (typeof val !== 'object' || val === null || Array.isArray(val)) {
+    return fail(path, `expected object for ${struct.name}, got ${describe(val)}`);
+  }
+  const obj = val as Record<string, unknown>;
+  const entries = struct.fields.map((f) => {
+    const fieldPath = join(path, f.name);
+    if (!(f.name in obj) && !is(f.type, 'Option')) {
+      fail(fieldPath, `missing field of ${struct.name}`);
+    }
+    return {
+      key: { Symbol: f.name } as SCVal,
+      val: nativeToScVal(obj[f.name], f.type, resolve, fieldPath),
+    };
+  });
+  return { Map: sortScMapEntries(entries) };
+}
+
+function unionToScVal(
+  val: unknown,
+  union: SCSpecUDTUnionV0,
+  resolve: UdtResolver,
+  path: string,
+): SCVal {
+  const input: SpecUnionValue | undefined =
+    typeof val === 'string'
+      ? { tag: val }
+      : typeof val === 'object' && val !== null && typeof (val as SpecUnionValue).tag === 'string'
+        ? (val as SpecUnionValue)
+        : undefined;
+  if (input === undefined) {
+    return fail(path, `expected { tag, values } for ${union.name}, got ${describe(val)}`);
+  }
+
+  for (const c of union.cases) {
+    if (is(c, 'VoidV0') && c.VoidV0.name === input.tag) {
+      return { Vec: [{ Symbol: input.tag }] };
+    }
+    if (is(c, 'TupleV0') && c.TupleV0.name === input.tag) {
+      const types = c.TupleV0.type;
+      const values = input.values ?? [];
+      if (!Array.isArray(values) || values.length !== types.length) {
+        return fail(
+          join(path, 'values'),
+          `expected ${types.length} values for ${union.name}::${input.tag}, got ${describe(values)}`,
+        );
+      }
+      return {
+        Vec: [
+          { Symbol: input.tag },
+          ...types.map((t, i) => nativeToScVal(values[i], t, resolve, join(join(path, 'values'), i))),
+        ],
+      };
+    }
+  }
+  return fail(path, `unknown case "${input.tag}" for ${union.name}`);
+}
+
+function enumValue(
+  val: unknown,
+  def: SCSpecUDTEnumV0 | SCSpecUDTErrorEnumV0,
+  path: string,
+): number {
+  const match =
+    typeof val === 'number'
+      ? def.cases.find((c) => c.value === val)
+      : typeof val === 'string'
+        ? def.cases.find((c) => c.name === val)
+        : undefined;
+  if (match === undefined) {
+    return fail(path, `${describe(val)} is not a case of ${def.name}`);
+  }
+  return match.value;
+}
+
+// ---------------------------------------------------------------------------
+// SCVal → native
+// ---------------------------------------------------------------------------
+
+function expectArm<K extends string>(
+  scv: SCVal,
+  arm: K,
+  type: SCSpecTypeDef,
+  path: string,
+): asserts scv is Extract<SCVal, Record<K, unknown>> {
+  if (!is(scv, arm)) {
+    fail(path, `expected ${arm} SCVal for ${typeName(type)}, got ${armOf(scv)}`);
+  }
+}
+
+export function scValToNative(
+  scv: SCVal,
+  type: SCSpecTypeDef,
+  resolve: UdtResolver,
+  path: string = '',
+): any {
+  if (typeof type === 'string') {
+    return primitiveToNative(scv, type, path);
+  }
+
+  if (is(type, 'Option')) {
+    if (scv === 'Void') return null;
+    return scValToNative(scv, type.Option.valueType, resolve, path);
+  }
+
+  if (is(type, 'Result')) {
+    if (is(scv, 'Error')) {
+      return { err: errorToNative(scv.Error, type.Result.errorType, resolve, join(path, 'err')) };
+    }
+    return { ok: scValToNative(scv, type.Result.okType, resolve, join(path, 'ok')) };
+  }
+
+  if (is(type, 'Vec')) {
+    expectArm(scv, 'Vec', type, path);
+    return (scv.Vec ?? []).map((item, i) =>
+      scValToNative(item, type.Vec.elementType, resolve, join(path, i)),
+    );
+  }
+
+  if (is(type, 'Map')) {
+    expectArm(scv, 'Map', type, path);
+    const result = new Map<any, any>();
+    (scv.Map ?? []).forEach((entry, i) => {
+      const key = scValToNative(entry.key, type.Map.keyType, resolve, join(path, i));
+      result.set(key, scValToNative(entry.val, type.Map.valueType, resolve, join(path, i)));
+    });
+    return result;
+  }
+
+  if (is(type, 'Tuple')) {
+    expectArm(scv, 'Vec', type, path);
+    const items = scv.Vec ?? [];
+    const types = type.Tuple.valueTypes;
+    if (items.length !== types.length) {
+      fail(path, `expected tuple of ${types.length} values, got ${items.length}`);
+    }
+    return types.map((t, i) => scValToNative(items[i]!, t, resolve, join(path, i)));
+  }
+
+  if (is(type, 'BytesN')) {
+    expectArm(scv, 'Bytes', type, path);
+    if (scv.Bytes.length !== type.BytesN.n) {
+      fail(path, `expected ${type.BytesN.n} bytes, got ${scv.Bytes.length}`);
+    }
+    return scv.Bytes;
+  }
+
+  return udtToNative(scv, type, resolve(type.Udt.name, path), resolve, path);
+}
+
+function primitiveToNative(scv: SCVal, type: Extract<SCSpecTypeDef, string>, path: string): any {
+  switch (type) {
+    case 'Val':
+      return scv;
+    case 'Void':
+      if (scv !== 'Void') fail(path, `expected Void SCVal, got ${armOf(scv)}`);
+      return null;
+    case 'Bool':
+      expectArm(scv, 'Bool', type, path);
+      return scv.Bool;
+    case 'Error':
+      expectArm(scv, 'Error', type, path);
+      return scv.Error;
+    case 'U32':
+      expectArm(scv, 'U32', type, path);
+      return scv.U32;
+    case 'I32':
+      expectArm(scv, 'I32', type, path);
+      return scv.I32;
+    case 'U64':
+    case 'I64':
+    case 'Timepoint':
+    case 'Duration':
+    case 'U128':
+    case 'I128':
+    case 'U256':
+    case 'I256':
+      expectArm(scv, type, type, path);
+      return scValToBigInt(scv);
+    case 'Bytes':
+      expectArm(scv, 'Bytes', type, path);
+      return scv.Bytes;
+    case 'String':
+      expectArm(scv, 'String', type, path);
+      return scv.String;
+    case 'Symbol':
+      expectArm(scv, 'Symbol', type, path);
+      return scv.Symbol;
+    case 'Address':
+    case 'MuxedAddress':
+      expectArm(scv, 'Address', type, path);
+      return scAddressToString(scv.Address);
+  }
+}
+
+function errorToNative(
+  error: SCError,
+  type: SCSpecTypeDef,
+  resolve: UdtResolver,
+  path: string,
+): any {
+  if (typeof type === 'object' && is(type, 'Udt')) {
+    const entry = resolve(type.Udt.name, path);
+    if (is(entry, 'UdtErrorEnumV0') && is(error, 'Contract')) {
+      return errorCaseToNative(error.Contract, entry.UdtErrorEnumV0, path);
+    }
+  }
+  return error;
+}
+
+function errorCaseToNative(code: number, def: SCSpecUDTErrorEnumV0, path: string): number {
+  if (!def.cases.some((c) => c.value === code)) {
+    fail(path, `${code} is not a case of ${def.name}`);
+  }
+  return code;
+}
+
+function udtToNative(
+  scv: SCVal,
+  type: SCSpecTypeDef,
+  entry: SCSpecEntry,
+  resolve: UdtResolver,
+  path: string,
+): any {
+  if (is(entry, 'UdtStructV0')) {
+    const struct = entry.UdtStructV0;
+    if (isTupleStruct(struct)) {
+      expectArm(scv, 'Vec', type, path);
+      const items = scv.Vec ?? [];
+      if (items.length !== struct.fields.length) {
+        fail(path, `expected ${struct.fields.length} values for ${struct.name}, got ${items.length}`);
+      }
+      return struct.fields.map((f, i) => scValToNative(items[i]!, f.type, resolve, join(path, i)));
+    }
+    expectArm(scv, 'Map', type, path);
+    const byName = new Map<string, SCVal>();
+    for (const e of scv.Map ?? []) {
+      if (is(e.key, 'Symbol')) byName.set(e.key.Symbol, e.val);
+    }
+    const result: Record<string, any> = {};
+    for (const f of struct.fields) {
+      const fieldPath = join(path, f.name);
+      const fieldVal = byName.get(f.name);
+      if (fieldVal === undefined) {
+        fail(fieldPath, `missing field of ${struct.name}`);
+      }
+      result[f.name] = scValToNative(fieldVal, f.type, resolve, fieldPath);
+    }
+    return result;
+  }
+
+  if (is(entry, 'UdtUnionV0')) {
+    const union = entry.UdtUnionV0;
+    expectArm(scv, 'Vec', type, path);
+    const [head, ...rest] = scv.Vec ?? [];
+    if (head === undefined || !is(head, 'Symbol')) {
+      return fail(path, `expected Vec starting with a Symbol for ${union.name}`);
+    }
+    const tag = head.Symbol;
+    for (const c of union.cases) {
+      if (is(c, 'VoidV0') && c.VoidV0.name === tag) {
+        return { tag } satisfies SpecUnionValue;
+      }
+      if (is(c, 'TupleV0') && c.TupleV0.name === tag) {
+        const types = c.TupleV0.type;
+        if (rest.length !== types.length) {
+          fail(path, `expected ${types.length} values for ${union.name}::${tag}, got ${rest.length}`);
+        }
+        const valuesPath = join(path, 'values');
+        return {
+          tag,
+          values: types.map((t, i) => scValToNative(rest[i]!, t, resolve, join(valuesPath, i))),
+        } satisfies SpecUnionValue;
+      }
+    }
+    return fail(path, `unknown case "${tag}" for ${union.name}`);
+  }
+
+  if (is(entry, 'UdtEnumV0')) {
+    const def = entry.UdtEnumV0;
+    expectArm(scv, 'U32', type, path);
+    if (!def.cases.some((c) => c.value === scv.U32)) {
+      fail(path, `${scv.U32} is not a case of ${def.name}`);
+    }
+    return scv.U32;
+  }
+
+  if (is(entry, 'UdtErrorEnumV0')) {
+    expectArm(scv, 'Error', type, path);
+    if (!is(scv.Error, 'Contract')) {
+      const [arm, code] = Object.entries(scv.Error)[0]!;
+      return fail(
+        path,
+        `expected contract error for ${entry.UdtErrorEnumV0.name}, got Error(${arm}, ${code})`,
+      );
+    }
+    return errorCaseToNative(scv.Error.Contract, entry.UdtErrorEnumV0, path);
+  }
+
+  return fail(path, `spec entry is not a user-defined type`);
+}
+
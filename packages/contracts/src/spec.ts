@@ -4,10 +4,27 @@
 
 import {
   SCSpecEntry,
+  SCVal,
   is,
+  type ContractExecutable,
+  type SCSpecEventV0,
   type SCSpecFunctionV0,
   type SCSpecTypeDef,
+  type SCSpecUDTErrorEnumCaseV0,
 } from '@stellar/xdr';
+import { topicFilter } from '@stellar/rpc-client';
+import { fail, nativeToScVal, scValToNative, type UdtResolver } from './spec-convert.js';
+import { decodeEvent, type ContractEventLike, type DecodedEvent } from './events.js';
+import { STELLAR_ASSET_CONTRACT_SPEC_ENTRIES } from './sac-spec.js';
+import { parseContractWasm } from './wasm.js';
+
+/**
+ * The RPC methods `Spec.fromContract` needs; satisfied by `RpcClient`.
+ */
+export interface ContractSpecSource {
+  getContractExecutable(contractId: string): Promise<ContractExecutable>;
+  getContractWasmByHash(wasmHash: Uint8Array): Promise<Uint8Array>;
+}
 
 /**
  * Represents a parsed Soroban contract specification.
@@ -19,6 +36,8 @@ export class Spec {
     this.entries = entries;
   }
 
+  private readonly resolve: UdtResolver = (name, path) => this.findEntry(name, path);
+
   /**
    * Parse spec entries from raw XDR buffers (e.g. from WASM custom sections).
    */
@@ -27,6 +46,32 @@ export class Spec {
     return new Spec(entries);
   }
 
+  /**
+   * Parse the spec from contract WASM bytecode.
+   */
+  static fromWasm(wasm: Uint8Array): Spec {
+    return parseContractWasm(wasm).spec;
+  }
+
+  /**
+   * The built-in spec of the Stellar Asset Contract.
+   */
+  static stellarAssetContract(): Spec {
+    return new Spec(STELLAR_ASSET_CONTRACT_SPEC_ENTRIES);
+  }
+
+  /**
+   * Fetch a deployed contract's spec: reads the contract instance, then the
+   * WASM it executes. Stellar Asset Contracts return the built-in SAC spec.
+   */
+  static async fromContract(rpc: ContractSpecSource, contractId: string): Promise<Spec> {
+    const executable = await rpc.getContractExecutable(contractId);
+    if (!is(executable, 'Wasm')) {
+      return Spec.stellarAssetContract();
+    }
+    return Spec.fromWasm(await rpc.getContractWasmByHash(executable.Wasm));
+  }
+
   /**
    * Get all function spec entries.
    */
@@ -52,6 +97,159 @@ export class Spec {
     return undefined;
   }
 
+  /**
+   * Get all event spec entries.
+   */
+  events(): readonly SCSpecEventV0[] {
+    const result: SCSpecEventV0[] = [];
+    for (const entry of this.entries) {
+      if (is(entry, 'EventV0')) {
+        result.push(entry.EventV0);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find an event by name.
+   */
+  getEvent(name: string): SCSpecEventV0 | undefined {
+    return this.events().find((event) => event.name === name);
+  }
+
+  /**
+   * Build an `EventFilter.topics` entry for the named event. Topic parameters
+   * given in `topics` are converted with their spec types; the others match
+   * any value.
+   */
+  eventTopicFilter(name: string, topics: Record<string, unknown> = {}): string[] {
+    const event = this.getEvent(name);
+    if (!event) {
+      throw new Error(`No event named "${name}" in contract spec`);
+    }
+    const params = event.params.filter((p) => p.location === 'TopicList');
+    for (const key of Object.keys(topics)) {
+      if (!params.some((p) => p.name === key)) {
+        throw new TypeError(`${name}: no topic parameter "${key}"`);
+      }
+    }
+    return topicFilter([
+      ...event.prefixTopics,
+      ...params.map((p) =>
+        p.name in topics
+          ? nativeToScVal(topics[p.name], p.type, this.resolve, `${name}: ${p.name}`)
+          : '*',
+      ),
+    ]);
+  }
+
+  /**
+   * Decode a contract event (e.g. an RPC `EventInfo`) with the first event
+   * definition it matches. Returns `null` when no definition matches.
+   */
+  decodeEvent(event: ContractEventLike): DecodedEvent | null {
+    return decodeEvent(event, this.events(), this.resolve);
+  }
+
+  /**
+   * Find a user-defined type (struct, union, enum or error enum) by name.
+   * Throws a `TypeError` prefixed with `path`, the location of the value
+   * being converted, when there is none.
+   */
+  findEntry(name: string, path = ''): SCSpecEntry {
+    for (const entry of this.entries as readonly SCSpecEntry[]) {
+      if (is(entry, 'FunctionV0') || is(entry, 'EventV0')) continue;
+      const def = Object.values(entry)[0] as { name: string };
+      if (def.name === name) return entry;
+    }
+    return fail(path, `no type named "${name}" in contract spec`);
+  }
+
+  /**
+   * All error enum cases declared by the contract.
+   */
+  errorCases(): readonly SCSpecUDTErrorEnumCaseV0[] {
+    const result: SCSpecUDTErrorEnumCaseV0[] = [];
+    for (const entry of this.entries) {
+      if (is(entry, 'UdtErrorEnumV0')) {
+        result.push(...entry.UdtErrorEnumV0.cases);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Convert a native JS value to an SCVal of the given spec type.
+   */
+  nativeToScVal(val: unknown, type: SCSpecTypeDef): SCVal {
+    return nativeToScVal(val, type, this.resolve);
+  }
+
+  /**
+   * Convert an SCVal to a native JS value according to the given spec type.
+   */
+  scValToNative(scv: SCVal, type: SCSpecTypeDef): any {
+    return scValToNative(scv, type, this.resolve);
+  }
+
+  /**
+   * Convert named native arguments to the ordered SCVal arguments of a
+   * contract function. Throws a TypeError naming the offending argument
+   * path (e.g. `transfer: amount: expected I128 integer, got string "x"`).
+   */
+  funcArgsToScVals(name: string, args: Record<string, unknown>): SCVal[] {
+    const fn = this.requireFunc(name);
+    return fn.inputs.map((input) => {
+      if (!(input.name in args) && !is(input.type, 'Option')) {
+        throw new TypeError(`${name}: missing argument "${input.name}"`);
+      }
+      try {
+        return nativeToScVal(args[input.name], input.type, this.resolve, input.name);
+      } catch (err) {
+        if (err instanceof TypeError) {
+          throw new TypeError(`${name}: ${err.message}`);
+        }
+        throw err;
+      }
+    });
+  }
+
+  /**
+   * Decode a contract function's return value (SCVal or base64 XDR) to a
+   * native JS value. Functions without outputs return `null`.
+   */
+  funcResToNative(name: string, val: SCVal | string): any {
+    const fn = this.requireFunc(name);
+    // Void-arm SCVals are plain strings too, so only decode other strings.
+    const scv =
+      typeof val === 'string' && val !== 'Void' && val !== 'LedgerKeyContractInstance'
+        ? SCVal.fromBase64(val)
+        : (val as SCVal);
+    const output = fn.outputs[0];
+    if (output === undefined) {
+      if (scv !== 'Void') {
+        throw new TypeError(`${name}: expected Void return value, got ${Object.keys(scv)[0]}`);
+      }
+      return null;
+    }
+    try {
+      return scValToNative(scv, output, this.resolve);
+    } catch (err) {
+      if (err instanceof TypeError) {
+        throw new TypeError(`${name}: return value: ${err.message}`);
+      }
+      throw err;
+    }
+  }
+
+  private requireFunc(name: string): SCSpecFunctionV0 {
+    const fn = this.getFunc(name);
+    if (!fn) {
+      throw new Error(`No function named "${name}" in contract spec`);
+    }
+    return fn;
+  }
+
   /**
    * Generate a JSON-schema-like description of the contract interface.
    */
@@ -0,0 +1,129 @@
+/**
+ * Built-in event specs for SEP-41 token contracts.
+ *
+ * Tokens emit `[name, ...addresses]` topics with the amount as data. The
+ * Stellar Asset Contract appends its SEP-11 asset string as a final topic,
+ * and a transfer to a muxed address carries `{ amount, to_muxed_id }` as
+ * data instead of the bare amount. Before protocol 23 (CAP-67), its `mint`
+ * and `clawback` events also led with the `admin` address.
+ */
+
+import type {
+  SCSpecEntry,
+  SCSpecEventDataFormat,
+  SCSpecEventParamV0,
+  SCSpecEventV0,
+  SCSpecTypeDef,
+  SCVal,
+} from '@stellar/xdr';
+import type { ContractEventLike, DecodedEvent } from './events.js';
+import { Spec } from './spec.js';
+
+function topic(name: string, type: SCSpecTypeDef): SCSpecEventParamV0 {
+  return { doc: '', name, type, location: 'TopicList' };
+}
+
+function data(name: string, type: SCSpecTypeDef): SCSpecEventParamV0 {
+  return { doc: '', name, type, location: 'Data' };
+}
+
+function event(
+  name: string,
+  doc: string,
+  params: SCSpecEventParamV0[],
+  dataFormat: SCSpecEventDataFormat = 'SingleValue',
+): SCSpecEventV0 {
+  return { doc, lib: '', name, prefixTopics: [name], params, dataFormat };
+}
+
+const SEP41_EVENTS: readonly SCSpecEventV0[] = [
+  event('transfer', '`amount` transferred from `from` to `to`.', [
+    topic('from', 'Address'),
+    topic('to', 'Address'),
+    data('amount', 'I128'),
+  ]),
+  event('transfer', '`amount` transferred from `from` to a muxed `to`.', [
+    topic('from', 'Address'),
+    topic('to', 'Address'),
+    data('amount', 'I128'),
+    data('to_muxed_id', 'Val'),
+  ], 'Map'),
+  event('mint', '`amount` minted to `to`.', [topic('to', 'Address'), data('amount', 'I128')]),
+  event('burn', '`amount` burned from `from`.', [topic('from', 'Address'), data('amount', 'I128')]),
+  event('clawback', '`amount` clawed back from `from`.', [
+    topic('from', 'Address'),
+    data('amount', 'I128'),
+  ]),
+  event('approve', '`spender` may spend `amount` of `from` until `live_until_ledger`.', [
+    topic('from', 'Address'),
+    topic('spender', 'Address'),
+    data('amount', 'I128'),
+    data('live_until_ledger', 'U32'),
+  ], 'Vec'),
+];
+
+/** The Stellar Asset Contract variant, with the trailing asset topic. */
+function withAssetTopic(def: SCSpecEventV0): SCSpecEventV0 {
+  const params = [...def.params];
+  const firstData = params.findIndex((p) => p.location === 'Data');
+  params.splice(firstData, 0, topic('sep0011_asset', 'String'));
+  return { ...def, params };
+}
+
+/** Stellar Asset Contract events as emitted before protocol 23. */
+const LEGACY_SAC_EVENTS: readonly SCSpecEventV0[] = [
+  event('mint', '`admin` minted `amount` to `to`.', [
+    topic('admin', 'Address'),
+    topic('to', 'Address'),
+    data('amount', 'I128'),
+  ]),
+  event('clawback', '`admin` clawed back `amount` from `from`.', [
+    topic('admin', 'Address'),
+    topic('from', 'Address'),
+    data('amount', 'I128'),
+  ]),
+].map(withAssetTopic);
+
+/**
+ * Event spec entries for SEP-41 tokens, including the Stellar Asset
+ * Contract's variants before and since protocol 23.
+ */
+export const TOKEN_EVENT_SPEC_ENTRIES: readonly SCSpecEntry[] = [
+  ...SEP41_EVENTS,
+  ...SEP41_EVENTS.map(withAssetTopic),
+  ...LEGACY_SAC_EVENTS,
+].map((def) => ({ EventV0: def }));
+
+/**
+ * A decoded SEP-41 token event. `sep0011_asset` is set for Stellar Asset
+ * Contract events, and `admin` for its `mint` and `clawback` events from
+ * before protocol 23.
+ */
+export type TokenEvent = {
+  [K in keyof TokenEventParams]: DecodedEvent<TokenEventParams[K]> & { name: K };
+}[keyof TokenEventParams];
+
+interface TokenEventParams {
+  transfer: { from: string; to: string; amount: bigint; to_muxed_id?: SCVal; sep0011_asset?: string };
+  mint: { to: string; amount: bigint; admin?: string; sep0011_asset?: string };
+  burn: { from: string; amount: bigint; sep0011_asset?: string };
+  clawback: { from: string; amount: bigint; admin?: string; sep0011_asset?: string };
+  approve: {
+    from: string;
+    spender: string;
+    amount: bigint;
+    live_until_ledger: number;
+    sep0011_asset?: string;
+  };
+}
+
+let tokenSpec: Spec | undefined;
+
+/**
+ * Decode a SEP-41 token event (transfer, mint, burn, clawback or approve).
+ * Returns `null` for other events.
+ */
+export function decodeTokenEvent(event: ContractEventLike): TokenEvent | null {
+  tokenSpec ??= new Spec(TOKEN_EVENT_SPEC_ENTRIES);
+  return tokenSpec.decodeEvent(event) as TokenEvent | null;
+}
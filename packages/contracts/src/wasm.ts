@@ -0,0 +1,165 @@
+/**
+ * Contract spec and metadata extraction from WASM bytecode.
+ *
+ * Soroban contracts embed their interface and build metadata as XDR streams
+ * in WASM custom sections:
+ *
+ * - `contractspecv0`    — consecutive `SCSpecEntry` values
+ * - `contractenvmetav0` — consecutive `SCEnvMetaEntry` values
+ * - `contractmetav0`    — consecutive `SCMetaEntry` values
+ */
+
+import {
+  SCEnvMetaEntry,
+  SCMetaEntry,
+  SCSpecEntry,
+  XdrReader,
+  is,
+  type XdrCodec,
+} from '@stellar/xdr';
+import { Spec } from './spec.js';
+
+const WASM_MAGIC = [0x00, 0x61, 0x73, 0x6d];
+const WASM_VERSION = [0x01, 0x00, 0x00, 0x00];
+const CUSTOM_SECTION_ID = 0;
+
+const SPEC_SECTION = 'contractspecv0';
+const ENV_META_SECTION = 'contractenvmetav0';
+const META_SECTION = 'contractmetav0';
+
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Build metadata embedded in a contract's WASM.
+ */
+export interface ContractMetadata {
+  /** Ledger protocol version the contract was built against. */
+  protocolVersion?: number;
+  /** Pre-release number of the environment interface (0 for releases). */
+  preReleaseVersion?: number;
+  /** soroban-sdk version (`rssdkver` meta key). */
+  sdkVersion?: string;
+  /** Rust compiler version (`rsver` meta key). */
+  rustVersion?: string;
+  /** All `contractmetav0` key/value pairs, including the ones above. */
+  custom: Record<string, string>;
+  /** Raw `contractenvmetav0` entries. */
+  envMeta: SCEnvMetaEntry[];
+  /** Raw `contractmetav0` entries. */
+  meta: SCMetaEntry[];
+}
+
+export interface ContractWasmInfo {
+  spec: Spec;
+  metadata: ContractMetadata;
+}
+
+// ---------------------------------------------------------------------------
+// WASM binary parsing
+// ---------------------------------------------------------------------------
+
+function readLeb128U32(bytes: Uint8Array, offset: number): [number, number] {
+  let result = 0;
+  let shift = 0;
+  let pos = offset;
+  for (;;) {
+    if (pos >= bytes.length) {
+      throw new Error(`Invalid WASM: truncated LEB128 at offset ${offset}`);
+    }
+    const byte = bytes[pos++]!;
+    result |= (byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) break;
+    shift += 7;
+    if (shift > 28) {
+      throw new Error(`Invalid WASM: LEB128 at offset ${offset} exceeds 32 bits`);
+    }
+  }
+  return [result >>> 0, pos];
+}
+
+/**
+ * Extract all custom sections from a WASM module, keyed by section name.
+ * Sections that appear more than once are returned in module order.
+ */
+export function parseWasmCustomSections(wasm: Uint8Array): Map<string, Uint8Array[]> {
+  if (
+    wasm.length < 8 ||
+    WASM_MAGIC.some((b, i) => wasm[i] !== b) ||
+    WASM_VERSION.some((b, i) => wasm[i + 4] !== b)
+  ) {
+    throw new Error('Invalid WASM: missing magic header or unsupported version');
+  }
+
+  const sections = new Map<string, Uint8Array[]>();
+  let pos = 8;
+  while (pos < wasm.length) {
+    const id = wasm[pos++]!;
+    const [size, contentStart] = readLeb128U32(wasm, pos);
+    const end = contentStart + size;
+    if (end > wasm.length) {
+      throw new Error(`Invalid WASM: section ${id} at offset ${pos - 1} overruns module`);
+    }
+    if (id === CUSTOM_SECTION_ID) {
+      const [nameLen, nameStart] = readLeb128U32(wasm, contentStart);
+      if (nameStart + nameLen > end) {
+        throw new Error(`Invalid WASM: custom section name overruns section at offset ${pos - 1}`);
+      }
+      const name = textDecoder.decode(wasm.subarray(nameStart, nameStart + nameLen));
+      const list = sections.get(name) ?? [];
+      list.push(wasm.subarray(nameStart + nameLen, end));
+      sections.set(name, list);
+    }
+    pos = end;
+  }
+  return sections;
+}
+
+// ---------------------------------------------------------------------------
+// Section decoding
+// ---------------------------------------------------------------------------
+
+function decodeXdrStream<T>(codec: XdrCodec<T>, chunks: readonly Uint8Array[]): T[] {
+  const result: T[] = [];
+  for (const chunk of chunks) {
+    const reader = new XdrReader(chunk);
+    while (reader.remaining > 0) {
+      result.push(codec.decode(reader));
+    }
+  }
+  return result;
+}
+
+function buildMetadata(envMeta: SCEnvMetaEntry[], meta: SCMetaEntry[]): ContractMetadata {
+  const metadata: ContractMetadata = { custom: {}, envMeta, meta };
+  for (const entry of envMeta) {
+    if (is(entry, 'ScEnvMetaKindInterfaceVersion')) {
+      metadata.protocolVersion = entry.ScEnvMetaKindInterfaceVersion.protocol;
+      metadata.preReleaseVersion = entry.ScEnvMetaKindInterfaceVersion.preRelease;
+    }
+  }
+  for (const entry of meta) {
+    const { key, val } = entry.ScMetaV0;
+    metadata.custom[key] = val;
+    if (key === 'rssdkver') metadata.sdkVersion = val;
+    if (key === 'rsver') metadata.rustVersion = val;
+  }
+  return metadata;
+}
+
+/**
+ * Extract the contract spec and build metadata from WASM bytecode.
+ * Throws if the module has no `contractspecv0` section.
+ */
+export function parseContractWasm(wasm: Uint8Array): ContractWasmInfo {
+  const sections = parseWasmCustomSections(wasm);
+  const specChunks = sections.get(SPEC_SECTION);
+  if (specChunks === undefined) {
+    throw new Error(`WASM has no ${SPEC_SECTION} custom section`);
+  }
+  const spec = new Spec(decodeXdrStream(SCSpecEntry, specChunks));
+  const metadata = buildMetadata(
+    decodeXdrStream(SCEnvMetaEntry, sections.get(ENV_META_SECTION) ?? []),
+    decodeXdrStream(SCMetaEntry, sections.get(META_SECTION) ?? []),
+  );
+  return { spec, metadata };
+}
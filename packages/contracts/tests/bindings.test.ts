@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SCSpecEntry } from '@stellar/xdr';
+import { generateBindings } from '../src/bindings.js';
+import { runCli, specFromJson } from '../src/cli.js';
+import { Spec } from '../src/spec.js';
+
+const FIXTURE = join(import.meta.dirname, 'fixtures', 'escrow-spec.json');
+
+async function escrowSpec(): Promise<Spec> {
+  return specFromJson(await readFile(FIXTURE, 'utf8'));
+}
+
+function wasmWithSpec(spec: Spec): Uint8Array {
+  const name = new TextEncoder().encode('contractspecv0');
+  const payload = spec.entries.flatMap((e) => [...SCSpecEntry.toXdr(e)]);
+  const content = [name.length, ...name, ...payload];
+  const size: number[] = [];
+  for (let n = content.length; ; ) {
+    const byte = n & 0x7f;
+    n >>>= 7;
+    if (n === 0) {
+      size.push(byte);
+      break;
+    }
+    size.push(byte | 0x80);
+  }
+  return new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00, 0, ...size, ...content]);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('generateBindings', () => {
+  it('generates bindings for the escrow fixture', async () => {
+    expect(generateBindings(await escrowSpec(), { className: 'EscrowClient' })).toMatchSnapshot();
+  });
+
+  it('generates bindings for the Stellar Asset Contract', () => {
+    expect(generateBindings(Spec.stellarAssetContract(), { className: 'TokenClient' })).toMatchSnapshot();
+  });
+
+  it('maps spec types to native TypeScript types', async () => {
+    const source = generateBindings(await escrowSpec());
+    expect(source).toContain('  amount: bigint;');
+    expect(source).toContain('  memo: string | null;');
+    expect(source).toContain('  tags: Map<string, Uint8Array>;');
+    expect(source).toContain('export type Range = [number, number];');
+    expect(source).toContain("  | { tag: 'Disputed'; values: [string, Array<string>] }");
+    expect(source).toContain('export const enum EscrowError {');
+    expect(source).toContain('export enum Priority {');
+    expect(source).toContain('release: (val: SCVal | string): SpecResult<null, EscrowError> =>');
+  });
+
+  it('accepts optional arguments for Option inputs', async () => {
+    const source = generateBindings(await escrowSpec());
+    expect(source).toContain(
+      '  deposit(args: { from: string; deposit: Deposit; priority?: Priority | null }, opts?: InvokeOptions): Operation {',
+    );
+  });
+
+  it('skips reserved functions and renames clashing members', async () => {
+    const source = generateBindings(await escrowSpec());
+    expect(source).not.toContain('__constructor(');
+    expect(source).toContain('  spec_(opts?: InvokeOptions): Operation {');
+    expect(source).toContain("    return this.invoke('spec', {}, opts);");
+  });
+
+  it('embeds the spec entries', async () => {
+    const spec = await escrowSpec();
+    const source = generateBindings(spec);
+    for (const entry of spec.entries) {
+      expect(source).toContain(`'${SCSpecEntry.toBase64(entry)}'`);
+    }
+  });
+
+  it('defaults the class name to Client', async () => {
+    expect(generateBindings(await escrowSpec())).toContain('export class Client {');
+  });
+
+  it('rejects invalid class names', async () => {
+    const spec = await escrowSpec();
+    expect(() => generateBindings(spec, { className: 'my-client' })).toThrow(
+      'Invalid class name: my-client',
+    );
+  });
+});
+
+describe('specFromJson', () => {
+  it('accepts base64 XDR entries', async () => {
+    const spec = await escrowSpec();
+    const json = JSON.stringify(spec.entries.map((e) => SCSpecEntry.toBase64(e)));
+    expect(specFromJson(json).entries).toEqual(spec.entries);
+  });
+
+  it('rejects non-array input', () => {
+    expect(() => specFromJson('{}')).toThrow('Spec JSON must be an array');
+  });
+});
+
+describe('runCli', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir !== undefined) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('writes bindings for a spec JSON file', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bindings-'));
+    const out = join(dir, 'escrow.ts');
+    expect(await runCli([FIXTURE, '--out', out, '--name', 'EscrowClient'])).toBe(0);
+    expect(await readFile(out, 'utf8')).toBe(
+      generateBindings(await escrowSpec(), { className: 'EscrowClient' }),
+    );
+  });
+
+  it('reads the spec from a WASM file', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bindings-'));
+    const spec = await escrowSpec();
+    const wasm = join(dir, 'escrow.wasm');
+    const out = join(dir, 'escrow.ts');
+    await writeFile(wasm, wasmWithSpec(spec));
+    expect(await runCli([wasm, '-o', out])).toBe(0);
+    expect(await readFile(out, 'utf8')).toBe(generateBindings(spec));
+  });
+
+  it('prints to stdout without --out', async () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    expect(await runCli([FIXTURE])).toBe(0);
+    expect(write).toHaveBeenCalledWith(generateBindings(await escrowSpec()));
+  });
+
+  it('returns 2 for usage errors', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await runCli([])).toBe(2);
+    expect(await runCli([FIXTURE, '--bogus'])).toBe(2);
+    expect(error.mock.calls[0]![0]).toContain('Missing input file');
+  });
+
+  it('returns 1 when the input cannot be read', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await runCli([join(tmpdir(), 'does-not-exist.json')])).toBe(1);
+    expect(error).toHaveBeenCalled();
+  });
+});
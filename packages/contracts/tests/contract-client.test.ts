@@ -0,0 +1,271 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { RpcClient, SimulateTransactionResponse } from '@stellar/rpc-client';
+import {
+  Keypair,
+  encodeStrkey,
+  is,
+  STRKEY_CONTRACT,
+  type LedgerKey,
+  type SCSpecEntry,
+  type SCVal,
+  type SorobanAuthorizationEntry,
+  type TransactionEnvelope,
+} from '@stellar/tx-builder';
+import { ContractClient } from '../src/contract-client.js';
+import { Spec } from '../src/spec.js';
+
+const CONTRACT_ID = encodeStrkey(STRKEY_CONTRACT, new Uint8Array(32).fill(3));
+const PASSPHRASE = 'Test SDF Network ; September 2015';
+
+const entries: SCSpecEntry[] = [
+  {
+    FunctionV0: {
+      doc: '',
+      name: 'get',
+      inputs: [{ doc: '', name: 'key', type: 'Symbol' }],
+      outputs: ['U32'],
+    },
+  },
+  {
+    FunctionV0: {
+      doc: '',
+      name: 'put',
+      inputs: [
+        { doc: '', name: 'owner', type: 'Address' },
+        { doc: '', name: 'value', type: 'U32' },
+      ],
+      outputs: [],
+    },
+  },
+];
+
+type Methods = {
+  get: { args: { key: string }; result: number };
+  put: { args: { owner: string; value: number }; result: null };
+};
+
+function authEntry(address: string): SorobanAuthorizationEntry {
+  const key = Keypair.fromPublicKey(address);
+  return {
+    credentials: {
+      Address: {
+        address: { Account: { PublicKeyTypeEd25519: key.rawPublicKey } },
+        nonce: 1n,
+        signatureExpirationLedger: 0,
+        signature: 'Void',
+      },
+    },
+    rootInvocation: {
+      function: {
+        ContractFn: {
+          contractAddress: { Contract: new Uint8Array(32).fill(3) },
+          functionName: 'put',
+          args: [],
+        },
+      },
+      subInvocations: [],
+    },
+  };
+}
+
+function simulation(
+  retval: SCVal,
+  auth: SorobanAuthorizationEntry[] = [],
+  writes = false,
+): SimulateTransactionResponse {
+  const key: LedgerKey = {
+    ContractData: {
+      contract: { Contract: new Uint8Array(32) },
+      key: 'LedgerKeyContractInstance',
+      durability: 'Persistent',
+    },
+  };
+  return {
+    latestLedger: 1000,
+    minResourceFee: '5000',
+    transactionData: {
+      ext: '0',
+      resources: {
+        footprint: { readOnly: [key], readWrite: writes ? [key] : [] },
+        instructions: 100,
+        diskReadBytes: 0,
+        writeBytes: 0,
+      },
+      resourceFee: 5000n,
+    },
+    results: [{ retval, auth }],
+    events: [],
+  };
+}
+
+function fakeRpc(sim: SimulateTransactionResponse) {
+  const rpc = {
+    simulated: [] as TransactionEnvelope[],
+    sent: [] as TransactionEnvelope[],
+    getAccount: vi.fn(async () => ({ seqNum: 41n })),
+    simulateTransaction: vi.fn(async (env: TransactionEnvelope) => {
+      rpc.simulated.push(env);
+      return sim;
+    }),
+    sendTransaction: vi.fn(async (env: TransactionEnvelope) => {
+      rpc.sent.push(env);
+      return { hash: 'ab'.repeat(32), status: 'PENDING', latestLedger: 1000, latestLedgerCloseTime: 0 };
+    }),
+    pollTransaction: vi.fn(async () => ({
+      status: 'SUCCESS',
+      latestLedger: 1001,
+      latestLedgerCloseTime: 0,
+      oldestLedger: 1,
+      oldestLedgerCloseTime: 0,
+      returnValue: 'Void',
+    })),
+  };
+  return rpc;
+}
+
+function client(rpc: ReturnType<typeof fakeRpc>, publicKey?: string) {
+  return new ContractClient<Methods>(new Spec(entries), {
+    contractId: CONTRACT_ID,
+    rpc: rpc as unknown as RpcClient,
+    networkPassphrase: PASSPHRASE,
+    publicKey,
+  });
+}
+
+describe('ContractClient', () => {
+  it('simulates read calls and decodes the result', async () => {
+    const rpc = fakeRpc(simulation({ U32: 7 }));
+    const call = await client(rpc).call('get', { key: 'counter' });
+
+    expect(call.result).toBe(7);
+    expect(call.readOnly).toBe(true);
+    expect(rpc.getAccount).not.toHaveBeenCalled();
+
+    const env = rpc.simulated[0]!;
+    if (!is(env, 'Tx')) throw new Error('expected v1 envelope');
+    const op = env.Tx.tx.operations[0]!.body;
+    if (!is(op, 'InvokeHostFunction') || !is(op.InvokeHostFunction.hostFunction, 'InvokeContract')) {
+      throw new Error('expected InvokeContract');
+    }
+    expect(op.InvokeHostFunction.hostFunction.InvokeContract.functionName).toBe('get');
+    expect(op.InvokeHostFunction.hostFunction.InvokeContract.args).toEqual([{ Symbol: 'counter' }]);
+  });
+
+  it('uses the source account sequence and applies the simulation', async () => {
+    const kp = await Keypair.random();
+    const sim = simulation('Void', [], true);
+    const rpc = fakeRpc(sim);
+    const call = await client(rpc, kp.publicKey).call('put', { owner: kp.publicKey, value: 1 });
+
+    expect(call.readOnly).toBe(false);
+    expect(call.transaction.seqNum).toBe(42n);
+    expect(call.transaction.fee).toBe(5100);
+    expect(call.transaction.ext).toEqual({ '1': (sim as { transactionData: unknown }).transactionData });
+  });
+
+  it('throws on simulation errors', async () => {
+    const rpc = fakeRpc({ error: 'HostError: boom', latestLedger: 1000 });
+    await expect(client(rpc).call('get', { key: 'x' })).rejects.toThrow(
+      'get: simulation failed: HostError: boom',
+    );
+  });
+
+  it('rejects invalid arguments before simulating', async () => {
+    const rpc = fakeRpc(simulation({ U32: 1 }));
+    await expect(client(rpc).call('get', { key: 'not a symbol!' })).rejects.toThrow(TypeError);
+    expect(rpc.simulateTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('ContractCall', () => {
+  it('signs auth entries, signs, submits and polls', async () => {
+    const invoker = await Keypair.random();
+    const owner = await Keypair.random();
+    const rpc = fakeRpc(simulation('Void', [authEntry(owner.publicKey)], true));
+    const call = await client(rpc, invoker.publicKey).call('put', { owner: owner.publicKey, value: 2 });
+
+    expect(call.needsNonInvokerSigningBy()).toEqual([owner.publicKey]);
+
+    const signer = vi.fn(async (entry: SorobanAuthorizationEntry, latestLedger: number) => {
+      if (!is(entry.credentials, 'Address')) throw new Error('expected Address credentials');
+      return {
+        ...entry,
+        credentials: {
+          Address: {
+            ...entry.credentials.Address,
+            signatureExpirationLedger: latestLedger + 100,
+            signature: { Vec: [] } as SCVal,
+          },
+        },
+      };
+    });
+    await call.signAuthEntries(signer, owner.publicKey);
+    expect(signer).toHaveBeenCalledWith(expect.anything(), 1000);
+    expect(call.needsNonInvokerSigningBy()).toEqual([]);
+
+    const { result, response } = await call.signAndSubmit(invoker);
+    expect(result).toBeNull();
+    expect(response.status).toBe('SUCCESS');
+    expect(rpc.pollTransaction).toHaveBeenCalledWith('ab'.repeat(32), undefined);
+
+    const sent = rpc.sent[0]!;
+    if (!is(sent, 'Tx')) throw new Error('expected v1 envelope');
+    expect(sent.Tx.signatures).toHaveLength(1);
+    const body = sent.Tx.tx.operations[0]!.body;
+    if (!is(body, 'InvokeHostFunction')) throw new Error('expected InvokeHostFunction');
+    const creds = body.InvokeHostFunction.auth[0]!.credentials;
+    expect(is(creds, 'Address') && creds.Address.signatureExpirationLedger).toBe(1100);
+  });
+
+  it('signs auth entries with a Signer', async () => {
+    const owner = await Keypair.random();
+    const other = await Keypair.random();
+    const rpc = fakeRpc(
+      simulation('Void', [authEntry(owner.publicKey), authEntry(other.publicKey)], true),
+    );
+    const call = await client(rpc).call('put', { owner: owner.publicKey, value: 2 });
+
+    await call.signAuthEntries(owner);
+    expect(call.needsNonInvokerSigningBy()).toEqual([other.publicKey]);
+
+    const body = call.transaction.operations[0]!.body;
+    if (!is(body, 'InvokeHostFunction')) throw new Error('expected InvokeHostFunction');
+    const creds = body.InvokeHostFunction.auth[0]!.credentials;
+    expect(is(creds, 'Address') && creds.Address.signatureExpirationLedger).toBe(1100);
+  });
+
+  it('skips auth entries for other addresses', async () => {
+    const owner = await Keypair.random();
+    const other = await Keypair.random();
+    const rpc = fakeRpc(simulation('Void', [authEntry(owner.publicKey)], true));
+    const call = await client(rpc).call('put', { owner: owner.publicKey, value: 2 });
+    const signer = vi.fn();
+    await call.signAuthEntries(signer, other.publicKey);
+    expect(signer).not.toHaveBeenCalled();
+  });
+
+  it('enforces the signing order', async () => {
+    const kp = await Keypair.random();
+    const rpc = fakeRpc(simulation('Void', [], true));
+    const call = await client(rpc, kp.publicKey).call('put', { owner: kp.publicKey, value: 3 });
+
+    await expect(call.submit()).rejects.toThrow('must be signed before submitting');
+    await expect(call.poll()).rejects.toThrow('must be submitted before polling');
+    await call.sign(kp);
+    await expect(call.signAuthEntries(vi.fn())).rejects.toThrow('before signing the transaction');
+  });
+
+  it('throws when submission is rejected', async () => {
+    const kp = await Keypair.random();
+    const rpc = fakeRpc(simulation('Void', [], true));
+    rpc.sendTransaction.mockResolvedValueOnce({
+      hash: 'cd'.repeat(32),
+      status: 'TRY_AGAIN_LATER',
+      latestLedger: 1000,
+      latestLedgerCloseTime: 0,
+    });
+    const call = await client(rpc, kp.publicKey).call('put', { owner: kp.publicKey, value: 4 });
+    await call.sign(kp);
+    await expect(call.submit()).rejects.toThrow('put: sendTransaction returned TRY_AGAIN_LATER');
+  });
+});
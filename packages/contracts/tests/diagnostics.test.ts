@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeStrkey,
+  STRKEY_CONTRACT,
+  STRKEY_ED25519_PUBLIC,
+  parseScAddress,
+  type DiagnosticEvent,
+  type SCSpecEntry,
+  type SCVal,
+} from '@stellar/xdr';
+import type { GetTransactionResponse } from '@stellar/rpc-client';
+import {
+  explainSorobanFailure,
+  extractHostError,
+  formatDiagnosticEvents,
+  formatScError,
+} from '../src/diagnostics.js';
+import { Spec } from '../src/spec.js';
+
+const TOKEN_ID = new Uint8Array(32).fill(7);
+const TOKEN = encodeStrkey(STRKEY_CONTRACT, TOKEN_ID);
+const ALICE = encodeStrkey(STRKEY_ED25519_PUBLIC, new Uint8Array(32).fill(1));
+
+function diagnostic(
+  topics: SCVal[],
+  data: SCVal,
+  type: 'Diagnostic' | 'Contract' = 'Diagnostic',
+): DiagnosticEvent {
+  return {
+    inSuccessfulContractCall: false,
+    event: { ext: '0', contractID: TOKEN_ID, type, body: { 0: { topics, data } } },
+  };
+}
+
+const failedTransfer: DiagnosticEvent[] = [
+  diagnostic(
+    [{ Symbol: 'fn_call' }, { Bytes: TOKEN_ID }, { Symbol: 'transfer' }],
+    { Vec: [{ Address: parseScAddress(ALICE) }, { I128: { hi: 0n, lo: 500n } }] },
+  ),
+  diagnostic([{ Symbol: 'fn_call' }, { Bytes: TOKEN_ID }, { Symbol: 'balance' }], {
+    Address: parseScAddress(ALICE),
+  }),
+  diagnostic([{ Symbol: 'fn_return' }, { Symbol: 'balance' }], { I128: { hi: 0n, lo: 10n } }),
+  diagnostic([{ Symbol: 'log' }], { Vec: [{ String: 'checking' }, { U32: 1 }] }),
+  diagnostic([{ Symbol: 'error' }, { Error: { Contract: 10 } }], {
+    Vec: [{ String: 'balance is not sufficient to spend' }, { I128: { hi: 0n, lo: 10n } }],
+  }),
+  diagnostic([{ Symbol: 'core_metrics' }, { Symbol: 'cpu_insn' }], { U64: 1000n }),
+];
+
+const errorSpec = new Spec([
+  {
+    UdtErrorEnumV0: {
+      doc: '',
+      lib: '',
+      name: 'TokenError',
+      cases: [
+        { doc: '', name: 'Unauthorized', value: 1 },
+        { doc: '', name: 'InsufficientBalance', value: 10 },
+      ],
+    },
+  },
+] satisfies SCSpecEntry[]);
+
+describe('formatDiagnosticEvents', () => {
+  it('renders nested calls, returns, logs and errors', () => {
+    expect(formatDiagnosticEvents(failedTransfer, { spec: errorSpec })).toBe(
+      [
+        `${TOKEN}.transfer(${ALICE}, 500)`,
+        `  ${TOKEN}.balance(${ALICE})`,
+        '  balance -> 10',
+        '  log "checking", 1',
+        '  error Error(Contract, #10: InsufficientBalance): ' +
+          '"balance is not sufficient to spend", 10',
+      ].join('\n'),
+    );
+  });
+
+  it('renders contract events', () => {
+    const event = diagnostic([{ Symbol: 'mint' }, { Address: parseScAddress(ALICE) }], {
+      Map: [{ key: { Symbol: 'memo' }, val: { Bytes: new Uint8Array([0xab]) } }],
+    }, 'Contract');
+    expect(formatDiagnosticEvents([event])).toBe(`event ${TOKEN} [mint, ${ALICE}] {memo: 0xab}`);
+  });
+});
+
+describe('extractHostError', () => {
+  it('returns the last error with its message and spec name', () => {
+    expect(extractHostError(failedTransfer, { spec: errorSpec })).toEqual({
+      type: 'Contract',
+      contractCode: 10,
+      name: 'InsufficientBalance',
+      message: 'balance is not sufficient to spend',
+      contractId: TOKEN,
+    });
+    expect(extractHostError(failedTransfer.slice(0, 3))).toBeNull();
+  });
+
+  it('flattens host errors', () => {
+    const events = [diagnostic([{ Symbol: 'error' }, { Error: { Storage: 'MissingValue' } }], {
+      String: 'trying to get non-existing value',
+    })];
+    expect(extractHostError(events)).toMatchObject({ type: 'Storage', code: 'MissingValue' });
+    expect(formatScError({ Storage: 'MissingValue' })).toBe('Error(Storage, MissingValue)');
+    expect(formatScError({ Contract: 3 })).toBe('Error(Contract, #3)');
+  });
+});
+
+describe('explainSorobanFailure', () => {
+  it('explains simulation errors, falling back to the error string', () => {
+    const explained = explainSorobanFailure(
+      { error: 'HostError: Error(Contract, #1)\n\nEvent log (newest first): ...', latestLedger: 1 },
+      { spec: errorSpec },
+    );
+    expect(explained).toEqual({
+      error: { type: 'Contract', contractCode: 1, name: 'Unauthorized' },
+      trace: '',
+    });
+
+    const withEvents = explainSorobanFailure({
+      error: 'HostError: Error(Contract, #10)',
+      latestLedger: 1,
+      events: failedTransfer,
+    });
+    expect(withEvents.error?.contractCode).toBe(10);
+    expect(withEvents.trace.split('\n')).toHaveLength(5);
+  });
+
+  it('parses only known host error names from the error string', () => {
+    const explain = (error: string) => explainSorobanFailure({ error, latestLedger: 1 }).error;
+    expect(explain('HostError: Error(Storage, MissingValue)')).toEqual({
+      type: 'Storage',
+      code: 'MissingValue',
+    });
+    expect(explain('HostError: Error(Foo, Bar)')).toBeNull();
+    expect(explain('HostError: Error(Storage, Bar)')).toBeNull();
+    expect(explain('HostError: Error(Storage, constructor)')).toBeNull();
+  });
+
+  it('reads diagnostic events from failed transactions', () => {
+    const tx: GetTransactionResponse = {
+      status: 'FAILED',
+      latestLedger: 10,
+      latestLedgerCloseTime: 0,
+      oldestLedger: 1,
+      oldestLedgerCloseTime: 0,
+      diagnosticEventsXdr: failedTransfer,
+    };
+    expect(explainSorobanFailure(tx).error?.message).toBe('balance is not sufficient to spend');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SCVal,
+  encodeStrkey,
+  STRKEY_CONTRACT,
+  STRKEY_ED25519_PUBLIC,
+  parseScAddress,
+  type SCSpecEntry,
+} from '@stellar/xdr';
+import { Spec } from '../src/spec.js';
+import { decodeTokenEvent } from '../src/token-events.js';
+
+const ALICE = encodeStrkey(STRKEY_ED25519_PUBLIC, new Uint8Array(32).fill(1));
+const BOB = encodeStrkey(STRKEY_ED25519_PUBLIC, new Uint8Array(32).fill(2));
+const POOL = encodeStrkey(STRKEY_CONTRACT, new Uint8Array(32).fill(3));
+
+function address(strkey: string): SCVal {
+  return { Address: parseScAddress(strkey) };
+}
+
+function i128(n: bigint): SCVal {
+  return { I128: { hi: 0n, lo: n } };
+}
+
+const entries: SCSpecEntry[] = [
+  {
+    EventV0: {
+      doc: '',
+      lib: '',
+      name: 'Deposit',
+      prefixTopics: ['pool', 'deposit'],
+      params: [
+        { doc: '', name: 'user', type: 'Address', location: 'TopicList' },
+        { doc: '', name: 'amount', type: 'I128', location: 'Data' },
+        { doc: '', name: 'shares', type: { Option: { valueType: 'U32' } }, location: 'Data' },
+      ],
+      dataFormat: 'Map',
+    },
+  },
+  {
+    EventV0: {
+      doc: '',
+      lib: '',
+      name: 'Paused',
+      prefixTopics: ['paused'],
+      params: [],
+      dataFormat: 'SingleValue',
+    },
+  },
+];
+
+describe('Spec events', () => {
+  const spec = new Spec(entries);
+
+  it('lists and finds events', () => {
+    expect(spec.events().map((e) => e.name)).toEqual(['Deposit', 'Paused']);
+    expect(spec.getEvent('Paused')?.prefixTopics).toEqual(['paused']);
+    expect(spec.getEvent('missing')).toBeUndefined();
+  });
+
+  it('decodes map data and topic parameters', () => {
+    const decoded = spec.decodeEvent({
+      topic: [{ Symbol: 'pool' }, { Symbol: 'deposit' }, address(ALICE)],
+      value: {
+        Map: [
+          { key: { Symbol: 'amount' }, val: i128(50n) },
+          { key: { Symbol: 'shares' }, val: 'Void' },
+        ],
+      },
+    });
+    expect(decoded).toEqual({ name: 'Deposit', params: { user: ALICE, amount: 50n, shares: null } });
+  });
+
+  it('decodes events without data', () => {
+    expect(spec.decodeEvent({ topic: [{ Symbol: 'paused' }], value: 'Void' })).toEqual({
+      name: 'Paused',
+      params: {},
+    });
+  });
+
+  it('returns null when no definition matches', () => {
+    const deposit = [{ Symbol: 'pool' }, { Symbol: 'deposit' }] as SCVal[];
+    expect(spec.decodeEvent({ topic: [{ Symbol: 'other' }], value: 'Void' })).toBeNull();
+    // Wrong topic count, wrong topic type, and a missing map key.
+    expect(spec.decodeEvent({ topic: deposit, value: 'Void' })).toBeNull();
+    expect(spec.decodeEvent({ topic: [...deposit, { U32: 1 }], value: { Map: [] } })).toBeNull();
+    expect(
+      spec.decodeEvent({
+        topic: [...deposit, address(ALICE)],
+        value: { Map: [{ key: { Symbol: 'amount' }, val: i128(1n) }] },
+      }),
+    ).toBeNull();
+  });
+
+  it('builds topic filters from named parameters', () => {
+    const filter = spec.eventTopicFilter('Deposit', { user: ALICE });
+    expect(filter.map((t) => SCVal.fromBase64(t))).toEqual([
+      { Symbol: 'pool' },
+      { Symbol: 'deposit' },
+      address(ALICE),
+    ]);
+    expect(spec.eventTopicFilter('Deposit').slice(2)).toEqual(['*']);
+    expect(() => spec.eventTopicFilter('Deposit', { amount: 1n })).toThrow(
+      'Deposit: no topic parameter "amount"',
+    );
+    expect(() => spec.eventTopicFilter('Deposit', { user: 5 })).toThrow(TypeError);
+    expect(() => spec.eventTopicFilter('Withdraw')).toThrow('No event named "Withdraw"');
+  });
+});
+
+describe('decodeTokenEvent', () => {
+  it('decodes SEP-41 transfers', () => {
+    const event = decodeTokenEvent({
+      topic: [{ Symbol: 'transfer' }, address(ALICE), address(POOL)],
+      value: i128(7n),
+    });
+    expect(event).toEqual({ name: 'transfer', params: { from: ALICE, to: POOL, amount: 7n } });
+  });
+
+  it('decodes Stellar Asset Contract events with the asset topic', () => {
+    const event = decodeTokenEvent({
+      topic: [{ Symbol: 'mint' }, address(BOB), { String: 'native' }],
+      value: i128(100n),
+    });
+    expect(event).toEqual({ name: 'mint', params: { to: BOB, sep0011_asset: 'native', amount: 100n } });
+  });
+
+  it('decodes pre-protocol 23 Stellar Asset Contract events with the admin topic', () => {
+    const mint = decodeTokenEvent({
+      topic: [{ Symbol: 'mint' }, address(ALICE), address(BOB), { String: 'native' }],
+      value: i128(100n),
+    });
+    expect(mint).toEqual({
+      name: 'mint',
+      params: { admin: ALICE, to: BOB, sep0011_asset: 'native', amount: 100n },
+    });
+
+    const clawback = decodeTokenEvent({
+      topic: [{ Symbol: 'clawback' }, address(ALICE), address(POOL), { String: 'native' }],
+      value: i128(3n),
+    });
+    expect(clawback?.params).toEqual({
+      admin: ALICE,
+      from: POOL,
+      sep0011_asset: 'native',
+      amount: 3n,
+    });
+  });
+
+  it('decodes muxed transfers and approvals', () => {
+    const muxed = decodeTokenEvent({
+      topic: [{ Symbol: 'transfer' }, address(ALICE), address(BOB)],
+      value: {
+        Map: [
+          { key: { Symbol: 'amount' }, val: i128(5n) },
+          { key: { Symbol: 'to_muxed_id' }, val: { U64: 9n } },
+        ],
+      },
+    });
+    expect(muxed?.params).toEqual({ from: ALICE, to: BOB, amount: 5n, to_muxed_id: { U64: 9n } });
+
+    const approve = decodeTokenEvent({
+      topic: [{ Symbol: 'approve' }, address(ALICE), address(POOL)],
+      value: { Vec: [i128(10n), { U32: 500 }] },
+    });
+    expect(approve).toEqual({
+      name: 'approve',
+      params: { from: ALICE, spender: POOL, amount: 10n, live_until_ledger: 500 },
+    });
+  });
+
+  it('returns null for other events', () => {
+    const event = decodeTokenEvent({ topic: [{ Symbol: 'set_admin' }, address(ALICE)], value: 'Void' });
+    expect(event).toBeNull();
+  });
+});
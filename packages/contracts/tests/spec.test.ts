@@ -1,6 +1,23 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { RpcClient, RpcError } from '@stellar/rpc-client';
 import { Spec } from '../src/spec.js';
-import { SCSpecEntry, type SCSpecFunctionV0 } from '@stellar/xdr';
+import {
+  SCSpecEntry,
+  SCVal,
+  is,
+  encodeStrkey,
+  STRKEY_CONTRACT,
+  type ContractExecutable,
+  type SCSpecTypeDef,
+} from '@stellar/xdr';
+
+function wasmWithSpec(entries: SCSpecEntry[]): Uint8Array {
+  const name = new TextEncoder().encode('contractspecv0');
+  const payload = entries.flatMap((e) => [...SCSpecEntry.toXdr(e)]);
+  const content = [name.length, ...name, ...payload];
+  // Section sizes stay under 128 here, so a single LEB128 byte suffices.
+  return new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00, 0, content.length, ...content]);
+}
 
 function makeFunc(name: string, inputs: string[] = [], outputs: string[] = []): import('@stellar/xdr').SCSpecEntry {
   return {
@@ -57,6 +74,67 @@ describe('Spec', () => {
     });
   });
 
+  describe('fromWasm', () => {
+    it('reads the contractspecv0 custom section', () => {
+      const spec = Spec.fromWasm(wasmWithSpec([makeFunc('deposit'), makeStruct('State')]));
+      expect(spec.entries).toHaveLength(2);
+      expect(spec.funcs().map((f) => f.name)).toEqual(['deposit']);
+    });
+  });
+
+  describe('fromContract', () => {
+    const contractId = encodeStrkey(STRKEY_CONTRACT, new Uint8Array(32).fill(1));
+
+    function instanceSource(executable: ContractExecutable, wasm?: Uint8Array) {
+      const requested: Uint8Array[] = [];
+      const source = {
+        requested,
+        async getContractExecutable(id: string) {
+          expect(id).toBe(contractId);
+          return executable;
+        },
+        async getContractWasmByHash(hash: Uint8Array) {
+          requested.push(hash);
+          return wasm!;
+        },
+      };
+      return source;
+    }
+
+    it('follows the executable to the WASM spec', async () => {
+      const hash = new Uint8Array(32).fill(9);
+      const source = instanceSource({ Wasm: hash }, wasmWithSpec([makeFunc('hello')]));
+      const spec = await Spec.fromContract(source, contractId);
+      expect(source.requested).toEqual([hash]);
+      expect(spec.funcs().map((f) => f.name)).toEqual(['hello']);
+    });
+
+    it('returns the built-in spec for Stellar Asset Contracts', async () => {
+      const source = instanceSource('StellarAsset');
+      const spec = await Spec.fromContract(source, contractId);
+      expect(source.requested).toEqual([]);
+      expect(spec.getFunc('transfer')!.inputs.map((i) => i.name)).toEqual(['from', 'to', 'amount']);
+      expect(spec.funcResToNative('balance', { I128: { hi: 0n, lo: 5n } })).toBe(5n);
+      expect(spec.errorCases().find((c) => c.value === 10)!.name).toBe('BalanceError');
+    });
+
+    it('reports a missing instance with the RPC client error', async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ jsonrpc: '2.0', id: 1, result: { latestLedger: 100 } }),
+      });
+      try {
+        const rpc = new RpcClient('https://rpc.example.com');
+        const err = await Spec.fromContract(rpc, contractId).catch((e: unknown) => e);
+        expect(err).toBeInstanceOf(RpcError);
+        expect((err as RpcError).message).toBe(`Contract instance not found: ${contractId}`);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+
   describe('funcs', () => {
     it('returns only function entries', () => {
       const entries = [
@@ -112,3 +190,262 @@ describe('Spec', () => {
     });
   });
 });
+
+// ---------------------------------------------------------------------------
+// Native ⇄ SCVal conversion
+// ---------------------------------------------------------------------------
+
+const G_ADDRESS = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
+const C_ADDRESS = encodeStrkey(STRKEY_CONTRACT, new Uint8Array(32).fill(7));
+
+function fn(
+  name: string,
+  inputs: [string, SCSpecTypeDef][],
+  outputs: SCSpecTypeDef[] = [],
+): SCSpecEntry {
+  return {
+    FunctionV0: {
+      doc: '',
+      name,
+      inputs: inputs.map(([n, type]) => ({ doc: '', name: n, type })),
+      outputs,
+    },
+  };
+}
+
+const conversionSpec = new Spec([
+  {
+    UdtStructV0: {
+      doc: '',
+      lib: '',
+      name: 'Payment',
+      fields: [
+        { doc: '', name: 'to', type: 'Address' },
+        { doc: '', name: 'amount', type: 'I128' },
+        { doc: '', name: 'memo', type: { Option: { valueType: 'String' } } },
+      ],
+    },
+  },
+  {
+    UdtStructV0: {
+      doc: '',
+      lib: '',
+      name: 'Pair',
+      fields: [
+        { doc: '', name: '0', type: 'U32' },
+        { doc: '', name: '1', type: 'Symbol' },
+      ],
+    },
+  },
+  {
+    UdtUnionV0: {
+      doc: '',
+      lib: '',
+      name: 'Action',
+      cases: [
+        { VoidV0: { doc: '', name: 'Noop' } },
+        { TupleV0: { doc: '', name: 'Send', type: [{ Udt: { name: 'Payment' } }] } },
+      ],
+    },
+  },
+  {
+    UdtEnumV0: {
+      doc: '',
+      lib: '',
+      name: 'Color',
+      cases: [
+        { doc: '', name: 'Red', value: 0 },
+        { doc: '', name: 'Green', value: 1 },
+      ],
+    },
+  },
+  {
+    UdtErrorEnumV0: {
+      doc: '',
+      lib: '',
+      name: 'Error',
+      cases: [
+        { doc: '', name: 'NotAllowed', value: 1 },
+        { doc: '', name: 'Overflow', value: 2 },
+      ],
+    },
+  },
+  fn('pay', [['payments', { Vec: { elementType: { Udt: { name: 'Payment' } } } }]]),
+  fn('act', [['action', { Udt: { name: 'Action' } }], ['color', { Udt: { name: 'Color' } }]]),
+  fn('pair', [['p', { Udt: { name: 'Pair' } }]], [{ Udt: { name: 'Pair' } }]),
+  fn('hash', [['h', { BytesN: { n: 4 } }]]),
+  fn('counts', [['m', { Map: { keyType: 'Symbol', valueType: 'U64' } }]]),
+  fn('tuple', [['t', { Tuple: { valueTypes: ['Bool', 'U256'] } }]]),
+  fn('maybe', [['v', { Option: { valueType: 'U32' } }]]),
+  fn('checked', [], [{ Result: { okType: 'U32', errorType: { Udt: { name: 'Error' } } } }]),
+  fn('nothing', []),
+]);
+
+describe('Spec conversion', () => {
+  describe('funcArgsToScVals', () => {
+    it('encodes a vec of structs as sorted symbol maps', () => {
+      const [arg] = conversionSpec.funcArgsToScVals('pay', {
+        payments: [{ to: G_ADDRESS, amount: 5n, memo: 'hi' }],
+      });
+      expect(is(arg!, 'Vec')).toBe(true);
+      const payment = (arg as { Vec: SCVal[] }).Vec[0]!;
+      const entries = (payment as { Map: { key: SCVal; val: SCVal }[] }).Map;
+      expect(entries.map((e) => (e.key as { Symbol: string }).Symbol)).toEqual([
+        'amount',
+        'memo',
+        'to',
+      ]);
+      expect(entries[0]!.val).toEqual({ I128: { hi: 0n, lo: 5n } });
+      expect(entries[1]!.val).toEqual({ String: 'hi' });
+      expect(is(entries[2]!.val, 'Address')).toBe(true);
+    });
+
+    it('encodes a missing optional struct field as Void', () => {
+      const [arg] = conversionSpec.funcArgsToScVals('pay', {
+        payments: [{ to: C_ADDRESS, amount: 1 }],
+      });
+      const payment = (arg as { Vec: SCVal[] }).Vec[0] as { Map: { val: SCVal }[] };
+      expect(payment.Map[1]!.val).toBe('Void');
+    });
+
+    it('encodes unions and enums', () => {
+      const [noop, color] = conversionSpec.funcArgsToScVals('act', {
+        action: { tag: 'Noop' },
+        color: 1,
+      });
+      expect(noop).toEqual({ Vec: [{ Symbol: 'Noop' }] });
+      expect(color).toEqual({ U32: 1 });
+
+      const [send] = conversionSpec.funcArgsToScVals('act', {
+        action: { tag: 'Send', values: [{ to: G_ADDRESS, amount: -3n }] },
+        color: 'Red',
+      });
+      const items = (send as { Vec: SCVal[] }).Vec;
+      expect(items[0]).toEqual({ Symbol: 'Send' });
+      expect(is(items[1]!, 'Map')).toBe(true);
+    });
+
+    it('encodes tuple structs, BytesN, maps, tuples and options', () => {
+      expect(conversionSpec.funcArgsToScVals('pair', { p: [7, 'x'] })).toEqual([
+        { Vec: [{ U32: 7 }, { Symbol: 'x' }] },
+      ]);
+      expect(
+        conversionSpec.funcArgsToScVals('hash', { h: new Uint8Array(4) }),
+      ).toEqual([{ Bytes: new Uint8Array(4) }]);
+      expect(conversionSpec.funcArgsToScVals('counts', { m: { b: 2, a: 1n } })).toEqual([
+        {
+          Map: [
+            { key: { Symbol: 'a' }, val: { U64: 1n } },
+            { key: { Symbol: 'b' }, val: { U64: 2n } },
+          ],
+        },
+      ]);
+      expect(conversionSpec.funcArgsToScVals('tuple', { t: [true, 1n] })).toEqual([
+        { Vec: [{ Bool: true }, { U256: { hiHi: 0n, hiLo: 0n, loHi: 0n, loLo: 1n } }] },
+      ]);
+      expect(conversionSpec.funcArgsToScVals('maybe', {})).toEqual(['Void']);
+    });
+
+    it('names the offending argument path in errors', () => {
+      expect(() =>
+        conversionSpec.funcArgsToScVals('pay', {
+          payments: [{ to: G_ADDRESS, amount: 1n }, { to: G_ADDRESS, amount: 'lots' }],
+        }),
+      ).toThrow('pay: payments[1].amount: expected I128 integer, got string "lots"');
+      expect(() =>
+        conversionSpec.funcArgsToScVals('act', {
+          action: { tag: 'Send', values: [{ to: 'nope', amount: 1n }] },
+          color: 0,
+        }),
+      ).toThrow(/act: action\.values\[0\]\.to: invalid Address/);
+      expect(() => conversionSpec.funcArgsToScVals('act', { action: 'Fly', color: 0 })).toThrow(
+        'act: action: unknown case "Fly" for Action',
+      );
+      expect(() => conversionSpec.funcArgsToScVals('hash', { h: new Uint8Array(3) })).toThrow(
+        'hash: h: expected Uint8Array of length 4, got Uint8Array(3)',
+      );
+    });
+
+    it('names the argument path when a type is missing from the spec', () => {
+      const spec = new Spec([
+        {
+          UdtStructV0: {
+            doc: '',
+            lib: '',
+            name: 'Wrapper',
+            fields: [{ doc: '', name: 'inner', type: { Udt: { name: 'Ghost' } } }],
+          },
+        },
+        fn('wrap', [['w', { Udt: { name: 'Wrapper' } }]]),
+      ]);
+      const call = () => spec.funcArgsToScVals('wrap', { w: { inner: 1 } });
+      expect(call).toThrow(TypeError);
+      expect(call).toThrow('wrap: w.inner: no type named "Ghost" in contract spec');
+    });
+
+    it('rejects missing arguments and unknown functions', () => {
+      expect(() => conversionSpec.funcArgsToScVals('pay', {})).toThrow(
+        'pay: missing argument "payments"',
+      );
+      expect(() => conversionSpec.funcArgsToScVals('missing', {})).toThrow(
+        'No function named "missing"',
+      );
+    });
+  });
+
+  describe('funcResToNative', () => {
+    it('decodes a tuple struct result', () => {
+      const scv: SCVal = { Vec: [{ U32: 9 }, { Symbol: 'z' }] };
+      expect(conversionSpec.funcResToNative('pair', scv)).toEqual([9, 'z']);
+      expect(conversionSpec.funcResToNative('pair', SCVal.toBase64(scv))).toEqual([9, 'z']);
+    });
+
+    it('decodes Result ok and error enum values', () => {
+      expect(conversionSpec.funcResToNative('checked', { U32: 3 })).toEqual({ ok: 3 });
+      expect(
+        conversionSpec.funcResToNative('checked', { Error: { Contract: 2 } }),
+      ).toEqual({ err: 2 });
+    });
+
+    it('returns null for functions without outputs', () => {
+      expect(conversionSpec.funcResToNative('nothing', 'Void')).toBeNull();
+    });
+
+    it('reports mismatched return values', () => {
+      expect(() => conversionSpec.funcResToNative('pair', { U32: 1 })).toThrow(
+        'pair: return value: expected Vec SCVal for Pair, got U32',
+      );
+    });
+
+    it('names the arm and code of non-contract errors', () => {
+      const type: SCSpecTypeDef = { Udt: { name: 'Error' } };
+      expect(() =>
+        conversionSpec.scValToNative({ Error: { Budget: 'ExceededLimit' } }, type),
+      ).toThrow('expected contract error for Error, got Error(Budget, ExceededLimit)');
+    });
+  });
+
+  describe('round trips', () => {
+    it('round-trips structs, unions and addresses', () => {
+      const type: SCSpecTypeDef = { Udt: { name: 'Action' } };
+      const native = {
+        tag: 'Send',
+        values: [{ to: C_ADDRESS, amount: -(2n ** 100n), memo: null }],
+      };
+      const scv = conversionSpec.nativeToScVal(native, type);
+      expect(conversionSpec.scValToNative(scv, type)).toEqual(native);
+    });
+
+    it('decodes maps to Map instances', () => {
+      const type: SCSpecTypeDef = { Map: { keyType: 'Symbol', valueType: 'U64' } };
+      const scv = conversionSpec.nativeToScVal(new Map([['k', 4n]]), type);
+      expect(conversionSpec.scValToNative(scv, type)).toEqual(new Map([['k', 4n]]));
+    });
+  });
+
+  describe('errorCases', () => {
+    it('lists error enum cases', () => {
+      expect(conversionSpec.errorCases().map((c) => c.name)).toEqual(['NotAllowed', 'Overflow']);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { parseContractWasm, parseWasmCustomSections } from '../src/wasm.js';
+import {
+  SCEnvMetaEntry,
+  SCMetaEntry,
+  SCSpecEntry,
+} from '@stellar/xdr';
+
+function leb128(n: number): number[] {
+  const out: number[] = [];
+  do {
+    let byte = n & 0x7f;
+    n >>>= 7;
+    if (n !== 0) byte |= 0x80;
+    out.push(byte);
+  } while (n !== 0);
+  return out;
+}
+
+function section(id: number, content: Uint8Array | number[]): number[] {
+  return [id, ...leb128(content.length), ...content];
+}
+
+function customSection(name: string, payload: Uint8Array): number[] {
+  const nameBytes = new TextEncoder().encode(name);
+  return section(0, [...leb128(nameBytes.length), ...nameBytes, ...payload]);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+function wasmModule(...sections: number[][]): Uint8Array {
+  return new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00, ...sections.flat()]);
+}
+
+const helloFn: SCSpecEntry = {
+  FunctionV0: {
+    doc: '',
+    name: 'hello',
+    inputs: [{ doc: '', name: 'to', type: 'Symbol' }],
+    outputs: [{ Vec: { elementType: 'Symbol' } }],
+  },
+};
+
+const counterStruct: SCSpecEntry = {
+  UdtStructV0: {
+    doc: '',
+    lib: '',
+    name: 'Counter',
+    fields: [{ doc: '', name: 'count', type: 'U32' }],
+  },
+};
+
+const specPayload = concat(SCSpecEntry.toXdr(helloFn), SCSpecEntry.toXdr(counterStruct));
+const envMetaPayload = SCEnvMetaEntry.toXdr({
+  ScEnvMetaKindInterfaceVersion: { protocol: 22, preRelease: 0 },
+});
+const metaPayload = concat(
+  SCMetaEntry.toXdr({ ScMetaV0: { key: 'rsver', val: '1.84.0' } }),
+  SCMetaEntry.toXdr({ ScMetaV0: { key: 'rssdkver', val: '22.0.7#abc' } }),
+  SCMetaEntry.toXdr({ ScMetaV0: { key: 'source_repo', val: 'github:example/repo' } }),
+);
+
+describe('parseWasmCustomSections', () => {
+  it('collects custom sections by name and skips other sections', () => {
+    const wasm = wasmModule(
+      section(1, [0x01, 0x60, 0x00, 0x00]),
+      customSection('name', new Uint8Array([1, 2, 3])),
+      section(3, [0x01, 0x00]),
+      customSection('contractspecv0', specPayload),
+    );
+    const sections = parseWasmCustomSections(wasm);
+    expect([...sections.keys()]).toEqual(['name', 'contractspecv0']);
+    expect(sections.get('name')).toEqual([new Uint8Array([1, 2, 3])]);
+    expect(sections.get('contractspecv0')).toEqual([specPayload]);
+  });
+
+  it('keeps repeated sections in module order', () => {
+    const wasm = wasmModule(
+      customSection('x', new Uint8Array([1])),
+      customSection('x', new Uint8Array([2])),
+    );
+    expect(parseWasmCustomSections(wasm).get('x')).toEqual([
+      new Uint8Array([1]),
+      new Uint8Array([2]),
+    ]);
+  });
+
+  it('handles multi-byte section sizes', () => {
+    const payload = new Uint8Array(300).fill(9);
+    const sections = parseWasmCustomSections(wasmModule(customSection('big', payload)));
+    expect(sections.get('big')).toEqual([payload]);
+  });
+
+  it('rejects a bad magic header', () => {
+    expect(() => parseWasmCustomSections(new Uint8Array([0, 1, 2, 3, 1, 0, 0, 0]))).toThrow(
+      /magic header/,
+    );
+  });
+
+  it('rejects an unsupported version', () => {
+    expect(() =>
+      parseWasmCustomSections(new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x02, 0x00, 0x00, 0x00])),
+    ).toThrow(/unsupported version/);
+  });
+
+  it('rejects a section that overruns the module', () => {
+    const wasm = wasmModule([0, 10, 1, 0x61]);
+    expect(() => parseWasmCustomSections(wasm)).toThrow(/overruns module/);
+  });
+
+  it('rejects a truncated LEB128 size', () => {
+    const wasm = wasmModule([0, 0x80]);
+    expect(() => parseWasmCustomSections(wasm)).toThrow(/truncated LEB128/);
+  });
+});
+
+describe('parseContractWasm', () => {
+  it('decodes the spec and metadata sections', () => {
+    const wasm = wasmModule(
+      customSection('contractenvmetav0', envMetaPayload),
+      customSection('contractmetav0', metaPayload),
+      customSection('contractspecv0', specPayload),
+    );
+    const { spec, metadata } = parseContractWasm(wasm);
+    expect(spec.entries).toEqual([helloFn, counterStruct]);
+    expect(spec.funcs().map((f) => f.name)).toEqual(['hello']);
+    expect(metadata.protocolVersion).toBe(22);
+    expect(metadata.preReleaseVersion).toBe(0);
+    expect(metadata.rustVersion).toBe('1.84.0');
+    expect(metadata.sdkVersion).toBe('22.0.7#abc');
+    expect(metadata.custom).toEqual({
+      rsver: '1.84.0',
+      rssdkver: '22.0.7#abc',
+      source_repo: 'github:example/repo',
+    });
+    expect(metadata.envMeta).toHaveLength(1);
+    expect(metadata.meta).toHaveLength(3);
+  });
+
+  it('concatenates spec entries split across sections', () => {
+    const wasm = wasmModule(
+      customSection('contractspecv0', SCSpecEntry.toXdr(helloFn)),
+      customSection('contractspecv0', SCSpecEntry.toXdr(counterStruct)),
+    );
+    expect(parseContractWasm(wasm).spec.entries).toEqual([helloFn, counterStruct]);
+  });
+
+  it('returns empty metadata when meta sections are absent', () => {
+    const { metadata } = parseContractWasm(
+      wasmModule(customSection('contractspecv0', specPayload)),
+    );
+    expect(metadata).toEqual({ custom: {}, envMeta: [], meta: [] });
+  });
+
+  it('throws when the spec section is missing', () => {
+    expect(() => parseContractWasm(wasmModule())).toThrow(/no contractspecv0/);
+  });
+
+  it('throws on a truncated spec entry', () => {
+    const wasm = wasmModule(customSection('contractspecv0', specPayload.subarray(0, 10)));
+    expect(() => parseContractWasm(wasm)).toThrow();
+  });
+});
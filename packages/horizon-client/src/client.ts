@@ -1,16 +1,41 @@
-import type { TransactionEnvelope } from '@stellar/xdr';
-import { TransactionEnvelope as TransactionEnvelopeCodec } from '@stellar/xdr';
-import { HorizonError } from './errors.js';
+import type {
+  OperationType as XdrOperationType,
+  TimeBounds,
+  TransactionEnvelope,
+  TransactionResultSummary,
+} from '@stellar/xdr';
+import {
+  TransactionEnvelope as TransactionEnvelopeCodec,
+  TransactionResult,
+  TransactionFailedError,
+  bytesToHex,
+  decodeResultCodes,
+  decodeTransactionResult,
+  is,
+  transactionEnvelopeHash,
+} from '@stellar/xdr';
+import { HorizonError, TransactionRejectedError } from './errors.js';
 import { httpGet, httpPost } from './transport.js';
 import { assetParams, assetString, assetList } from './assets.js';
 import type { AssetId } from './assets.js';
-import { parsePage, stripLinks, type HalCollection } from './parsers.js';
-import { sseStream } from './streaming.js';
+import { parsePage, parseRateLimit, stripLinks, type HalCollection } from './parsers.js';
+import {
+  fetchCollectionPage,
+  paginateRecords,
+  type PageFetcher,
+} from './pagination.js';
+import { recordStream, sseStream } from './streaming.js';
+import { parseEffectRecord, parseOperationRecord } from './records.js';
 import type {
   PageParams,
   Page,
+  CollectionPage,
+  PaginateOptions,
+  RateLimit,
   Stream,
   StreamOptions,
+  RecordStream,
+  RecordStreamOptions,
   RootResponse,
   FeeStatsResponse,
   AccountRecord,
@@ -29,6 +54,7 @@ import type {
   TradeAggregationRecord,
   SubmitTransactionResponse,
   SubmitAsyncTransactionResponse,
+  SubmitOutcome,
   AccountsParams,
   TransactionsParams,
   OperationsParams,
@@ -53,6 +79,22 @@ import type {
 export interface HorizonClientOptions {
   allowHttp?: boolean;
   headers?: Record<string, string>;
+  /**
+   * Check operation and effect records from collections, pagination and
+   * streams with `parseOperationRecord` and `parseEffectRecord`.
+   */
+  validateRecords?: boolean;
+}
+
+export interface SubmitAndWaitOptions {
+  /** Network passphrase for the transaction hash; read from `root()` when omitted. */
+  networkPassphrase?: string;
+  /** Submit through `/transactions_async` and poll for the result. */
+  async?: boolean;
+  /** How long to keep trying when the transaction has no `maxTime`, in ms. Defaults to 60000. */
+  timeout?: number;
+  /** Delay between polls and resubmissions, in ms. Defaults to 1000. */
+  pollInterval?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -71,6 +113,128 @@ function boolParam(key: string, value?: boolean): Record<string, string> {
   return value !== undefined ? { [key]: String(value) } : {};
 }
 
+function operationTypes(envelope: TransactionEnvelope): XdrOperationType[] {
+  const tx = is(envelope, 'TxV0')
+    ? envelope.TxV0.tx
+    : is(envelope, 'Tx')
+      ? envelope.Tx.tx
+      : envelope.TxFeeBump.tx.innerTx.Tx.tx;
+  return tx.operations.map((op) => Object.keys(op.body)[0] as XdrOperationType);
+}
+
+interface Rejection {
+  result: TransactionResult | null;
+  summary: TransactionResultSummary;
+  extras: { hash?: string };
+}
+
+/**
+ * Decode a rejected submission's `HorizonError`, preferring
+ * `extras.result_xdr` over `extras.result_codes`. Returns `null` when the
+ * error carries neither.
+ */
+function rejection(err: HorizonError, envelope: TransactionEnvelope): Rejection | null {
+  const extras = err.extras as {
+    hash?: string;
+    result_xdr?: string;
+    result_codes?: { transaction: string; inner_transaction?: string; operations?: string[] };
+  } | undefined;
+  if (!extras?.result_codes) return null;
+  let result = null;
+  if (extras.result_xdr) {
+    try {
+      result = TransactionResult.fromBase64(extras.result_xdr);
+    } catch {
+      // Fall back to the result codes.
+    }
+  }
+  const summary = result
+    ? decodeTransactionResult(result)
+    : decodeResultCodes(extras.result_codes, operationTypes(envelope));
+  if (summary === null) return null;
+  return { result, summary, extras };
+}
+
+/**
+ * Convert a rejected submission's `HorizonError` into a
+ * `TransactionFailedError`. Returns `null` when it carries no result.
+ */
+function transactionFailure(
+  err: HorizonError,
+  envelope: TransactionEnvelope,
+): TransactionFailedError | null {
+  const rejected = rejection(err, envelope);
+  if (rejected === null) return null;
+  return new TransactionFailedError(rejected.summary, {
+    hash: rejected.extras.hash,
+    response: rejected.extras,
+    cause: err,
+  });
+}
+
+const ASYNC_TX_STATUSES: readonly string[] = ['ERROR', 'PENDING', 'DUPLICATE', 'TRY_AGAIN_LATER'];
+
+/** Whether an error body is a `/transactions_async` response rather than a problem. */
+function isAsyncSubmitResponse(body: object): body is SubmitAsyncTransactionResponse {
+  const { hash, tx_status } = body as Partial<Record<string, unknown>>;
+  return (
+    typeof hash === 'string' &&
+    typeof tx_status === 'string' &&
+    ASYNC_TX_STATUSES.includes(tx_status)
+  );
+}
+
+/**
+ * About one ledger close. A transaction valid until `maxTime` can still be
+ * applied in the ledger that closes just after it.
+ */
+const EXPIRY_GRACE_MS = 6_000;
+
+/** The envelope's `maxTime` in ms since the epoch, or `null` when unbounded. */
+function maxTime(envelope: TransactionEnvelope): number | null {
+  let bounds: TimeBounds | null;
+  if (is(envelope, 'TxV0')) {
+    bounds = envelope.TxV0.tx.timeBounds;
+  } else {
+    const { cond } = is(envelope, 'Tx') ? envelope.Tx.tx : envelope.TxFeeBump.tx.innerTx.Tx.tx;
+    bounds = is(cond, 'Time') ? cond.Time : is(cond, 'V2') ? cond.V2.timeBounds : null;
+  }
+  return bounds && bounds.maxTime > 0n ? Number(bounds.maxTime) * 1000 : null;
+}
+
+/**
+ * The query for the trade aggregation buckets after `page`: later buckets
+ * in ascending order, earlier ones in descending order. `null` once the
+ * time range is used up.
+ */
+function nextBuckets(
+  query: TradeAggregationsParams,
+  page: Page<TradeAggregationRecord>,
+): TradeAggregationsParams | null {
+  const last = Number(page.records[page.records.length - 1]!.timestamp);
+  const next = query.order === 'desc'
+    ? { ...query, end_time: last }
+    : { ...query, start_time: last + query.resolution };
+  return next.start_time < next.end_time ? next : null;
+}
+
+function appliedOutcome(
+  hash: string,
+  submissions: number,
+  applied: { ledger: number; successful: boolean; result_xdr: string },
+): SubmitOutcome {
+  const result = TransactionResult.fromBase64(applied.result_xdr);
+  const summary = decodeTransactionResult(result);
+  const { ledger } = applied;
+  return applied.successful
+    ? { status: 'SUCCESS', hash, submissions, ledger, result, summary }
+    : { status: 'FAILED', hash, submissions, ledger, result, summary };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 // ---------------------------------------------------------------------------
 // HorizonClient
 // ---------------------------------------------------------------------------
@@ -78,6 +242,9 @@ function boolParam(key: string, value?: boolean): Record<string, string> {
 export class HorizonClient {
   readonly url: string;
   private readonly headers: Record<string, string>;
+  private lastRateLimit: RateLimit | undefined;
+  private readonly checkOperation?: (raw: unknown) => OperationRecord;
+  private readonly checkEffect?: (raw: unknown) => EffectRecord;
 
   constructor(url: string, opts?: HorizonClientOptions) {
     if (!opts?.allowHttp && url.startsWith('http://')) {
@@ -88,14 +255,38 @@ export class HorizonClient {
     }
     this.url = url.endsWith('/') ? url : url + '/';
     this.headers = opts?.headers ?? {};
+    if (opts?.validateRecords) {
+      this.checkOperation = parseOperationRecord;
+      this.checkEffect = parseEffectRecord;
+    }
+  }
+
+  /** Rate limit state reported by the most recent response, if any. */
+  get rateLimit(): RateLimit | undefined {
+    return this.lastRateLimit;
   }
 
-  private get<T>(path: string, params?: Record<string, string>): Promise<T> {
-    return httpGet<T>(this.url, path, params, this.headers);
+  private readonly recordRateLimit = (headers: Headers): void => {
+    this.lastRateLimit = parseRateLimit(headers) ?? this.lastRateLimit;
+  };
+
+  private get<T>(
+    path: string,
+    params?: Record<string, string>,
+    request?: Pick<PageParams, 'signal' | 'onHeaders'>,
+  ): Promise<T> {
+    const onHeaders = request?.onHeaders;
+    const record = onHeaders
+      ? (headers: Headers) => {
+          this.recordRateLimit(headers);
+          onHeaders(headers);
+        }
+      : this.recordRateLimit;
+    return httpGet<T>(this.url, path, params, this.headers, record, request?.signal);
   }
 
   private post<T>(path: string, body: string): Promise<T> {
-    return httpPost<T>(this.url, path, body, this.headers);
+    return httpPost<T>(this.url, path, body, this.headers, this.recordRateLimit);
   }
 
   // -----------------------------------------------------------------------
@@ -138,7 +329,7 @@ export class HorizonClient {
         ...(params?.asset ? { asset: params.asset } : {}),
         ...(params?.sponsor ? { sponsor: params.sponsor } : {}),
         ...(params?.liquidity_pool ? { liquidity_pool: params.liquidity_pool } : {}),
-      }),
+      }, params),
     );
   }
 
@@ -153,6 +344,7 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
     );
   }
@@ -168,7 +360,9 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
+      this.checkOperation,
     );
   }
 
@@ -183,7 +377,9 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
+      this.checkOperation,
     );
   }
 
@@ -195,7 +391,9 @@ export class HorizonClient {
       await this.get<HalCollection<EffectRecord>>(
         `accounts/${accountId}/effects`,
         pageToParams(params),
+        params,
       ),
+      this.checkEffect,
     );
   }
 
@@ -207,6 +405,7 @@ export class HorizonClient {
       await this.get<HalCollection<OfferRecord>>(
         `accounts/${accountId}/offers`,
         pageToParams(params),
+        params,
       ),
     );
   }
@@ -219,6 +418,7 @@ export class HorizonClient {
       await this.get<HalCollection<TradeRecord>>(
         `accounts/${accountId}/trades`,
         pageToParams(params),
+        params,
       ),
     );
   }
@@ -234,7 +434,7 @@ export class HorizonClient {
 
   async getLedgers(params?: LedgersParams): Promise<Page<LedgerRecord>> {
     return parsePage(
-      await this.get<HalCollection<LedgerRecord>>('ledgers', pageToParams(params)),
+      await this.get<HalCollection<LedgerRecord>>('ledgers', pageToParams(params), params),
     );
   }
 
@@ -249,6 +449,7 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
     );
   }
@@ -264,7 +465,9 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
+      this.checkOperation,
     );
   }
 
@@ -276,7 +479,9 @@ export class HorizonClient {
       await this.get<HalCollection<EffectRecord>>(
         `ledgers/${sequence}/effects`,
         pageToParams(params),
+        params,
       ),
+      this.checkEffect,
     );
   }
 
@@ -291,7 +496,9 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
+      this.checkOperation,
     );
   }
 
@@ -311,7 +518,7 @@ export class HorizonClient {
       await this.get<HalCollection<TransactionRecord>>('transactions', {
         ...pageToParams(params),
         ...boolParam('include_failed', params?.include_failed),
-      }),
+      }, params),
     );
   }
 
@@ -326,7 +533,9 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
+      this.checkOperation,
     );
   }
 
@@ -338,7 +547,9 @@ export class HorizonClient {
       await this.get<HalCollection<EffectRecord>>(
         `transactions/${hash}/effects`,
         pageToParams(params),
+        params,
       ),
+      this.checkEffect,
     );
   }
 
@@ -348,7 +559,8 @@ export class HorizonClient {
 
   async getOperation(id: string): Promise<OperationRecord> {
     const raw = await this.get<OperationRecord & { _links?: unknown }>(`operations/${id}`);
-    return stripLinks(raw);
+    const record = stripLinks(raw);
+    return this.checkOperation?.(record) ?? record;
   }
 
   async getOperations(params?: OperationsParams): Promise<Page<OperationRecord>> {
@@ -356,7 +568,8 @@ export class HorizonClient {
       await this.get<HalCollection<OperationRecord>>('operations', {
         ...pageToParams(params),
         ...boolParam('include_failed', params?.include_failed),
-      }),
+      }, params),
+      this.checkOperation,
     );
   }
 
@@ -368,7 +581,9 @@ export class HorizonClient {
       await this.get<HalCollection<EffectRecord>>(
         `operations/${id}/effects`,
         pageToParams(params),
+        params,
       ),
+      this.checkEffect,
     );
   }
 
@@ -378,7 +593,8 @@ export class HorizonClient {
 
   async getEffects(params?: EffectsParams): Promise<Page<EffectRecord>> {
     return parsePage(
-      await this.get<HalCollection<EffectRecord>>('effects', pageToParams(params)),
+      await this.get<HalCollection<EffectRecord>>('effects', pageToParams(params), params),
+      this.checkEffect,
     );
   }
 
@@ -391,7 +607,8 @@ export class HorizonClient {
       await this.get<HalCollection<OperationRecord>>('payments', {
         ...pageToParams(params),
         ...boolParam('include_failed', params?.include_failed),
-      }),
+      }, params),
+      this.checkOperation,
     );
   }
 
@@ -413,7 +630,7 @@ export class HorizonClient {
       ...(params?.buying ? assetParams('buying', params.buying) : {}),
     };
     return parsePage(
-      await this.get<HalCollection<OfferRecord>>('offers', queryParams),
+      await this.get<HalCollection<OfferRecord>>('offers', queryParams, params),
     );
   }
 
@@ -425,6 +642,7 @@ export class HorizonClient {
       await this.get<HalCollection<TradeRecord>>(
         `offers/${offerId}/trades`,
         pageToParams(params),
+        params,
       ),
     );
   }
@@ -442,7 +660,7 @@ export class HorizonClient {
       ...(params?.counter_asset ? assetParams('counter', params.counter_asset) : {}),
     };
     return parsePage(
-      await this.get<HalCollection<TradeRecord>>('trades', queryParams),
+      await this.get<HalCollection<TradeRecord>>('trades', queryParams, params),
     );
   }
 
@@ -456,7 +674,7 @@ export class HorizonClient {
         ...pageToParams(params),
         ...(params?.asset_code ? { asset_code: params.asset_code } : {}),
         ...(params?.asset_issuer ? { asset_issuer: params.asset_issuer } : {}),
-      }),
+      }, params),
     );
   }
 
@@ -480,7 +698,7 @@ export class HorizonClient {
         ...(params?.sponsor ? { sponsor: params.sponsor } : {}),
         ...(params?.claimant ? { claimant: params.claimant } : {}),
         ...(params?.asset ? { asset: params.asset } : {}),
-      }),
+      }, params),
     );
   }
 
@@ -503,7 +721,7 @@ export class HorizonClient {
         ...pageToParams(params),
         ...(params?.reserves ? { reserves: params.reserves } : {}),
         ...(params?.account ? { account: params.account } : {}),
-      }),
+      }, params),
     );
   }
 
@@ -518,6 +736,7 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
     );
   }
@@ -533,7 +752,9 @@ export class HorizonClient {
           ...pageToParams(params),
           ...boolParam('include_failed', params?.include_failed),
         },
+        params,
       ),
+      this.checkOperation,
     );
   }
 
@@ -545,7 +766,9 @@ export class HorizonClient {
       await this.get<HalCollection<EffectRecord>>(
         `liquidity_pools/${poolId}/effects`,
         pageToParams(params),
+        params,
       ),
+      this.checkEffect,
     );
   }
 
@@ -577,7 +800,7 @@ export class HorizonClient {
         end_time: String(params.end_time),
         resolution: String(params.resolution),
         ...(params.offset !== undefined ? { offset: String(params.offset) } : {}),
-      }),
+      }, params),
     );
   }
 
@@ -625,14 +848,24 @@ export class HorizonClient {
   // Transaction Submission
   // -----------------------------------------------------------------------
 
+  /**
+   * Submit a transaction and wait for it to be applied. Throws
+   * `TransactionFailedError` when Horizon reports result codes for a
+   * rejected or failed transaction, with the `HorizonError` as its `cause`.
+   */
   async submitTransaction(
     envelope: TransactionEnvelope,
   ): Promise<SubmitTransactionResponse> {
     const xdr = TransactionEnvelopeCodec.toBase64(envelope);
-    return this.post<SubmitTransactionResponse>(
-      'transactions',
-      `tx=${encodeURIComponent(xdr)}`,
-    );
+    try {
+      return await this.post<SubmitTransactionResponse>(
+        'transactions',
+        `tx=${encodeURIComponent(xdr)}`,
+      );
+    } catch (err) {
+      if (err instanceof HorizonError) throw transactionFailure(err, envelope) ?? err;
+      throw err;
+    }
   }
 
   async submitAsyncTransaction(
@@ -645,6 +878,324 @@ export class HorizonClient {
     );
   }
 
+  /**
+   * Submit a transaction and wait for its final outcome. A `504` timeout is
+   * resolved by looking the transaction up by hash and posting the identical
+   * envelope again until its `maxTime` (or `opts.timeout`, when it has none)
+   * passes. After `maxTime` the transaction is polled for one more ledger
+   * close before it is reported expired. With `async`, `/transactions_async`
+   * is used: `PENDING` and `DUPLICATE` are polled and `TRY_AGAIN_LATER` is
+   * resubmitted. Errors that carry no transaction result are thrown.
+   */
+  async submitAndWait(
+    envelope: TransactionEnvelope,
+    opts: SubmitAndWaitOptions = {},
+  ): Promise<SubmitOutcome> {
+    const passphrase = opts.networkPassphrase ?? (await this.root()).network_passphrase;
+    const hash = bytesToHex(await transactionEnvelopeHash(envelope, passphrase));
+    const body = `tx=${encodeURIComponent(TransactionEnvelopeCodec.toBase64(envelope))}`;
+    const pollInterval = opts.pollInterval ?? 1000;
+    const expiry = maxTime(envelope);
+    const deadline = expiry !== null
+      ? expiry + EXPIRY_GRACE_MS
+      : Date.now() + (opts.timeout ?? 60_000);
+    let submissions = 0;
+    let accepted = false;
+
+    for (;;) {
+      // Once `maxTime` has passed, a resubmission can only be rejected as too late.
+      const resubmit = submissions === 0 || expiry === null || Date.now() < expiry;
+      if (!accepted && resubmit) {
+        submissions++;
+        try {
+          if (!opts.async) {
+            const res = await this.post<SubmitTransactionResponse>('transactions', body);
+            return appliedOutcome(hash, submissions, res);
+          }
+          const res = await this.postAsync(body);
+          if (res.tx_status === 'ERROR') {
+            if (!res.error_result_xdr) throw new TransactionRejectedError(res);
+            const result = TransactionResult.fromBase64(res.error_result_xdr);
+            const summary = decodeTransactionResult(result);
+            return { status: 'FAILED', hash, submissions, ledger: null, result, summary };
+          }
+          accepted = res.tx_status !== 'TRY_AGAIN_LATER';
+        } catch (err) {
+          if (!(err instanceof HorizonError) || err.status !== 504) {
+            // A failed transaction may still have been applied, charging its fee.
+            const record = err instanceof HorizonError ? await this.findTransaction(hash) : null;
+            if (record) return appliedOutcome(hash, submissions, record);
+            const rejected = err instanceof HorizonError ? rejection(err, envelope) : null;
+            if (rejected === null) throw err;
+            const { result, summary } = rejected;
+            return { status: 'FAILED', hash, submissions, ledger: null, result, summary };
+          }
+        }
+      }
+
+      const record = await this.findTransaction(hash);
+      if (record) return appliedOutcome(hash, submissions, record);
+      if (Date.now() >= deadline) {
+        return { status: 'TIMEOUT', hash, submissions, expired: expiry !== null };
+      }
+      await sleep(pollInterval);
+    }
+  }
+
+  /** `/transactions_async` reports rejections in the body of non-2xx responses. */
+  private async postAsync(body: string): Promise<SubmitAsyncTransactionResponse> {
+    try {
+      return await this.post<SubmitAsyncTransactionResponse>('transactions_async', body);
+    } catch (err) {
+      const response = err instanceof HorizonError ? err.response : undefined;
+      if (response && isAsyncSubmitResponse(response)) return response;
+      throw err;
+    }
+  }
+
+  /** Look a transaction up by hash; `null` while Horizon does not know it. */
+  private async findTransaction(hash: string): Promise<TransactionRecord | null> {
+    try {
+      return await this.getTransaction(hash);
+    } catch (err) {
+      if (err instanceof HorizonError && (err.status === 404 || err.status >= 500)) return null;
+      throw err;
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Pagination
+  // -----------------------------------------------------------------------
+
+  /**
+   * Iterate over every record of a collection, following `next` cursors.
+   * `fn` is usually a collection method with its leading arguments bound,
+   * e.g. `(p) => horizon.getAccountPayments(accountId, p)`.
+   */
+  paginate<T, P extends PageParams>(
+    fn: PageFetcher<T, P>,
+    params: P,
+    opts?: PaginateOptions,
+  ): AsyncIterable<T> {
+    return paginateRecords(fn, params, opts);
+  }
+
+  /** Fetch one page of a collection that can fetch its `next()` and `prev()` pages. */
+  fetchPage<T, P extends PageParams>(
+    fn: PageFetcher<T, P>,
+    params: P,
+  ): Promise<CollectionPage<T>> {
+    return fetchCollectionPage(fn, params);
+  }
+
+  iterateAccounts(params?: AccountsParams, opts?: PaginateOptions): AsyncIterable<AccountRecord> {
+    return this.paginate((p) => this.getAccounts(p), params ?? {}, opts);
+  }
+
+  iterateAccountTransactions(
+    accountId: string,
+    params?: TransactionsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<TransactionRecord> {
+    return this.paginate((p) => this.getAccountTransactions(accountId, p), params ?? {}, opts);
+  }
+
+  iterateAccountOperations(
+    accountId: string,
+    params?: OperationsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<OperationRecord> {
+    return this.paginate((p) => this.getAccountOperations(accountId, p), params ?? {}, opts);
+  }
+
+  iterateAccountPayments(
+    accountId: string,
+    params?: PaymentsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<OperationRecord> {
+    return this.paginate((p) => this.getAccountPayments(accountId, p), params ?? {}, opts);
+  }
+
+  iterateAccountEffects(
+    accountId: string,
+    params?: EffectsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<EffectRecord> {
+    return this.paginate((p) => this.getAccountEffects(accountId, p), params ?? {}, opts);
+  }
+
+  iterateAccountOffers(
+    accountId: string,
+    params?: PageParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<OfferRecord> {
+    return this.paginate((p) => this.getAccountOffers(accountId, p), params ?? {}, opts);
+  }
+
+  iterateAccountTrades(
+    accountId: string,
+    params?: PageParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<TradeRecord> {
+    return this.paginate((p) => this.getAccountTrades(accountId, p), params ?? {}, opts);
+  }
+
+  iterateLedgers(params?: LedgersParams, opts?: PaginateOptions): AsyncIterable<LedgerRecord> {
+    return this.paginate((p) => this.getLedgers(p), params ?? {}, opts);
+  }
+
+  iterateLedgerTransactions(
+    sequence: number,
+    params?: TransactionsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<TransactionRecord> {
+    return this.paginate((p) => this.getLedgerTransactions(sequence, p), params ?? {}, opts);
+  }
+
+  iterateLedgerOperations(
+    sequence: number,
+    params?: OperationsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<OperationRecord> {
+    return this.paginate((p) => this.getLedgerOperations(sequence, p), params ?? {}, opts);
+  }
+
+  iterateLedgerEffects(
+    sequence: number,
+    params?: EffectsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<EffectRecord> {
+    return this.paginate((p) => this.getLedgerEffects(sequence, p), params ?? {}, opts);
+  }
+
+  iterateLedgerPayments(
+    sequence: number,
+    params?: PaymentsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<OperationRecord> {
+    return this.paginate((p) => this.getLedgerPayments(sequence, p), params ?? {}, opts);
+  }
+
+  iterateTransactions(
+    params?: TransactionsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<TransactionRecord> {
+    return this.paginate((p) => this.getTransactions(p), params ?? {}, opts);
+  }
+
+  iterateTransactionOperations(
+    hash: string,
+    params?: OperationsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<OperationRecord> {
+    return this.paginate((p) => this.getTransactionOperations(hash, p), params ?? {}, opts);
+  }
+
+  iterateTransactionEffects(
+    hash: string,
+    params?: EffectsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<EffectRecord> {
+    return this.paginate((p) => this.getTransactionEffects(hash, p), params ?? {}, opts);
+  }
+
+  iterateOperations(
+    params?: OperationsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<OperationRecord> {
+    return this.paginate((p) => this.getOperations(p), params ?? {}, opts);
+  }
+
+  iterateOperationEffects(
+    id: string,
+    params?: EffectsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<EffectRecord> {
+    return this.paginate((p) => this.getOperationEffects(id, p), params ?? {}, opts);
+  }
+
+  iterateEffects(params?: EffectsParams, opts?: PaginateOptions): AsyncIterable<EffectRecord> {
+    return this.paginate((p) => this.getEffects(p), params ?? {}, opts);
+  }
+
+  iteratePayments(params?: PaymentsParams, opts?: PaginateOptions): AsyncIterable<OperationRecord> {
+    return this.paginate((p) => this.getPayments(p), params ?? {}, opts);
+  }
+
+  iterateOffers(params?: OffersParams, opts?: PaginateOptions): AsyncIterable<OfferRecord> {
+    return this.paginate((p) => this.getOffers(p), params ?? {}, opts);
+  }
+
+  iterateOfferTrades(
+    offerId: string,
+    params?: PageParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<TradeRecord> {
+    return this.paginate((p) => this.getOfferTrades(offerId, p), params ?? {}, opts);
+  }
+
+  iterateTrades(params?: TradesParams, opts?: PaginateOptions): AsyncIterable<TradeRecord> {
+    return this.paginate((p) => this.getTrades(p), params ?? {}, opts);
+  }
+
+  iterateAssets(params?: AssetsParams, opts?: PaginateOptions): AsyncIterable<AssetRecord> {
+    return this.paginate((p) => this.getAssets(p), params ?? {}, opts);
+  }
+
+  iterateClaimableBalances(
+    params?: ClaimableBalancesParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<ClaimableBalanceRecord> {
+    return this.paginate((p) => this.getClaimableBalances(p), params ?? {}, opts);
+  }
+
+  iterateLiquidityPools(
+    params?: LiquidityPoolsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<LiquidityPoolRecord> {
+    return this.paginate((p) => this.getLiquidityPools(p), params ?? {}, opts);
+  }
+
+  iterateLiquidityPoolTransactions(
+    poolId: string,
+    params?: TransactionsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<TransactionRecord> {
+    return this.paginate((p) => this.getLiquidityPoolTransactions(poolId, p), params ?? {}, opts);
+  }
+
+  iterateLiquidityPoolOperations(
+    poolId: string,
+    params?: OperationsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<OperationRecord> {
+    return this.paginate((p) => this.getLiquidityPoolOperations(poolId, p), params ?? {}, opts);
+  }
+
+  iterateLiquidityPoolEffects(
+    poolId: string,
+    params?: EffectsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<EffectRecord> {
+    return this.paginate((p) => this.getLiquidityPoolEffects(poolId, p), params ?? {}, opts);
+  }
+
+  /**
+   * Trade aggregations are paged by time rather than by cursor, so each page
+   * starts after the previous page's last bucket.
+   */
+  iterateTradeAggregations(
+    params: TradeAggregationsParams,
+    opts?: PaginateOptions,
+  ): AsyncIterable<TradeAggregationRecord> {
+    return paginateRecords(
+      (p) => this.getTradeAggregations(p),
+      params,
+      opts,
+      nextBuckets,
+    );
+  }
+
   // -----------------------------------------------------------------------
   // Streaming (SSE)
   // -----------------------------------------------------------------------
@@ -653,7 +1204,14 @@ export class HorizonClient {
     path: string,
     params: Record<string, string>,
     opts: StreamOptions<T>,
+    check?: (raw: unknown) => T,
   ): Stream {
+    if (check) {
+      // Horizon's "hello" and "byebye" messages are passed through unchecked.
+      const { onMessage } = opts;
+      const checked = (data: T) => (typeof data === 'object' && data !== null ? check(data) : data);
+      opts = { ...opts, onMessage: (data) => onMessage(checked(data)) };
+    }
     return sseStream(this.url, path, params, this.headers, opts);
   }
 
@@ -666,15 +1224,15 @@ export class HorizonClient {
   }
 
   streamOperations(opts: StreamOptions<OperationRecord>): Stream {
-    return this.openStream('operations', {}, opts);
+    return this.openStream('operations', {}, opts, this.checkOperation);
   }
 
   streamPayments(opts: StreamOptions<OperationRecord>): Stream {
-    return this.openStream('payments', {}, opts);
+    return this.openStream('payments', {}, opts, this.checkOperation);
   }
 
   streamEffects(opts: StreamOptions<EffectRecord>): Stream {
-    return this.openStream('effects', {}, opts);
+    return this.openStream('effects', {}, opts, this.checkEffect);
   }
 
   streamTrades(opts: StreamOptions<TradeRecord>): Stream {
@@ -692,21 +1250,21 @@ export class HorizonClient {
     accountId: string,
     opts: StreamOptions<OperationRecord>,
   ): Stream {
-    return this.openStream(`accounts/${accountId}/operations`, {}, opts);
+    return this.openStream(`accounts/${accountId}/operations`, {}, opts, this.checkOperation);
   }
 
   streamAccountPayments(
     accountId: string,
     opts: StreamOptions<OperationRecord>,
   ): Stream {
-    return this.openStream(`accounts/${accountId}/payments`, {}, opts);
+    return this.openStream(`accounts/${accountId}/payments`, {}, opts, this.checkOperation);
   }
 
   streamAccountEffects(
     accountId: string,
     opts: StreamOptions<EffectRecord>,
   ): Stream {
-    return this.openStream(`accounts/${accountId}/effects`, {}, opts);
+    return this.openStream(`accounts/${accountId}/effects`, {}, opts, this.checkEffect);
   }
 
   streamAccountTrades(
@@ -732,4 +1290,83 @@ export class HorizonClient {
       ...assetParams('buying', params.buying),
     }, opts);
   }
+
+  private openRecordStream<T>(
+    path: string,
+    params: Record<string, string>,
+    opts?: RecordStreamOptions,
+    check?: (raw: unknown) => T,
+  ): RecordStream<T> {
+    return recordStream(this.url, path, params, this.headers, opts, check);
+  }
+
+  subscribeLedgers(opts?: RecordStreamOptions): RecordStream<LedgerRecord> {
+    return this.openRecordStream('ledgers', {}, opts);
+  }
+
+  subscribeTransactions(opts?: RecordStreamOptions): RecordStream<TransactionRecord> {
+    return this.openRecordStream('transactions', {}, opts);
+  }
+
+  subscribeOperations(opts?: RecordStreamOptions): RecordStream<OperationRecord> {
+    return this.openRecordStream('operations', {}, opts, this.checkOperation);
+  }
+
+  subscribePayments(opts?: RecordStreamOptions): RecordStream<OperationRecord> {
+    return this.openRecordStream('payments', {}, opts, this.checkOperation);
+  }
+
+  subscribeEffects(opts?: RecordStreamOptions): RecordStream<EffectRecord> {
+    return this.openRecordStream('effects', {}, opts, this.checkEffect);
+  }
+
+  subscribeTrades(opts?: RecordStreamOptions): RecordStream<TradeRecord> {
+    return this.openRecordStream('trades', {}, opts);
+  }
+
+  subscribeAccountTransactions(
+    accountId: string,
+    opts?: RecordStreamOptions,
+  ): RecordStream<TransactionRecord> {
+    return this.openRecordStream(`accounts/${accountId}/transactions`, {}, opts);
+  }
+
+  subscribeAccountOperations(
+    accountId: string,
+    opts?: RecordStreamOptions,
+  ): RecordStream<OperationRecord> {
+    return this.openRecordStream(`accounts/${accountId}/operations`, {}, opts, this.checkOperation);
+  }
+
+  subscribeAccountPayments(
+    accountId: string,
+    opts?: RecordStreamOptions,
+  ): RecordStream<OperationRecord> {
+    return this.openRecordStream(`accounts/${accountId}/payments`, {}, opts, this.checkOperation);
+  }
+
+  subscribeAccountEffects(
+    accountId: string,
+    opts?: RecordStreamOptions,
+  ): RecordStream<EffectRecord> {
+    return this.openRecordStream(`accounts/${accountId}/effects`, {}, opts, this.checkEffect);
+  }
+
+  subscribeAccountTrades(accountId: string, opts?: RecordStreamOptions): RecordStream<TradeRecord> {
+    return this.openRecordStream(`accounts/${accountId}/trades`, {}, opts);
+  }
+
+  subscribeAccountOffers(accountId: string, opts?: RecordStreamOptions): RecordStream<OfferRecord> {
+    return this.openRecordStream(`accounts/${accountId}/offers`, {}, opts);
+  }
+
+  subscribeOrderBook(
+    params: { selling: AssetId; buying: AssetId },
+    opts?: RecordStreamOptions,
+  ): RecordStream<OrderBookResponse> {
+    return this.openRecordStream('order_book', {
+      ...assetParams('selling', params.selling),
+      ...assetParams('buying', params.buying),
+    }, opts);
+  }
 }
@@ -1,3 +1,5 @@
+import type { SubmitAsyncTransactionResponse } from './types.js';
+
 export interface HorizonErrorBody {
   type?: string;
   title?: string;
@@ -12,11 +14,14 @@ export class HorizonError extends Error {
   readonly title?: string;
   readonly detail?: string;
   readonly extras?: Record<string, unknown>;
+  /** The parsed response body, including fields outside the problem format. */
+  readonly response?: HorizonErrorBody;
 
   constructor(status: number, message: string, response?: HorizonErrorBody) {
     super(message);
     this.name = 'HorizonError';
     this.status = status;
+    this.response = response;
     if (response) {
       this.type = response.type;
       this.title = response.title;
@@ -25,3 +30,40 @@ export class HorizonError extends Error {
     }
   }
 }
+
+/** A Horizon record that does not have the fields its `type` requires. */
+export class InvalidRecordError extends Error {
+  readonly record: unknown;
+  readonly field?: string;
+
+  constructor(message: string, record: unknown, field?: string) {
+    super(message);
+    this.name = 'InvalidRecordError';
+    this.record = record;
+    this.field = field;
+  }
+}
+
+/** `/transactions_async` returned `ERROR` without a result to decode. */
+export class TransactionRejectedError extends Error {
+  readonly hash: string;
+  readonly response: SubmitAsyncTransactionResponse;
+
+  constructor(response: SubmitAsyncTransactionResponse) {
+    super(`Transaction ${response.hash} rejected`);
+    this.name = 'TransactionRejectedError';
+    this.hash = response.hash;
+    this.response = response;
+  }
+}
+
+/** A record stream's buffer filled up under the `'error'` overflow policy. */
+export class StreamOverflowError extends Error {
+  readonly bufferSize: number;
+
+  constructor(bufferSize: number) {
+    super(`Stream buffer overflowed ${bufferSize} records`);
+    this.name = 'StreamOverflowError';
+    this.bufferSize = bufferSize;
+  }
+}
@@ -1,26 +1,60 @@
 // Client
-export { HorizonClient, type HorizonClientOptions } from './client.js';
+export {
+  HorizonClient,
+  type HorizonClientOptions,
+  type SubmitAndWaitOptions,
+} from './client.js';
 
 // Errors
-export { HorizonError, type HorizonErrorBody } from './errors.js';
+export {
+  HorizonError,
+  InvalidRecordError,
+  StreamOverflowError,
+  TransactionRejectedError,
+  type HorizonErrorBody,
+} from './errors.js';
 
 // Asset helpers
 export { type AssetId, native, credit, assetParams, assetString, assetList } from './assets.js';
 
+// Operation and effect records
+export {
+  parseOperationRecord,
+  parseEffectRecord,
+  amountToStroops,
+  stroopsToAmount,
+} from './records.js';
+
 // XDR decode helpers
-export { decodeEnvelopeXdr, decodeResultXdr, decodeResultMetaXdr } from './parsers.js';
+export {
+  decodeEnvelopeXdr,
+  decodeResultXdr,
+  decodeResultMetaXdr,
+  decodeTransactionRecord,
+} from './parsers.js';
+
+// Pagination
+export { parseRateLimit } from './parsers.js';
+export type { PageFetcher } from './pagination.js';
 
 // Streaming
-export { parseSSE, sseStream } from './streaming.js';
+export { parseSSE, sseStream, recordStream } from './streaming.js';
 
 // All types
 export type {
   // Pagination
   PageParams,
   Page,
+  CollectionPage,
+  PaginateOptions,
+  RateLimit,
   // Streaming
   Stream,
   StreamOptions,
+  StreamOverflow,
+  StreamLifecycleEvent,
+  RecordStreamOptions,
+  RecordStream,
   // Common
   AssetType,
   PriceR,
@@ -37,12 +71,75 @@ export type {
   AccountSigner,
   LedgerRecord,
   TransactionRecord,
+  DecodedTransactionRecord,
+  DecodedInnerTransaction,
   TransactionPreconditions,
   FeeBumpTransactionInfo,
   InnerTransactionInfo,
+  AssetFields,
+  AssetAmount,
   OperationType,
   OperationRecord,
+  CreateAccountOperationRecord,
+  PaymentOperationRecord,
+  PathPaymentStrictReceiveOperationRecord,
+  PathPaymentStrictSendOperationRecord,
+  CreatePassiveSellOfferOperationRecord,
+  ManageOfferOperationRecord,
+  SetOptionsOperationRecord,
+  ChangeTrustOperationRecord,
+  AllowTrustOperationRecord,
+  AccountMergeOperationRecord,
+  InflationOperationRecord,
+  ManageDataOperationRecord,
+  BumpSequenceOperationRecord,
+  CreateClaimableBalanceOperationRecord,
+  ClaimClaimableBalanceOperationRecord,
+  BeginSponsoringFutureReservesOperationRecord,
+  EndSponsoringFutureReservesOperationRecord,
+  RevokeSponsorshipOperationRecord,
+  ClawbackOperationRecord,
+  ClawbackClaimableBalanceOperationRecord,
+  SetTrustLineFlagsOperationRecord,
+  LiquidityPoolDepositOperationRecord,
+  LiquidityPoolWithdrawOperationRecord,
+  HostFunctionParameter,
+  AssetBalanceChange,
+  InvokeHostFunctionOperationRecord,
+  ExtendFootprintTtlOperationRecord,
+  RestoreFootprintOperationRecord,
+  EffectType,
   EffectRecord,
+  AccountCreatedEffectRecord,
+  AccountBalanceEffectRecord,
+  AccountThresholdsUpdatedEffectRecord,
+  AccountHomeDomainUpdatedEffectRecord,
+  AccountFlagsUpdatedEffectRecord,
+  SignerEffectRecord,
+  TrustlineEffectRecord,
+  TrustlineAuthorizationEffectRecord,
+  TrustlineFlagsUpdatedEffectRecord,
+  TradeEffectRecord,
+  DataEffectRecord,
+  DataRemovedEffectRecord,
+  SequenceBumpedEffectRecord,
+  ClaimableBalanceEffectRecord,
+  ClaimableBalanceClaimantCreatedEffectRecord,
+  ClaimableBalanceClawedBackEffectRecord,
+  AccountSponsorshipEffectRecord,
+  TrustlineSponsorshipEffectRecord,
+  DataSponsorshipEffectRecord,
+  ClaimableBalanceSponsorshipEffectRecord,
+  SignerSponsorshipEffectRecord,
+  LiquidityPoolEffectInfo,
+  LiquidityPoolDepositedEffectRecord,
+  LiquidityPoolWithdrewEffectRecord,
+  LiquidityPoolTradeEffectRecord,
+  LiquidityPoolCreatedEffectRecord,
+  LiquidityPoolRemovedEffectRecord,
+  LiquidityPoolRevokedEffectRecord,
+  ContractBalanceEffectRecord,
+  PlainEffectRecord,
   OfferRecord,
   OfferAssetInfo,
   TradeRecord,
@@ -62,6 +159,10 @@ export type {
   TradeAggregationRecord,
   SubmitTransactionResponse,
   SubmitAsyncTransactionResponse,
+  SubmitOutcome,
+  SubmitSuccess,
+  SubmitFailure,
+  SubmitTimeout,
   // Param types
   AccountsParams,
   TransactionsParams,
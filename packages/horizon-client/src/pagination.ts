@@ -0,0 +1,147 @@
+import { HorizonError } from './errors.js';
+import { parseRateLimit, parseRetryAfter } from './parsers.js';
+import type { CollectionPage, Page, PageParams, PaginateOptions, RateLimit } from './types.js';
+
+export type PageFetcher<T, P extends PageParams> = (params: P) => Promise<Page<T>>;
+
+// ---------------------------------------------------------------------------
+// Abort helpers
+// ---------------------------------------------------------------------------
+
+/** Settle with `promise`, or reject with the signal's reason once it aborts. */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return abortable(
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms);
+    }),
+    signal,
+  ).finally(() => clearTimeout(timer));
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+/** The shortest wait before retrying a 429, whatever the response reports. */
+const MIN_RETRY_DELAY_MS = 1_000;
+
+/** Rate limit state reported by the responses of one pagination's own requests. */
+interface RateLimitState {
+  current?: RateLimit;
+  /** When the last response allows another request, in milliseconds since the epoch. */
+  retryAt?: number;
+}
+
+/** Record the `Retry-After` and `X-RateLimit-*` headers of a response in `state`. */
+function recordRateLimit(state: RateLimitState, headers: Headers): void {
+  const now = Date.now();
+  const current = parseRateLimit(headers, now);
+  state.current = current ?? state.current;
+  state.retryAt = parseRetryAfter(headers, now) ?? current?.resetAt;
+}
+
+async function sleepUntil(time: number, signal?: AbortSignal): Promise<void> {
+  const delay = time - Date.now();
+  if (delay > 0) await sleep(delay, signal);
+}
+
+/**
+ * Fetch one page, first waiting out an exhausted rate limit window. A 429
+ * response is retried once, after its `Retry-After` or the window it reports
+ * has reset, and never sooner than `MIN_RETRY_DELAY_MS`.
+ */
+async function fetchWithinRateLimit<T, P extends PageParams>(
+  fetchPage: PageFetcher<T, P>,
+  params: P,
+  state: RateLimitState,
+  opts: PaginateOptions,
+): Promise<Page<T>> {
+  opts.signal?.throwIfAborted();
+  if (state.current && state.current.remaining <= (opts.rateLimitReserve ?? 0)) {
+    await sleepUntil(state.current.resetAt, opts.signal);
+  }
+  state.retryAt = undefined;
+  try {
+    return await abortable(fetchPage(params), opts.signal);
+  } catch (err) {
+    if (!(err instanceof HorizonError) || err.status !== 429) throw err;
+    const minimum = Date.now() + MIN_RETRY_DELAY_MS;
+    await sleepUntil(Math.max(state.retryAt ?? minimum, minimum), opts.signal);
+    return abortable(fetchPage(params), opts.signal);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Record iteration
+// ---------------------------------------------------------------------------
+
+/** Follow the page's `next` cursor. */
+function nextCursor<T, P extends PageParams>(query: P, page: Page<T>): P | null {
+  return page.next ? { ...query, cursor: page.next } : null;
+}
+
+/**
+ * Yield every record from `params` onwards, following `next` cursors until
+ * Horizon returns an empty page or `maxRecords` is reached. `advance` builds
+ * the query for the page after `page`, or returns `null` at the end. The
+ * signal is passed to `fetchPage` as `params.signal`; aborting it cancels
+ * the request in flight and rejects the pending iteration step. Rate limits
+ * are read from the headers `fetchPage` reports through `params.onHeaders`.
+ */
+export async function* paginateRecords<T, P extends PageParams>(
+  fetchPage: PageFetcher<T, P>,
+  params: P,
+  opts: PaginateOptions = {},
+  advance: (query: P, page: Page<T>) => P | null = nextCursor,
+): AsyncGenerator<T, void, undefined> {
+  let remaining = opts.maxRecords ?? Infinity;
+  const state: RateLimitState = {};
+  const onHeaders = (headers: Headers) => {
+    recordRateLimit(state, headers);
+    params.onHeaders?.(headers);
+  };
+  let query: P | null = { ...params, onHeaders, ...(opts.signal ? { signal: opts.signal } : {}) };
+  while (query && remaining > 0) {
+    const page: Page<T> = await fetchWithinRateLimit(fetchPage, query, state, opts);
+    for (const record of page.records.slice(0, remaining)) {
+      opts.signal?.throwIfAborted();
+      yield record;
+    }
+    remaining -= page.records.length;
+    query = page.records.length > 0 ? advance(query, page) : null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Page navigation
+// ---------------------------------------------------------------------------
+
+export async function fetchCollectionPage<T, P extends PageParams>(
+  fetchPage: PageFetcher<T, P>,
+  params: P,
+): Promise<CollectionPage<T>> {
+  const page = await fetchPage(params);
+  const follow = (query: P | null) =>
+    query ? fetchCollectionPage(fetchPage, query) : Promise.resolve(null);
+  const reversed = params.order === 'desc' ? 'asc' : 'desc';
+  return {
+    records: page.records,
+    nextCursor: page.next,
+    prevCursor: page.prev,
+    next: () => follow(page.next ? { ...params, cursor: page.next } : null),
+    prev: () => follow(page.prev ? { ...params, cursor: page.prev, order: reversed } : null),
+  };
+}
@@ -1,12 +1,21 @@
 import {
+  LedgerEntryChanges,
   TransactionEnvelope,
   TransactionResult,
   TransactionMeta,
+  bytesToHex,
+  is,
   type TransactionEnvelope as TransactionEnvelopeType,
   type TransactionResult as TransactionResultType,
   type TransactionMeta as TransactionMetaType,
 } from '@stellar/xdr';
-import type { Page } from './types.js';
+import type {
+  DecodedInnerTransaction,
+  DecodedTransactionRecord,
+  Page,
+  RateLimit,
+  TransactionRecord,
+} from './types.js';
 
 // ---------------------------------------------------------------------------
 // HAL+JSON raw shapes
@@ -46,14 +55,44 @@ function extractCursor(link?: HalLink): string | undefined {
 // Collection parser
 // ---------------------------------------------------------------------------
 
-export function parsePage<T>(raw: HalCollection<T>): Page<T> {
+/** `check`, when given, is applied to each record. */
+export function parsePage<T>(raw: HalCollection<T>, check?: (raw: unknown) => T): Page<T> {
   return {
-    records: raw._embedded.records,
+    records: check ? raw._embedded.records.map(check) : raw._embedded.records,
     next: extractCursor(raw._links.next),
     prev: extractCursor(raw._links.prev),
   };
 }
 
+// ---------------------------------------------------------------------------
+// Rate limit headers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read Horizon's `X-RateLimit-*` headers. `X-RateLimit-Reset` counts seconds
+ * from `now`. Returns `undefined` unless all three headers are numeric.
+ */
+export function parseRateLimit(headers: Headers, now = Date.now()): RateLimit | undefined {
+  const [limit, remaining, reset] = ['Limit', 'Remaining', 'Reset'].map((name) => {
+    const value = headers.get(`X-RateLimit-${name}`);
+    return value === null || value.trim() === '' ? NaN : Number(value);
+  }) as [number, number, number];
+  if (![limit, remaining, reset].every(Number.isFinite)) return undefined;
+  return { limit, remaining, resetAt: now + reset * 1000 };
+}
+
+/**
+ * Read a `Retry-After` header, given either in seconds or as an HTTP date.
+ * Returns when the request may be retried, in milliseconds since the epoch.
+ */
+export function parseRetryAfter(headers: Headers, now = Date.now()): number | undefined {
+  const value = headers.get('Retry-After')?.trim();
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return now + Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date;
+}
+
 // ---------------------------------------------------------------------------
 // Single-record parser (strip HAL _links)
 // ---------------------------------------------------------------------------
@@ -78,3 +117,48 @@ export function decodeResultXdr(base64: string): TransactionResultType {
 export function decodeResultMetaXdr(base64: string): TransactionMetaType {
   return TransactionMeta.fromBase64(base64);
 }
+
+/** Define `key` as a getter that replaces itself with its first result. */
+function lazy<T extends object, K extends keyof T>(target: T, key: K, get: () => T[K]): void {
+  Object.defineProperty(target, key, {
+    configurable: true,
+    get() {
+      const value = get();
+      Object.defineProperty(target, key, { value });
+      return value;
+    },
+  });
+}
+
+function innerTransaction(record: DecodedTransactionRecord): DecodedInnerTransaction | null {
+  const { envelope, result } = record;
+  if (!is(envelope, 'TxFeeBump')) return null;
+  const outer = result.result;
+  const pair = is(outer, 'TxFEEBumpInnerSuccess')
+    ? outer.TxFEEBumpInnerSuccess
+    : is(outer, 'TxFEEBumpInnerFailed')
+      ? outer.TxFEEBumpInnerFailed
+      : null;
+  if (pair === null) return null;
+  return {
+    hash: bytesToHex(pair.transactionHash),
+    envelope: envelope.TxFeeBump.tx.innerTx,
+    result: pair.result,
+  };
+}
+
+/**
+ * Attach decoded XDR fields to a transaction record. Each field is decoded
+ * when first read, so unused fields cost nothing.
+ */
+export function decodeTransactionRecord(record: TransactionRecord): DecodedTransactionRecord {
+  const decoded = { ...record } as DecodedTransactionRecord;
+  lazy(decoded, 'envelope', () => TransactionEnvelope.fromBase64(record.envelope_xdr));
+  lazy(decoded, 'result', () => TransactionResult.fromBase64(record.result_xdr));
+  lazy(decoded, 'resultMeta', () =>
+    record.result_meta_xdr ? TransactionMeta.fromBase64(record.result_meta_xdr) : null,
+  );
+  lazy(decoded, 'feeMeta', () => LedgerEntryChanges.fromBase64(record.fee_meta_xdr));
+  lazy(decoded, 'innerTransaction', () => innerTransaction(decoded));
+  return decoded;
+}
@@ -0,0 +1,344 @@
+import { InvalidRecordError } from './errors.js';
+import type { EffectRecord, EffectType, OperationRecord, OperationType } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Amounts
+// ---------------------------------------------------------------------------
+
+const STROOPS_PER_UNIT = 10_000_000n;
+const AMOUNT = /^(\d+)(?:\.(\d{1,7}))?$/;
+
+/** Convert a Horizon decimal amount (`"12.3456789"`) to stroops. */
+export function amountToStroops(amount: string): bigint {
+  const match = AMOUNT.exec(amount);
+  if (!match) throw new Error(`Invalid amount: ${amount}`);
+  return BigInt(match[1]!) * STROOPS_PER_UNIT + BigInt((match[2] ?? '').padEnd(7, '0'));
+}
+
+/** Convert stroops to a decimal amount with 7 places, as Horizon formats them. */
+export function stroopsToAmount(stroops: bigint): string {
+  const sign = stroops < 0n ? '-' : '';
+  const abs = stroops < 0n ? -stroops : stroops;
+  const frac = (abs % STROOPS_PER_UNIT).toString().padStart(7, '0');
+  return `${sign}${abs / STROOPS_PER_UNIT}.${frac}`;
+}
+
+// ---------------------------------------------------------------------------
+// Field specs
+// ---------------------------------------------------------------------------
+
+/**
+ * `amount` is a decimal amount string, `amounts` an array of
+ * `{ asset, amount }` and `assetAmount` a single one. A trailing `?` marks
+ * a field that may be missing or null.
+ */
+type FieldKind =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'amount'
+  | 'amounts'
+  | 'assetAmount'
+  | 'array'
+  | 'object';
+type FieldSpec = Record<string, FieldKind | `${FieldKind}?`>;
+
+function asset(prefix = ''): FieldSpec {
+  return {
+    [`${prefix}asset_type`]: 'string',
+    [`${prefix}asset_code`]: 'string?',
+    [`${prefix}asset_issuer`]: 'string?',
+  };
+}
+
+const BASE_OPERATION: FieldSpec = {
+  id: 'string',
+  paging_token: 'string',
+  source_account: 'string',
+  type_i: 'number',
+  created_at: 'string',
+  transaction_hash: 'string',
+  transaction_successful: 'boolean',
+};
+
+const PATH_PAYMENT: FieldSpec = {
+  ...asset(),
+  ...asset('source_'),
+  from: 'string',
+  to: 'string',
+  amount: 'amount',
+  source_amount: 'amount',
+  path: 'array',
+};
+
+const OFFER: FieldSpec = {
+  ...asset('buying_'),
+  ...asset('selling_'),
+  amount: 'amount',
+  price: 'string',
+  price_r: 'object',
+};
+
+const OPERATION_FIELDS: Record<OperationType, FieldSpec> = {
+  create_account: { starting_balance: 'amount', funder: 'string', account: 'string' },
+  payment: { ...asset(), from: 'string', to: 'string', amount: 'amount' },
+  path_payment_strict_receive: { ...PATH_PAYMENT, source_max: 'amount' },
+  path_payment_strict_send: { ...PATH_PAYMENT, destination_min: 'amount' },
+  create_passive_sell_offer: OFFER,
+  manage_sell_offer: { ...OFFER, offer_id: 'string' },
+  manage_buy_offer: { ...OFFER, offer_id: 'string' },
+  set_options: {
+    home_domain: 'string?',
+    inflation_dest: 'string?',
+    master_key_weight: 'number?',
+    signer_key: 'string?',
+    signer_weight: 'number?',
+    set_flags: 'array?',
+    clear_flags: 'array?',
+    low_threshold: 'number?',
+    med_threshold: 'number?',
+    high_threshold: 'number?',
+  },
+  change_trust: { ...asset(), liquidity_pool_id: 'string?', limit: 'amount', trustor: 'string' },
+  allow_trust: { ...asset(), trustee: 'string', trustor: 'string', authorize: 'boolean' },
+  account_merge: { account: 'string', into: 'string' },
+  inflation: {},
+  manage_data: { name: 'string', value: 'string' },
+  bump_sequence: { bump_to: 'string' },
+  create_claimable_balance: { asset: 'string', amount: 'amount', claimants: 'array' },
+  claim_claimable_balance: { balance_id: 'string', claimant: 'string' },
+  begin_sponsoring_future_reserves: { sponsored_id: 'string' },
+  end_sponsoring_future_reserves: { begin_sponsor: 'string' },
+  revoke_sponsorship: {},
+  clawback: { ...asset(), from: 'string', amount: 'amount' },
+  clawback_claimable_balance: { balance_id: 'string' },
+  set_trust_line_flags: {
+    ...asset(),
+    trustor: 'string',
+    set_flags: 'array?',
+    clear_flags: 'array?',
+  },
+  liquidity_pool_deposit: {
+    liquidity_pool_id: 'string',
+    reserves_max: 'amounts',
+    min_price: 'string',
+    max_price: 'string',
+    reserves_deposited: 'amounts',
+    shares_received: 'amount',
+  },
+  liquidity_pool_withdraw: {
+    liquidity_pool_id: 'string',
+    reserves_min: 'amounts',
+    shares: 'amount',
+    reserves_received: 'amounts',
+  },
+  invoke_host_function: {
+    function: 'string',
+    address: 'string',
+    salt: 'string',
+    parameters: 'array?',
+    asset_balance_changes: 'array?',
+  },
+  extend_footprint_ttl: { extend_to: 'number' },
+  restore_footprint: {},
+};
+
+const BASE_EFFECT: FieldSpec = {
+  id: 'string',
+  paging_token: 'string',
+  account: 'string',
+  type_i: 'number',
+  created_at: 'string',
+};
+
+const SIGNER: FieldSpec = { weight: 'number', key: 'string', public_key: 'string' };
+const TRUSTLINE: FieldSpec = { ...asset(), liquidity_pool_id: 'string?', limit: 'amount' };
+const TRUSTLINE_AUTHORIZATION: FieldSpec = {
+  trustor: 'string',
+  asset_type: 'string',
+  asset_code: 'string',
+};
+const CLAIMABLE_BALANCE: FieldSpec = { asset: 'string', balance_id: 'string', amount: 'amount' };
+const LIQUIDITY_POOL: FieldSpec = { liquidity_pool: 'object' };
+
+const EFFECT_FIELDS: Record<EffectType, FieldSpec> = {
+  account_created: { starting_balance: 'amount' },
+  account_removed: {},
+  account_credited: { ...asset(), amount: 'amount' },
+  account_debited: { ...asset(), amount: 'amount' },
+  account_thresholds_updated: {
+    low_threshold: 'number',
+    med_threshold: 'number',
+    high_threshold: 'number',
+  },
+  account_home_domain_updated: { home_domain: 'string' },
+  account_flags_updated: {
+    auth_required_flag: 'boolean?',
+    auth_revokable_flag: 'boolean?',
+    auth_immutable_flag: 'boolean?',
+    auth_clawback_enabled_flag: 'boolean?',
+  },
+  account_inflation_destination_updated: {},
+  signer_created: SIGNER,
+  signer_removed: SIGNER,
+  signer_updated: SIGNER,
+  trustline_created: TRUSTLINE,
+  trustline_removed: TRUSTLINE,
+  trustline_updated: TRUSTLINE,
+  trustline_authorized: TRUSTLINE_AUTHORIZATION,
+  trustline_deauthorized: TRUSTLINE_AUTHORIZATION,
+  trustline_authorized_to_maintain_liabilities: TRUSTLINE_AUTHORIZATION,
+  trustline_flags_updated: {
+    ...asset(),
+    trustor: 'string',
+    authorized_flag: 'boolean?',
+    authorized_to_maintain_liabilites_flag: 'boolean?',
+    clawback_enabled_flag: 'boolean?',
+  },
+  offer_created: {},
+  offer_removed: {},
+  offer_updated: {},
+  trade: {
+    ...asset('sold_'),
+    ...asset('bought_'),
+    seller: 'string',
+    offer_id: 'string',
+    sold_amount: 'amount',
+    bought_amount: 'amount',
+  },
+  data_created: { name: 'string', value: 'string' },
+  data_removed: { name: 'string' },
+  data_updated: { name: 'string', value: 'string' },
+  sequence_bumped: { new_seq: 'string' },
+  claimable_balance_created: CLAIMABLE_BALANCE,
+  claimable_balance_claimant_created: { ...CLAIMABLE_BALANCE, predicate: 'object' },
+  claimable_balance_claimed: CLAIMABLE_BALANCE,
+  account_sponsorship_created: { sponsor: 'string' },
+  account_sponsorship_updated: { new_sponsor: 'string', former_sponsor: 'string' },
+  account_sponsorship_removed: { former_sponsor: 'string' },
+  trustline_sponsorship_created: { asset: 'string?', sponsor: 'string' },
+  trustline_sponsorship_updated: {
+    asset: 'string?',
+    new_sponsor: 'string',
+    former_sponsor: 'string',
+  },
+  trustline_sponsorship_removed: { asset: 'string?', former_sponsor: 'string' },
+  data_sponsorship_created: { data_name: 'string', sponsor: 'string' },
+  data_sponsorship_updated: {
+    data_name: 'string',
+    new_sponsor: 'string',
+    former_sponsor: 'string',
+  },
+  data_sponsorship_removed: { data_name: 'string', former_sponsor: 'string' },
+  claimable_balance_sponsorship_created: { balance_id: 'string', sponsor: 'string' },
+  claimable_balance_sponsorship_updated: {
+    balance_id: 'string',
+    new_sponsor: 'string',
+    former_sponsor: 'string',
+  },
+  claimable_balance_sponsorship_removed: { balance_id: 'string', former_sponsor: 'string' },
+  signer_sponsorship_created: { signer: 'string', sponsor: 'string' },
+  signer_sponsorship_updated: { signer: 'string', new_sponsor: 'string', former_sponsor: 'string' },
+  signer_sponsorship_removed: { signer: 'string', former_sponsor: 'string' },
+  claimable_balance_clawed_back: { balance_id: 'string' },
+  liquidity_pool_deposited: {
+    ...LIQUIDITY_POOL,
+    reserves_deposited: 'amounts',
+    shares_received: 'amount',
+  },
+  liquidity_pool_withdrew: {
+    ...LIQUIDITY_POOL,
+    reserves_received: 'amounts',
+    shares_redeemed: 'amount',
+  },
+  liquidity_pool_trade: { ...LIQUIDITY_POOL, sold: 'assetAmount', bought: 'assetAmount' },
+  liquidity_pool_created: LIQUIDITY_POOL,
+  liquidity_pool_removed: { liquidity_pool_id: 'string' },
+  liquidity_pool_revoked: {
+    ...LIQUIDITY_POOL,
+    reserves_revoked: 'amounts',
+    shares_revoked: 'amount',
+  },
+  contract_credited: { ...asset(), contract: 'string', amount: 'amount' },
+  contract_debited: { ...asset(), contract: 'string', amount: 'amount' },
+};
+
+// ---------------------------------------------------------------------------
+// Parsers
+// ---------------------------------------------------------------------------
+
+/**
+ * Check that a Horizon operation record has the fields its `type`
+ * requires, with amounts in decimal form. Throws `InvalidRecordError` for
+ * unknown types and missing or mistyped fields. Returns `raw` itself:
+ * amounts stay decimal strings, for `amountToStroops` to convert.
+ */
+export function parseOperationRecord(raw: unknown): OperationRecord {
+  return parseRecord(raw, 'operation', BASE_OPERATION, OPERATION_FIELDS) as OperationRecord;
+}
+
+/**
+ * Check that a Horizon effect record has the fields its `type` requires,
+ * with amounts in decimal form. Throws `InvalidRecordError` for unknown
+ * types and missing or mistyped fields. Returns `raw` itself: amounts stay
+ * decimal strings, for `amountToStroops` to convert.
+ */
+export function parseEffectRecord(raw: unknown): EffectRecord {
+  return parseRecord(raw, 'effect', BASE_EFFECT, EFFECT_FIELDS) as EffectRecord;
+}
+
+function parseRecord(
+  raw: unknown,
+  kind: string,
+  base: FieldSpec,
+  specs: Record<string, FieldSpec>,
+): unknown {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new InvalidRecordError(`Expected ${kind} record object`, raw);
+  }
+  const record = raw as Record<string, unknown>;
+  const type = record.type;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(specs, type)) {
+    throw new InvalidRecordError(`Unknown ${kind} type: ${String(type)}`, raw, 'type');
+  }
+  for (const [field, expected] of Object.entries({ ...base, ...specs[type] })) {
+    const optional = expected.endsWith('?');
+    const fieldKind = (optional ? expected.slice(0, -1) : expected) as FieldKind;
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (optional) continue;
+      throw new InvalidRecordError(`${type} ${kind} ${record.id} is missing ${field}`, raw, field);
+    }
+    if (!isKind(value, fieldKind)) {
+      throw new InvalidRecordError(
+        `${type} ${kind} ${record.id} has invalid ${field}: expected ${fieldKind}`,
+        raw,
+        field,
+      );
+    }
+  }
+  return raw;
+}
+
+function isKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'amount':
+      return typeof value === 'string' && AMOUNT.test(value);
+    case 'amounts':
+      return Array.isArray(value) && value.every(isAssetAmount);
+    case 'assetAmount':
+      return isAssetAmount(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+function isAssetAmount(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const { asset, amount } = value as Record<string, unknown>;
+  return typeof asset === 'string' && typeof amount === 'string' && AMOUNT.test(amount);
+}
@@ -1,6 +1,16 @@
-import type { Stream, StreamOptions } from './types.js';
+import { HorizonError, InvalidRecordError, StreamOverflowError } from './errors.js';
+import type {
+  RecordStream,
+  RecordStreamOptions,
+  Stream,
+  StreamLifecycleEvent,
+  StreamOptions,
+} from './types.js';
 
 const DEFAULT_RETRY_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 60_000;
+const DEFAULT_IDLE_TIMEOUT_MS = 30_000;
+const DEFAULT_BUFFER_SIZE = 100;
 
 /**
  * Parse raw SSE text into individual event blocks.
@@ -145,3 +155,249 @@ export function sseStream<T>(
     },
   };
 }
+
+// ---------------------------------------------------------------------------
+// Record streams
+// ---------------------------------------------------------------------------
+
+/**
+ * Client errors other than 429 and malformed records will not go away by
+ * reconnecting.
+ */
+function isFatal(err: Error): boolean {
+  if (err instanceof SyntaxError || err instanceof InvalidRecordError) return true;
+  return err instanceof HorizonError && err.status >= 400 && err.status < 500 &&
+    err.status !== 429;
+}
+
+/**
+ * Open an SSE stream consumed as an `AsyncIterable`. Failed or idle
+ * connections are retried with exponential backoff and jitter. Each
+ * reconnect resumes after the `paging_token` of the last record buffered,
+ * falling back to the SSE `id` for records without one; records still
+ * buffered are kept, so none is delivered twice. Only the overflow policies
+ * skip records: `'drop-oldest'` discards buffered ones, and records
+ * `'drop-newest'` discards before a later one is buffered are lost. Horizon's
+ * `"hello"` and `"byebye"` messages are not delivered. `check`, when given,
+ * is applied to each record; a record it rejects ends the stream.
+ */
+export function recordStream<T>(
+  baseUrl: string,
+  path: string,
+  params: Record<string, string>,
+  headers: Record<string, string>,
+  opts: RecordStreamOptions = {},
+  check?: (raw: unknown) => T,
+): RecordStream<T> {
+  const initialBackoff = opts.initialBackoff ?? DEFAULT_RETRY_MS;
+  const maxBackoff = opts.maxBackoff ?? DEFAULT_MAX_BACKOFF_MS;
+  const maxRetries = opts.maxRetries ?? Infinity;
+  const idleTimeout = opts.idleTimeout ?? DEFAULT_IDLE_TIMEOUT_MS;
+  const bufferSize = opts.bufferSize ?? DEFAULT_BUFFER_SIZE;
+  const overflow = opts.overflow ?? 'block';
+
+  const buffer: T[] = [];
+  let cursor = opts.cursor;
+  let retryHint: number | undefined;
+  let failures = 0;
+  let closed = false;
+  let failure: unknown;
+  let connection: AbortController | undefined;
+  let wakeConsumer: (() => void) | undefined;
+  let wakeOnSpace: (() => void) | undefined;
+  let wakeOnClose: (() => void) | undefined;
+
+  function wake(): void {
+    wakeConsumer?.();
+    wakeOnSpace?.();
+    wakeOnClose?.();
+  }
+
+  function close(): void {
+    if (closed) return;
+    closed = true;
+    connection?.abort();
+    opts.signal?.removeEventListener('abort', abort);
+    wake();
+  }
+
+  function fail(err: unknown): void {
+    if (!closed) failure = err;
+    close();
+  }
+
+  function abort(): void {
+    buffer.length = 0;
+    fail(opts.signal!.reason);
+  }
+
+  function emit(event: StreamLifecycleEvent): void {
+    opts.onLifecycle?.(event);
+  }
+
+  /** Sleep for `ms`, waking early only on close. */
+  function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      wakeOnClose = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  /** Resolve once the consumer has taken a record, or on close. */
+  function space(): Promise<void> {
+    return new Promise((resolve) => {
+      wakeOnSpace = resolve;
+    });
+  }
+
+  /** Buffer `record` under the overflow policy; `'stop'` ends reading. */
+  async function enqueue(record: T): Promise<'buffered' | 'dropped' | 'stop'> {
+    if (buffer.length >= bufferSize) {
+      switch (overflow) {
+        case 'block':
+          while (buffer.length >= bufferSize && !closed) await space();
+          break;
+        case 'drop-oldest':
+          buffer.shift();
+          break;
+        case 'drop-newest':
+          return 'dropped';
+        case 'error':
+          fail(new StreamOverflowError(bufferSize));
+          return 'stop';
+      }
+    }
+    if (closed) return 'stop';
+    buffer.push(record);
+    wakeConsumer?.();
+    return 'buffered';
+  }
+
+  async function readConnection(): Promise<void> {
+    const url = new URL(path, baseUrl);
+    for (const [k, v] of Object.entries(params)) {
+      if (v !== undefined) url.searchParams.set(k, v);
+    }
+    if (cursor) url.searchParams.set('cursor', cursor);
+
+    const controller = new AbortController();
+    connection = controller;
+    let idle = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const arm = () => {
+      timer = setTimeout(() => {
+        idle = true;
+        controller.abort();
+      }, idleTimeout);
+    };
+
+    try {
+      arm();
+      const res = await fetch(url.toString(), {
+        method: 'GET',
+        headers: { Accept: 'text/event-stream', ...headers },
+        signal: controller.signal,
+      });
+      clearTimeout(timer);
+      if (!res.ok) {
+        throw new HorizonError(res.status, `HTTP ${res.status}: ${res.statusText}`);
+      }
+      if (!res.body) throw new Error('SSE response has no body');
+      emit({ type: 'connected', cursor });
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let text = '';
+      for (;;) {
+        arm();
+        const { done, value } = await reader.read();
+        clearTimeout(timer);
+        if (done || closed) return;
+        text += value;
+        const [events, remainder] = parseSSE(text);
+        text = remainder;
+        for (const event of events) {
+          failures = 0;
+          if (event.retry !== undefined) retryHint = event.retry;
+          const data: unknown = JSON.parse(event.data);
+          // Horizon greets with "hello" and signs off with "byebye".
+          if (typeof data !== 'object' || data === null) continue;
+          const queued = await enqueue(check ? check(data) : (data as T));
+          if (queued === 'stop') return;
+          // A reconnect fetches records dropped since the last buffered one again.
+          if (queued === 'dropped') continue;
+          const token = (data as { paging_token?: unknown }).paging_token;
+          cursor = typeof token === 'string' ? token : (event.id ?? cursor);
+        }
+      }
+    } catch (err) {
+      if (idle) throw new Error(`No data received for ${idleTimeout} ms`);
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      controller.abort();
+    }
+  }
+
+  async function run(): Promise<void> {
+    while (!closed) {
+      let error: Error | undefined;
+      try {
+        await readConnection();
+      } catch (err) {
+        error = err instanceof Error ? err : new Error(String(err));
+      }
+      if (closed) return;
+      if (error) {
+        failures++;
+        if (isFatal(error) || failures > maxRetries) {
+          emit({ type: 'gave-up', failures, error });
+          fail(error);
+          return;
+        }
+      }
+      const backoff = (retryHint ?? initialBackoff) * 2 ** Math.max(failures - 1, 0);
+      const base = Math.min(backoff, maxBackoff);
+      const delay = Math.round(base / 2 + (Math.random() * base) / 2);
+      emit({ type: 'reconnecting', failures, delay, error });
+      await wait(delay);
+    }
+  }
+
+  async function* consume(): AsyncGenerator<T, void, undefined> {
+    try {
+      for (;;) {
+        if (buffer.length > 0) {
+          const record = buffer.shift()!;
+          wakeOnSpace?.();
+          yield record;
+        } else if (closed) {
+          if (failure !== undefined) throw failure;
+          return;
+        } else {
+          await new Promise<void>((resolve) => {
+            wakeConsumer = resolve;
+          });
+        }
+      }
+    } finally {
+      close();
+    }
+  }
+
+  if (opts.signal?.aborted) {
+    failure = opts.signal.reason;
+    closed = true;
+  } else {
+    opts.signal?.addEventListener('abort', abort, { once: true });
+    run().catch(fail);
+  }
+
+  const records = consume();
+  return {
+    close,
+    [Symbol.asyncIterator]: () => records,
+  };
+}
@@ -5,6 +5,8 @@ export async function httpGet<T>(
   path: string,
   params?: Record<string, string>,
   headers?: Record<string, string>,
+  onHeaders?: (headers: Headers) => void,
+  signal?: AbortSignal,
 ): Promise<T> {
   const url = new URL(path, baseUrl);
   if (params) {
@@ -15,7 +17,9 @@ export async function httpGet<T>(
   const res = await fetch(url.toString(), {
     method: 'GET',
     headers: { Accept: 'application/json', ...headers },
+    signal,
   });
+  onHeaders?.(res.headers);
   if (!res.ok) {
     let body: HorizonErrorBody | undefined;
     try {
@@ -33,6 +37,7 @@ export async function httpPost<T>(
   path: string,
   formBody: string,
   headers?: Record<string, string>,
+  onHeaders?: (headers: Headers) => void,
 ): Promise<T> {
   const url = new URL(path, baseUrl);
   const res = await fetch(url.toString(), {
@@ -44,6 +49,7 @@ export async function httpPost<T>(
     },
     body: formBody,
   });
+  onHeaders?.(res.headers);
   if (!res.ok) {
     let body: HorizonErrorBody | undefined;
     try {
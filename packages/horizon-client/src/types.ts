@@ -1,3 +1,11 @@
+import type {
+  InnerTransactionResult,
+  LedgerEntryChanges,
+  TransactionEnvelope,
+  TransactionMeta,
+  TransactionResult,
+  TransactionResultSummary,
+} from '@stellar/xdr';
 import type { AssetId } from './assets.js';
 
 // ---------------------------------------------------------------------------
@@ -8,6 +16,10 @@ export interface PageParams {
   cursor?: string;
   limit?: number;
   order?: 'asc' | 'desc';
+  /** Aborts the request. Not sent to Horizon. */
+  signal?: AbortSignal;
+  /** Receives the response headers, including those of error responses. Not sent to Horizon. */
+  onHeaders?: (headers: Headers) => void;
 }
 
 export interface Page<T> {
@@ -16,6 +28,39 @@ export interface Page<T> {
   prev?: string;
 }
 
+/**
+ * A page that can fetch its neighbours. `next()` and `prev()` resolve to
+ * `null` when Horizon returned no link; past the last record Horizon still
+ * links to a further, empty page. As with Horizon's own `prev` link, the
+ * previous page is fetched in reverse order.
+ */
+export interface CollectionPage<T> {
+  records: T[];
+  nextCursor?: string;
+  prevCursor?: string;
+  next(): Promise<CollectionPage<T> | null>;
+  prev(): Promise<CollectionPage<T> | null>;
+}
+
+export interface PaginateOptions {
+  /** Stop after yielding this many records. */
+  maxRecords?: number;
+  /**
+   * Pause before the next request until the rate limit window resets once
+   * `X-RateLimit-Remaining` drops to this many requests. Defaults to 0.
+   */
+  rateLimitReserve?: number;
+  signal?: AbortSignal;
+}
+
+/** Rate limit state from the `X-RateLimit-*` headers of the last response. */
+export interface RateLimit {
+  limit: number;
+  remaining: number;
+  /** When the current window resets, in milliseconds since the epoch. */
+  resetAt: number;
+}
+
 // ---------------------------------------------------------------------------
 // Common sub-types
 // ---------------------------------------------------------------------------
@@ -207,6 +252,29 @@ export interface TransactionRecord {
   paging_token: string;
 }
 
+/** The transaction a fee bump wraps. */
+export interface DecodedInnerTransaction {
+  /** Hex hash, from the fee bump's result. */
+  hash: string;
+  envelope: TransactionEnvelope;
+  result: InnerTransactionResult;
+}
+
+/**
+ * A `TransactionRecord` with its XDR fields decoded on first access. The
+ * decoded fields are not enumerable, so spreading or serializing the record
+ * yields the plain Horizon fields.
+ */
+export interface DecodedTransactionRecord extends TransactionRecord {
+  readonly envelope: TransactionEnvelope;
+  readonly result: TransactionResult;
+  /** `null` when Horizon omits `result_meta_xdr`. */
+  readonly resultMeta: TransactionMeta | null;
+  readonly feeMeta: LedgerEntryChanges;
+  /** `null` unless the transaction is a fee bump. */
+  readonly innerTransaction: DecodedInnerTransaction | null;
+}
+
 // ---------------------------------------------------------------------------
 // Operation
 // ---------------------------------------------------------------------------
@@ -240,32 +308,609 @@ export type OperationType =
   | 'extend_footprint_ttl'
   | 'restore_footprint';
 
-export interface OperationRecord {
+/** An asset as Horizon spells it out in flat `asset_*` fields. */
+export interface AssetFields {
+  asset_type: AssetType;
+  asset_code?: string;
+  asset_issuer?: string;
+}
+
+/** An amount of an asset given in canonical `code:issuer` form (or `native`). */
+export interface AssetAmount {
+  asset: string;
+  amount: string;
+}
+
+interface BaseOperationRecord {
   id: string;
   paging_token: string;
   source_account: string;
-  type: OperationType;
+  source_account_muxed?: string;
+  source_account_muxed_id?: string;
   type_i: number;
   created_at: string;
   transaction_hash: string;
   transaction_successful: boolean;
-  [key: string]: any;
+  sponsor?: string;
+}
+
+export interface CreateAccountOperationRecord extends BaseOperationRecord {
+  type: 'create_account';
+  starting_balance: string;
+  funder: string;
+  funder_muxed?: string;
+  funder_muxed_id?: string;
+  account: string;
+}
+
+export interface PaymentOperationRecord extends BaseOperationRecord, AssetFields {
+  type: 'payment';
+  from: string;
+  from_muxed?: string;
+  from_muxed_id?: string;
+  to: string;
+  to_muxed?: string;
+  to_muxed_id?: string;
+  amount: string;
+}
+
+interface BasePathPaymentOperationRecord extends BaseOperationRecord, AssetFields {
+  from: string;
+  from_muxed?: string;
+  from_muxed_id?: string;
+  to: string;
+  to_muxed?: string;
+  to_muxed_id?: string;
+  /** Amount received, in the destination asset (`asset_*`). */
+  amount: string;
+  source_amount: string;
+  source_asset_type: AssetType;
+  source_asset_code?: string;
+  source_asset_issuer?: string;
+  path: OfferAssetInfo[];
+}
+
+export interface PathPaymentStrictReceiveOperationRecord extends BasePathPaymentOperationRecord {
+  type: 'path_payment_strict_receive';
+  source_max: string;
+}
+
+export interface PathPaymentStrictSendOperationRecord extends BasePathPaymentOperationRecord {
+  type: 'path_payment_strict_send';
+  destination_min: string;
+}
+
+interface BaseOfferOperationRecord extends BaseOperationRecord {
+  amount: string;
+  price: string;
+  price_r: PriceR;
+  buying_asset_type: AssetType;
+  buying_asset_code?: string;
+  buying_asset_issuer?: string;
+  selling_asset_type: AssetType;
+  selling_asset_code?: string;
+  selling_asset_issuer?: string;
+}
+
+export interface CreatePassiveSellOfferOperationRecord extends BaseOfferOperationRecord {
+  type: 'create_passive_sell_offer';
+}
+
+export interface ManageOfferOperationRecord extends BaseOfferOperationRecord {
+  type: 'manage_sell_offer' | 'manage_buy_offer';
+  /** `"0"` when the operation created a new offer. */
+  offer_id: string;
+}
+
+export interface SetOptionsOperationRecord extends BaseOperationRecord {
+  type: 'set_options';
+  home_domain?: string;
+  inflation_dest?: string;
+  master_key_weight?: number;
+  signer_key?: string;
+  signer_weight?: number;
+  set_flags?: number[];
+  set_flags_s?: string[];
+  clear_flags?: number[];
+  clear_flags_s?: string[];
+  low_threshold?: number;
+  med_threshold?: number;
+  high_threshold?: number;
+}
+
+export interface ChangeTrustOperationRecord extends BaseOperationRecord, AssetFields {
+  type: 'change_trust';
+  liquidity_pool_id?: string;
+  limit: string;
+  trustee?: string;
+  trustor: string;
+  trustor_muxed?: string;
+  trustor_muxed_id?: string;
+}
+
+export interface AllowTrustOperationRecord extends BaseOperationRecord, AssetFields {
+  type: 'allow_trust';
+  trustee: string;
+  trustee_muxed?: string;
+  trustee_muxed_id?: string;
+  trustor: string;
+  authorize: boolean;
+  authorize_to_maintain_liabilities: boolean;
+}
+
+export interface AccountMergeOperationRecord extends BaseOperationRecord {
+  type: 'account_merge';
+  account: string;
+  account_muxed?: string;
+  account_muxed_id?: string;
+  into: string;
+  into_muxed?: string;
+  into_muxed_id?: string;
+}
+
+export interface InflationOperationRecord extends BaseOperationRecord {
+  type: 'inflation';
+}
+
+export interface ManageDataOperationRecord extends BaseOperationRecord {
+  type: 'manage_data';
+  name: string;
+  /** Base64 value; empty when the entry was removed. */
+  value: string;
+}
+
+export interface BumpSequenceOperationRecord extends BaseOperationRecord {
+  type: 'bump_sequence';
+  bump_to: string;
+}
+
+export interface CreateClaimableBalanceOperationRecord extends BaseOperationRecord {
+  type: 'create_claimable_balance';
+  asset: string;
+  amount: string;
+  claimants: Claimant[];
+}
+
+export interface ClaimClaimableBalanceOperationRecord extends BaseOperationRecord {
+  type: 'claim_claimable_balance';
+  balance_id: string;
+  claimant: string;
+  claimant_muxed?: string;
+  claimant_muxed_id?: string;
+}
+
+export interface BeginSponsoringFutureReservesOperationRecord extends BaseOperationRecord {
+  type: 'begin_sponsoring_future_reserves';
+  sponsored_id: string;
+}
+
+export interface EndSponsoringFutureReservesOperationRecord extends BaseOperationRecord {
+  type: 'end_sponsoring_future_reserves';
+  begin_sponsor: string;
+  begin_sponsor_muxed?: string;
+  begin_sponsor_muxed_id?: string;
+}
+
+/** Exactly one group of fields is set, naming the entry whose sponsorship was revoked. */
+export interface RevokeSponsorshipOperationRecord extends BaseOperationRecord {
+  type: 'revoke_sponsorship';
+  account_id?: string;
+  claimable_balance_id?: string;
+  data_account_id?: string;
+  data_name?: string;
+  offer_id?: string;
+  trustline_account_id?: string;
+  trustline_asset?: string;
+  trustline_liquidity_pool_id?: string;
+  signer_account_id?: string;
+  signer_key?: string;
+}
+
+export interface ClawbackOperationRecord extends BaseOperationRecord, AssetFields {
+  type: 'clawback';
+  from: string;
+  from_muxed?: string;
+  from_muxed_id?: string;
+  amount: string;
+}
+
+export interface ClawbackClaimableBalanceOperationRecord extends BaseOperationRecord {
+  type: 'clawback_claimable_balance';
+  balance_id: string;
+}
+
+export interface SetTrustLineFlagsOperationRecord extends BaseOperationRecord, AssetFields {
+  type: 'set_trust_line_flags';
+  trustor: string;
+  set_flags?: number[];
+  set_flags_s?: string[];
+  clear_flags?: number[];
+  clear_flags_s?: string[];
 }
 
+export interface LiquidityPoolDepositOperationRecord extends BaseOperationRecord {
+  type: 'liquidity_pool_deposit';
+  liquidity_pool_id: string;
+  reserves_max: AssetAmount[];
+  min_price: string;
+  min_price_r: PriceR;
+  max_price: string;
+  max_price_r: PriceR;
+  reserves_deposited: AssetAmount[];
+  shares_received: string;
+}
+
+export interface LiquidityPoolWithdrawOperationRecord extends BaseOperationRecord {
+  type: 'liquidity_pool_withdraw';
+  liquidity_pool_id: string;
+  reserves_min: AssetAmount[];
+  shares: string;
+  reserves_received: AssetAmount[];
+}
+
+export interface HostFunctionParameter {
+  value: string;
+  type: string;
+}
+
+export interface AssetBalanceChange extends AssetFields {
+  type: 'transfer' | 'mint' | 'clawback' | 'burn';
+  from?: string;
+  to?: string;
+  amount: string;
+  destination_muxed_id?: string;
+}
+
+export interface InvokeHostFunctionOperationRecord extends BaseOperationRecord {
+  type: 'invoke_host_function';
+  function: string;
+  parameters?: HostFunctionParameter[];
+  address: string;
+  salt: string;
+  asset_balance_changes?: AssetBalanceChange[];
+}
+
+export interface ExtendFootprintTtlOperationRecord extends BaseOperationRecord {
+  type: 'extend_footprint_ttl';
+  extend_to: number;
+}
+
+export interface RestoreFootprintOperationRecord extends BaseOperationRecord {
+  type: 'restore_footprint';
+}
+
+/** An operation, discriminated on `type`. */
+export type OperationRecord =
+  | CreateAccountOperationRecord
+  | PaymentOperationRecord
+  | PathPaymentStrictReceiveOperationRecord
+  | PathPaymentStrictSendOperationRecord
+  | CreatePassiveSellOfferOperationRecord
+  | ManageOfferOperationRecord
+  | SetOptionsOperationRecord
+  | ChangeTrustOperationRecord
+  | AllowTrustOperationRecord
+  | AccountMergeOperationRecord
+  | InflationOperationRecord
+  | ManageDataOperationRecord
+  | BumpSequenceOperationRecord
+  | CreateClaimableBalanceOperationRecord
+  | ClaimClaimableBalanceOperationRecord
+  | BeginSponsoringFutureReservesOperationRecord
+  | EndSponsoringFutureReservesOperationRecord
+  | RevokeSponsorshipOperationRecord
+  | ClawbackOperationRecord
+  | ClawbackClaimableBalanceOperationRecord
+  | SetTrustLineFlagsOperationRecord
+  | LiquidityPoolDepositOperationRecord
+  | LiquidityPoolWithdrawOperationRecord
+  | InvokeHostFunctionOperationRecord
+  | ExtendFootprintTtlOperationRecord
+  | RestoreFootprintOperationRecord;
+
 // ---------------------------------------------------------------------------
 // Effect
 // ---------------------------------------------------------------------------
 
-export interface EffectRecord {
+export type EffectType =
+  | 'account_created'
+  | 'account_removed'
+  | 'account_credited'
+  | 'account_debited'
+  | 'account_thresholds_updated'
+  | 'account_home_domain_updated'
+  | 'account_flags_updated'
+  | 'account_inflation_destination_updated'
+  | 'signer_created'
+  | 'signer_removed'
+  | 'signer_updated'
+  | 'trustline_created'
+  | 'trustline_removed'
+  | 'trustline_updated'
+  | 'trustline_authorized'
+  | 'trustline_deauthorized'
+  | 'trustline_authorized_to_maintain_liabilities'
+  | 'trustline_flags_updated'
+  | 'offer_created'
+  | 'offer_removed'
+  | 'offer_updated'
+  | 'trade'
+  | 'data_created'
+  | 'data_removed'
+  | 'data_updated'
+  | 'sequence_bumped'
+  | 'claimable_balance_created'
+  | 'claimable_balance_claimant_created'
+  | 'claimable_balance_claimed'
+  | 'account_sponsorship_created'
+  | 'account_sponsorship_updated'
+  | 'account_sponsorship_removed'
+  | 'trustline_sponsorship_created'
+  | 'trustline_sponsorship_updated'
+  | 'trustline_sponsorship_removed'
+  | 'data_sponsorship_created'
+  | 'data_sponsorship_updated'
+  | 'data_sponsorship_removed'
+  | 'claimable_balance_sponsorship_created'
+  | 'claimable_balance_sponsorship_updated'
+  | 'claimable_balance_sponsorship_removed'
+  | 'signer_sponsorship_created'
+  | 'signer_sponsorship_updated'
+  | 'signer_sponsorship_removed'
+  | 'claimable_balance_clawed_back'
+  | 'liquidity_pool_deposited'
+  | 'liquidity_pool_withdrew'
+  | 'liquidity_pool_trade'
+  | 'liquidity_pool_created'
+  | 'liquidity_pool_removed'
+  | 'liquidity_pool_revoked'
+  | 'contract_credited'
+  | 'contract_debited';
+
+interface BaseEffectRecord {
   id: string;
   paging_token: string;
   account: string;
-  type: string;
+  account_muxed?: string;
+  account_muxed_id?: string;
   type_i: number;
   created_at: string;
-  [key: string]: any;
 }
 
+export interface AccountCreatedEffectRecord extends BaseEffectRecord {
+  type: 'account_created';
+  starting_balance: string;
+}
+
+export interface AccountBalanceEffectRecord extends BaseEffectRecord, AssetFields {
+  type: 'account_credited' | 'account_debited';
+  amount: string;
+}
+
+export interface AccountThresholdsUpdatedEffectRecord extends BaseEffectRecord {
+  type: 'account_thresholds_updated';
+  low_threshold: number;
+  med_threshold: number;
+  high_threshold: number;
+}
+
+export interface AccountHomeDomainUpdatedEffectRecord extends BaseEffectRecord {
+  type: 'account_home_domain_updated';
+  home_domain: string;
+}
+
+/** Only the flags that changed are present. */
+export interface AccountFlagsUpdatedEffectRecord extends BaseEffectRecord {
+  type: 'account_flags_updated';
+  auth_required_flag?: boolean;
+  auth_revokable_flag?: boolean;
+  auth_immutable_flag?: boolean;
+  auth_clawback_enabled_flag?: boolean;
+}
+
+export interface SignerEffectRecord extends BaseEffectRecord {
+  type: 'signer_created' | 'signer_removed' | 'signer_updated';
+  weight: number;
+  key: string;
+  public_key: string;
+}
+
+export interface TrustlineEffectRecord extends BaseEffectRecord, AssetFields {
+  type: 'trustline_created' | 'trustline_removed' | 'trustline_updated';
+  liquidity_pool_id?: string;
+  limit: string;
+}
+
+/** Deprecated authorization effects; the issuer is `account`. */
+export interface TrustlineAuthorizationEffectRecord extends BaseEffectRecord {
+  type:
+    | 'trustline_authorized'
+    | 'trustline_deauthorized'
+    | 'trustline_authorized_to_maintain_liabilities';
+  trustor: string;
+  asset_type: AssetType;
+  asset_code: string;
+}
+
+/** Only the flags that changed are present. Horizon misspells `liabilites`. */
+export interface TrustlineFlagsUpdatedEffectRecord extends BaseEffectRecord, AssetFields {
+  type: 'trustline_flags_updated';
+  trustor: string;
+  authorized_flag?: boolean;
+  authorized_to_maintain_liabilites_flag?: boolean;
+  clawback_enabled_flag?: boolean;
+}
+
+export interface TradeEffectRecord extends BaseEffectRecord {
+  type: 'trade';
+  seller: string;
+  seller_muxed?: string;
+  seller_muxed_id?: string;
+  offer_id: string;
+  sold_amount: string;
+  sold_asset_type: AssetType;
+  sold_asset_code?: string;
+  sold_asset_issuer?: string;
+  bought_amount: string;
+  bought_asset_type: AssetType;
+  bought_asset_code?: string;
+  bought_asset_issuer?: string;
+}
+
+export interface DataEffectRecord extends BaseEffectRecord {
+  type: 'data_created' | 'data_updated';
+  name: string;
+  /** Base64 value. */
+  value: string;
+}
+
+export interface DataRemovedEffectRecord extends BaseEffectRecord {
+  type: 'data_removed';
+  name: string;
+}
+
+export interface SequenceBumpedEffectRecord extends BaseEffectRecord {
+  type: 'sequence_bumped';
+  new_seq: string;
+}
+
+export interface ClaimableBalanceEffectRecord extends BaseEffectRecord {
+  type: 'claimable_balance_created' | 'claimable_balance_claimed';
+  asset: string;
+  balance_id: string;
+  amount: string;
+}
+
+export interface ClaimableBalanceClaimantCreatedEffectRecord extends BaseEffectRecord {
+  type: 'claimable_balance_claimant_created';
+  asset: string;
+  balance_id: string;
+  amount: string;
+  predicate: ClaimantPredicate;
+}
+
+export interface ClaimableBalanceClawedBackEffectRecord extends BaseEffectRecord {
+  type: 'claimable_balance_clawed_back';
+  balance_id: string;
+}
+
+/**
+ * The created, updated and removed sponsorship effects for one kind of
+ * ledger entry, each with the entry's identifying `fields`.
+ */
+type SponsorshipEffectRecords<Kind extends string, Fields> =
+  | (BaseEffectRecord & Fields & { type: `${Kind}_sponsorship_created`; sponsor: string })
+  | (BaseEffectRecord &
+      Fields & { type: `${Kind}_sponsorship_updated`; new_sponsor: string; former_sponsor: string })
+  | (BaseEffectRecord & Fields & { type: `${Kind}_sponsorship_removed`; former_sponsor: string });
+
+export type AccountSponsorshipEffectRecord = SponsorshipEffectRecords<'account', {}>;
+export type TrustlineSponsorshipEffectRecord = SponsorshipEffectRecords<
+  'trustline',
+  { asset?: string; liquidity_pool_id?: string }
+>;
+export type DataSponsorshipEffectRecord = SponsorshipEffectRecords<'data', { data_name: string }>;
+export type ClaimableBalanceSponsorshipEffectRecord = SponsorshipEffectRecords<
+  'claimable_balance',
+  { balance_id: string }
+>;
+export type SignerSponsorshipEffectRecord = SponsorshipEffectRecords<'signer', { signer: string }>;
+
+export interface LiquidityPoolEffectInfo {
+  id: string;
+  fee_bp: number;
+  type: string;
+  total_trustlines: string;
+  total_shares: string;
+  reserves: AssetAmount[];
+}
+
+export interface LiquidityPoolDepositedEffectRecord extends BaseEffectRecord {
+  type: 'liquidity_pool_deposited';
+  liquidity_pool: LiquidityPoolEffectInfo;
+  reserves_deposited: AssetAmount[];
+  shares_received: string;
+}
+
+export interface LiquidityPoolWithdrewEffectRecord extends BaseEffectRecord {
+  type: 'liquidity_pool_withdrew';
+  liquidity_pool: LiquidityPoolEffectInfo;
+  reserves_received: AssetAmount[];
+  shares_redeemed: string;
+}
+
+export interface LiquidityPoolTradeEffectRecord extends BaseEffectRecord {
+  type: 'liquidity_pool_trade';
+  liquidity_pool: LiquidityPoolEffectInfo;
+  sold: AssetAmount;
+  bought: AssetAmount;
+}
+
+export interface LiquidityPoolCreatedEffectRecord extends BaseEffectRecord {
+  type: 'liquidity_pool_created';
+  liquidity_pool: LiquidityPoolEffectInfo;
+}
+
+export interface LiquidityPoolRemovedEffectRecord extends BaseEffectRecord {
+  type: 'liquidity_pool_removed';
+  liquidity_pool_id: string;
+}
+
+export interface LiquidityPoolRevokedEffectRecord extends BaseEffectRecord {
+  type: 'liquidity_pool_revoked';
+  liquidity_pool: LiquidityPoolEffectInfo;
+  reserves_revoked: (AssetAmount & { claimable_balance_id: string })[];
+  shares_revoked: string;
+}
+
+export interface ContractBalanceEffectRecord extends BaseEffectRecord, AssetFields {
+  type: 'contract_credited' | 'contract_debited';
+  contract: string;
+  amount: string;
+}
+
+/** Effects that carry no fields beyond the common ones. */
+export interface PlainEffectRecord extends BaseEffectRecord {
+  type:
+    | 'account_removed'
+    | 'account_inflation_destination_updated'
+    | 'offer_created'
+    | 'offer_removed'
+    | 'offer_updated';
+}
+
+/** An effect, discriminated on `type`. */
+export type EffectRecord =
+  | AccountCreatedEffectRecord
+  | AccountBalanceEffectRecord
+  | AccountThresholdsUpdatedEffectRecord
+  | AccountHomeDomainUpdatedEffectRecord
+  | AccountFlagsUpdatedEffectRecord
+  | SignerEffectRecord
+  | TrustlineEffectRecord
+  | TrustlineAuthorizationEffectRecord
+  | TrustlineFlagsUpdatedEffectRecord
+  | TradeEffectRecord
+  | DataEffectRecord
+  | DataRemovedEffectRecord
+  | SequenceBumpedEffectRecord
+  | ClaimableBalanceEffectRecord
+  | ClaimableBalanceClaimantCreatedEffectRecord
+  | ClaimableBalanceClawedBackEffectRecord
+  | AccountSponsorshipEffectRecord
+  | TrustlineSponsorshipEffectRecord
+  | DataSponsorshipEffectRecord
+  | ClaimableBalanceSponsorshipEffectRecord
+  | SignerSponsorshipEffectRecord
+  | LiquidityPoolDepositedEffectRecord
+  | LiquidityPoolWithdrewEffectRecord
+  | LiquidityPoolTradeEffectRecord
+  | LiquidityPoolCreatedEffectRecord
+  | LiquidityPoolRemovedEffectRecord
+  | LiquidityPoolRevokedEffectRecord
+  | ContractBalanceEffectRecord
+  | PlainEffectRecord;
+
 // ---------------------------------------------------------------------------
 // Offer
 // ---------------------------------------------------------------------------
@@ -503,6 +1148,36 @@ export interface SubmitAsyncTransactionResponse {
   error_result_xdr?: string;
 }
 
+interface SubmitOutcomeBase {
+  hash: string;
+  /** Number of times the envelope was posted. */
+  submissions: number;
+}
+
+export interface SubmitSuccess extends SubmitOutcomeBase {
+  status: 'SUCCESS';
+  ledger: number;
+  result: TransactionResult;
+  summary: TransactionResultSummary;
+}
+
+export interface SubmitFailure extends SubmitOutcomeBase {
+  status: 'FAILED';
+  /** `null` when the transaction was rejected before reaching a ledger. */
+  ledger: number | null;
+  /** `null` when Horizon reported only result codes. */
+  result: TransactionResult | null;
+  summary: TransactionResultSummary;
+}
+
+export interface SubmitTimeout extends SubmitOutcomeBase {
+  status: 'TIMEOUT';
+  /** The transaction's `maxTime` has passed, so it can no longer be applied. */
+  expired: boolean;
+}
+
+export type SubmitOutcome = SubmitSuccess | SubmitFailure | SubmitTimeout;
+
 // ---------------------------------------------------------------------------
 // Request param types
 // ---------------------------------------------------------------------------
@@ -602,3 +1277,41 @@ export interface StreamOptions<T> {
 export interface Stream {
   close(): void;
 }
+
+/**
+ * What a record stream does when its buffer is full: stop reading from the
+ * connection until the consumer catches up, discard the oldest or the newest
+ * record, or fail the stream. Discarded records are not fetched again, except
+ * newest records dropped after the last buffered one when the stream reconnects.
+ */
+export type StreamOverflow = 'block' | 'drop-oldest' | 'drop-newest' | 'error';
+
+/**
+ * `failures` counts consecutive failed connections; a `reconnecting` event
+ * without an `error` follows a connection the server closed.
+ */
+export type StreamLifecycleEvent =
+  | { type: 'connected'; cursor?: string }
+  | { type: 'reconnecting'; failures: number; delay: number; error?: Error }
+  | { type: 'gave-up'; failures: number; error: Error };
+
+export interface RecordStreamOptions {
+  cursor?: string;
+  /** First reconnect delay in ms, unless the server sent `retry:`. Defaults to 1000. */
+  initialBackoff?: number;
+  /** Upper bound for the reconnect delay in ms. Defaults to 60000. */
+  maxBackoff?: number;
+  /** Consecutive failed connections tolerated before giving up. Defaults to unlimited. */
+  maxRetries?: number;
+  /** Reconnect when nothing, not even a heartbeat, arrives for this many ms. Defaults to 30000. */
+  idleTimeout?: number;
+  /** Records held for the consumer. Defaults to 100. */
+  bufferSize?: number;
+  /** Defaults to `'block'`. */
+  overflow?: StreamOverflow;
+  onLifecycle?: (event: StreamLifecycleEvent) => void;
+  signal?: AbortSignal;
+}
+
+/** An SSE stream consumed with `for await`; breaking out of the loop closes it. */
+export interface RecordStream<T> extends Stream, AsyncIterable<T> {}
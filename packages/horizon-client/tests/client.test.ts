@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { HorizonClient } from '../src/client.js';
-import { HorizonError } from '../src/errors.js';
+import { HorizonError, TransactionRejectedError } from '../src/errors.js';
+import { TransactionEnvelope, TransactionFailedError, TransactionResult } from '@stellar/xdr';
 
 const originalFetch = globalThis.fetch;
 
@@ -36,6 +37,7 @@ function mockFetch(body: unknown) {
     ok: true,
     status: 200,
     statusText: 'OK',
+    headers: new Headers(),
     json: () => Promise.resolve(body),
   });
   globalThis.fetch = fn;
@@ -693,6 +695,20 @@ describe('getStrictSendPaths()', () => {
 // ---------------------------------------------------------------------------
 
 describe('submitTransaction()', () => {
+  const envelope = TransactionEnvelope.fromBase64(
+    'AAAAAGL8HQvQkbK2HA3WVjRrKmjX00fG8sLI7m0ERwJW/AX3AAAAZAABY0gAAAAIAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAArqN6LeOagjxMaUP96Bzfs9e0corNZXzBWJkFoK7kvkwAAAAAO5rKAAAAAAAAAAABVvwF9wAAAEDzfR5PgRFim5Wcu+ZJ5X1e5lorrnWiRevXsb8s0lfuGuEhikjCzCUGNunvbnIMLkMKEuZYOr1pMhFh/wBSm2oJ',
+  );
+
+  function mockFailure(extras: Record<string, unknown>) {
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+      headers: new Headers(),
+      json: () => Promise.resolve({ type: 'transaction_failed', extras }),
+    });
+  }
+
   it('posts to /transactions with encoded XDR', async () => {
     const fn = mockFetch({ hash: 'txhash', ledger: 100, successful: true });
     const client = new HorizonClient('https://horizon.stellar.org');
@@ -714,6 +730,41 @@ describe('submitTransaction()', () => {
     expect(opts.method).toBe('POST');
     expect(opts.body).toContain('tx=');
   });
+
+  it('throws TransactionFailedError from result codes', async () => {
+    mockFailure({
+      hash: 'txhash',
+      result_codes: { transaction: 'tx_failed', operations: ['op_low_reserve'] },
+    });
+    const client = new HorizonClient('https://horizon.stellar.org');
+
+    const err = await client.submitTransaction(envelope).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(TransactionFailedError);
+    const failure = err as TransactionFailedError;
+    expect(failure.hash).toBe('txhash');
+    expect(failure.result.txCode).toBe('TxFAILED');
+    expect(failure.result.opCodes).toEqual([
+      { index: 0, type: 'CreateAccount', code: 'LowReserve', explanation: expect.any(String) },
+    ]);
+    expect(failure.cause).toBeInstanceOf(HorizonError);
+  });
+
+  it('prefers the result XDR over result codes', async () => {
+    mockFailure({
+      result_codes: { transaction: 'tx_bad_seq' },
+      result_xdr: TransactionResult.toBase64({ feeCharged: 100n, result: 'TxBADSeq', ext: '0' }),
+    });
+    const client = new HorizonClient('https://horizon.stellar.org');
+    await expect(client.submitTransaction(envelope)).rejects.toThrow(
+      "Transaction failed: TxBADSeq — The sequence number does not follow the source account's.",
+    );
+  });
+
+  it('rethrows other errors', async () => {
+    mockFailure({});
+    const client = new HorizonClient('https://horizon.stellar.org');
+    await expect(client.submitTransaction(envelope)).rejects.toBeInstanceOf(HorizonError);
+  });
 });
 
 describe('submitAsyncTransaction()', () => {
@@ -732,6 +783,187 @@ describe('submitAsyncTransaction()', () => {
   });
 });
 
+describe('submitAndWait()', () => {
+  const PASSPHRASE = 'Test SDF Network ; September 2015';
+  const v0 = TransactionEnvelope.fromBase64(
+    'AAAAAGL8HQvQkbK2HA3WVjRrKmjX00fG8sLI7m0ERwJW/AX3AAAAZAABY0gAAAAIAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAArqN6LeOagjxMaUP96Bzfs9e0corNZXzBWJkFoK7kvkwAAAAAO5rKAAAAAAAAAAABVvwF9wAAAEDzfR5PgRFim5Wcu+ZJ5X1e5lorrnWiRevXsb8s0lfuGuEhikjCzCUGNunvbnIMLkMKEuZYOr1pMhFh/wBSm2oJ',
+  ) as Extract<TransactionEnvelope, { TxV0: unknown }>;
+  const V0_HASH = '62701135f31a66f0f31598a16b80eb1a5f0ba3cc1574838d0582afdd6158e97b';
+  const MAX_TIME = 1_700_000_100;
+  const BOUNDED_HASH = 'fab969c8272962bf4009ecfd71cf3d9c65a657387b0e7314e4e6f38055687ced';
+  const bounded: TransactionEnvelope = {
+    Tx: {
+      tx: {
+        sourceAccount: { Ed25519: v0.TxV0.tx.sourceAccountEd25519 },
+        fee: v0.TxV0.tx.fee,
+        seqNum: v0.TxV0.tx.seqNum,
+        cond: { Time: { minTime: 0n, maxTime: BigInt(MAX_TIME) } },
+        memo: v0.TxV0.tx.memo,
+        operations: v0.TxV0.tx.operations,
+        ext: '0',
+      },
+      signatures: v0.TxV0.signatures,
+    },
+  };
+  const success = TransactionResult.toBase64({
+    feeCharged: 100n,
+    result: { TxSUCCESS: [{ OpINNER: { CreateAccount: 'Success' } }] },
+    ext: '0',
+  });
+  const failed = TransactionResult.toBase64({
+    feeCharged: 100n,
+    result: { TxFAILED: [{ OpINNER: { CreateAccount: 'LowReserve' } }] },
+    ext: '0',
+  });
+
+  /** Serve `responses` in order, recording each request as `METHOD /path`. */
+  function mockSequence(...responses: [status: number, body: unknown][]) {
+    const requests: string[] = [];
+    globalThis.fetch = vi.fn((url: string, init: RequestInit) => {
+      requests.push(`${init.method} ${new URL(url).pathname}`);
+      const [status, body] = responses.shift() ?? [500, {}];
+      return Promise.resolve({
+        ok: status < 300,
+        status,
+        statusText: String(status),
+        headers: new Headers(),
+        json: () => Promise.resolve(body),
+      });
+    }) as unknown as typeof fetch;
+    return requests;
+  }
+
+  const client = new HorizonClient('https://horizon.stellar.org');
+  const fast = { networkPassphrase: PASSPHRASE, pollInterval: 0 };
+
+  it('resubmits after a timeout until the transaction lands', async () => {
+    const requests = mockSequence(
+      [504, { type: 'timeout' }],
+      [404, { type: 'not_found' }],
+      [200, { hash: V0_HASH, ledger: 7, successful: true, result_xdr: success }],
+    );
+    const outcome = await client.submitAndWait(v0, fast);
+    expect(requests).toEqual([
+      'POST /transactions',
+      `GET /transactions/${V0_HASH}`,
+      'POST /transactions',
+    ]);
+    expect(outcome).toMatchObject({ status: 'SUCCESS', hash: V0_HASH, ledger: 7, submissions: 2 });
+    if (outcome.status !== 'SUCCESS') throw new Error('expected success');
+    expect(outcome.summary.opCodes[0]!.code).toBe('Success');
+  });
+
+  it('polls for a ledger close after maxTime before giving up', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime((MAX_TIME + 1) * 1000);
+    try {
+      const requests = mockSequence(
+        [200, { network_passphrase: PASSPHRASE }],
+        [504, { type: 'timeout' }],
+      );
+      const outcome = client.submitAndWait(bounded, { pollInterval: 1000 });
+      // Hashing is not timer driven; let it finish before moving the clock.
+      await vi.waitFor(() => expect(requests).toContain('POST /transactions'));
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(await outcome).toEqual({
+        status: 'TIMEOUT',
+        hash: BOUNDED_HASH,
+        submissions: 1,
+        expired: true,
+      });
+      expect(requests[0]).toBe('GET /');
+      expect(requests.filter((r) => r.startsWith('POST'))).toHaveLength(1);
+      // One lookup per second until maxTime plus one ledger close.
+      expect(requests.filter((r) => r === `GET /transactions/${BOUNDED_HASH}`)).toHaveLength(6);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('finds a transaction applied in the ledger closing after maxTime', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime((MAX_TIME + 1) * 1000);
+    try {
+      const requests = mockSequence(
+        [504, { type: 'timeout' }],
+        [404, { type: 'not_found' }],
+        [404, { type: 'not_found' }],
+        [200, { hash: BOUNDED_HASH, ledger: 8, successful: true, result_xdr: success }],
+      );
+      const outcome = client.submitAndWait(bounded, { ...fast, pollInterval: 1000 });
+      await vi.waitFor(() => expect(requests).toContain('POST /transactions'));
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(await outcome).toMatchObject({ status: 'SUCCESS', ledger: 8, submissions: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports a rejected submission with its result', async () => {
+    mockSequence(
+      [400, { extras: { result_codes: { transaction: 'tx_bad_seq' } } }],
+      [404, { type: 'not_found' }],
+    );
+    const outcome = await client.submitAndWait(v0, fast);
+    expect(outcome).toMatchObject({ status: 'FAILED', ledger: null, result: null });
+    if (outcome.status !== 'FAILED') throw new Error('expected failure');
+    expect(outcome.summary.txCode).toBe('TxBADSeq');
+  });
+
+  it('polls async submissions to a final status', async () => {
+    const requests = mockSequence(
+      [503, { hash: V0_HASH, tx_status: 'TRY_AGAIN_LATER' }],
+      [404, { type: 'not_found' }],
+      [201, { hash: V0_HASH, tx_status: 'PENDING' }],
+      [404, { type: 'not_found' }],
+      [200, { hash: V0_HASH, ledger: 9, successful: false, result_xdr: failed }],
+    );
+    const outcome = await client.submitAndWait(v0, { ...fast, async: true });
+    expect(requests.filter((r) => r.startsWith('POST'))).toEqual([
+      'POST /transactions_async',
+      'POST /transactions_async',
+    ]);
+    expect(outcome).toMatchObject({ status: 'FAILED', ledger: 9, submissions: 2 });
+    if (outcome.status !== 'FAILED') throw new Error('expected failure');
+    expect(outcome.summary.opCodes[0]!.code).toBe('LowReserve');
+  });
+
+  it('decodes async ERROR responses', async () => {
+    const error_result_xdr = TransactionResult.toBase64({
+      feeCharged: 100n,
+      result: 'TxINSUFFICIENTBalance',
+      ext: '0',
+    });
+    mockSequence([400, { hash: V0_HASH, tx_status: 'ERROR', error_result_xdr }]);
+    const outcome = await client.submitAndWait(v0, { ...fast, async: true });
+    expect(outcome).toMatchObject({ status: 'FAILED', ledger: null, submissions: 1 });
+    if (outcome.status !== 'FAILED') throw new Error('expected failure');
+    expect(outcome.summary.txCode).toBe('TxINSUFFICIENTBalance');
+  });
+
+  it('throws TransactionRejectedError for async ERROR responses without a result', async () => {
+    mockSequence([400, { hash: V0_HASH, tx_status: 'ERROR' }]);
+    const outcome = client.submitAndWait(v0, { ...fast, async: true });
+    await expect(outcome).rejects.toBeInstanceOf(TransactionRejectedError);
+    await expect(outcome).rejects.toMatchObject({ hash: V0_HASH });
+  });
+
+  it('rethrows async error bodies that are not submission responses', async () => {
+    mockSequence([400, { type: 'bad_request', title: 'Bad Request', hash: V0_HASH }]);
+    const problem = client.submitAndWait(v0, { ...fast, async: true });
+    await expect(problem).rejects.toBeInstanceOf(HorizonError);
+    await expect(problem).rejects.toMatchObject({ status: 400, type: 'bad_request' });
+
+    mockSequence([503, { hash: V0_HASH, tx_status: 'MAYBE' }]);
+    const unknown = client.submitAndWait(v0, { ...fast, async: true });
+    await expect(unknown).rejects.toMatchObject({ name: 'HorizonError', status: 503 });
+
+    mockSequence([400, { hash: 7, tx_status: 'ERROR' }]);
+    const badHash = client.submitAndWait(v0, { ...fast, async: true });
+    await expect(badHash).rejects.toMatchObject({ name: 'HorizonError', status: 400 });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Custom headers
 // ---------------------------------------------------------------------------
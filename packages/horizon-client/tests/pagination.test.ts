@@ -0,0 +1,293 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { HorizonClient } from '../src/client.js';
+import { credit, native } from '../src/assets.js';
+import { parseRateLimit, parseRetryAfter } from '../src/parsers.js';
+import type { LedgerRecord } from '../src/types.js';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ACCOUNT = 'GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7';
+
+interface MockResponse {
+  records?: { paging_token: string }[];
+  status?: number;
+  rateLimit?: [limit: number, remaining: number, reset: number];
+  retryAfter?: string;
+}
+
+function link(cursor: string, order = 'asc') {
+  return { href: `https://horizon.stellar.org/test?cursor=${cursor}&limit=2&order=${order}` };
+}
+
+/** Serve `responses` in order; each page links onwards from its last record. */
+function mockResponses(...responses: MockResponse[]) {
+  const fn = vi.fn();
+  for (const { records = [], status = 200, rateLimit, retryAfter } of responses) {
+    const last = records[records.length - 1]?.paging_token ?? 'end';
+    const first = records[0]?.paging_token ?? 'start';
+    const headers = new Headers();
+    if (rateLimit) {
+      headers.set('X-RateLimit-Limit', String(rateLimit[0]));
+      headers.set('X-RateLimit-Remaining', String(rateLimit[1]));
+      headers.set('X-RateLimit-Reset', String(rateLimit[2]));
+    }
+    if (retryAfter) headers.set('Retry-After', retryAfter);
+    const body = {
+      _links: { self: link(first), next: link(last), prev: link(first, 'desc') },
+      _embedded: { records },
+    };
+    fn.mockResolvedValueOnce({
+      ok: status === 200,
+      status,
+      statusText: status === 200 ? 'OK' : 'Too Many Requests',
+      headers,
+      json: () => Promise.resolve(status === 200 ? body : { status }),
+    });
+  }
+  globalThis.fetch = fn;
+  return fn;
+}
+
+function records(...tokens: string[]) {
+  return tokens.map((paging_token) => ({ paging_token }));
+}
+
+function cursorOf(fn: ReturnType<typeof vi.fn>, call: number): string | null {
+  return new URL(fn.mock.calls[call]![0] as string).searchParams.get('cursor');
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const value of iterable) result.push(value);
+  return result;
+}
+
+let client: HorizonClient;
+
+beforeEach(() => {
+  client = new HorizonClient('https://horizon.stellar.org');
+});
+
+// ---------------------------------------------------------------------------
+// Record iteration
+// ---------------------------------------------------------------------------
+
+describe('paginate()', () => {
+  it('follows next cursors until an empty page', async () => {
+    const fn = mockResponses({ records: records('1', '2') }, { records: records('3') }, {});
+    const payments = await collect(
+      client.paginate((p) => client.getAccountPayments(ACCOUNT, p), { limit: 2 }),
+    );
+    expect(payments.map((r) => r.paging_token)).toEqual(['1', '2', '3']);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(cursorOf(fn, 0)).toBeNull();
+    expect(cursorOf(fn, 1)).toBe('2');
+    expect(cursorOf(fn, 2)).toBe('3');
+    expect(new URL(fn.mock.calls[2]![0] as string).pathname).toBe(
+      `/accounts/${ACCOUNT}/payments`,
+    );
+  });
+
+  it('stops at maxRecords without fetching further pages', async () => {
+    const fn = mockResponses({ records: records('1', '2') }, { records: records('3', '4') });
+    const trades = await collect(client.iterateTrades({ limit: 2 }, { maxRecords: 3 }));
+    expect(trades.map((r) => r.paging_token)).toEqual(['1', '2', '3']);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for the rate limit window to reset', async () => {
+    vi.useFakeTimers();
+    const fn = mockResponses(
+      { records: records('1'), rateLimit: [3600, 0, 30] },
+      { records: records('2') },
+      {},
+    );
+    const effects = collect(client.iterateEffects());
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect((await effects).map((r) => r.paging_token)).toEqual(['1', '2']);
+    expect(client.rateLimit).toMatchObject({ limit: 3600, remaining: 0 });
+  });
+
+  it('retries once after a 429 response', async () => {
+    vi.useFakeTimers();
+    const fn = mockResponses(
+      { status: 429, rateLimit: [3600, 0, 5] },
+      { records: records('1') },
+      {},
+    );
+    const ledgers = collect(client.iterateLedgers());
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(await ledgers).toHaveLength(1);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(cursorOf(fn, 1)).toBeNull();
+  });
+
+  it('backs off after a 429 response without a rate limit window', async () => {
+    vi.useFakeTimers();
+    const fn = mockResponses({ status: 429 }, { records: records('1') }, {});
+    const ledgers = collect(client.iterateLedgers());
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await ledgers).toHaveLength(1);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries a 429 response after its Retry-After', async () => {
+    vi.useFakeTimers();
+    const fn = mockResponses(
+      { status: 429, rateLimit: [3600, 0, 1], retryAfter: '3' },
+      { records: records('1') },
+      {},
+    );
+    const ledgers = collect(client.iterateLedgers());
+    await vi.advanceTimersByTimeAsync(2_999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await ledgers).toHaveLength(1);
+  });
+
+  it('tracks the rate limit of its own responses only', async () => {
+    vi.useFakeTimers();
+    const fn = mockResponses(
+      { rateLimit: [3600, 0, 30] },
+      { records: records('1'), rateLimit: [3600, 5, 30] },
+      {},
+    );
+    await client.root();
+    expect(client.rateLimit).toMatchObject({ remaining: 0 });
+    const effects = collect(client.iterateEffects());
+    await vi.advanceTimersByTimeAsync(0);
+    expect((await effects).map((r) => r.paging_token)).toEqual(['1']);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(client.rateLimit).toMatchObject({ remaining: 5 });
+  });
+
+  it('stops when the signal aborts', async () => {
+    const fn = mockResponses({ records: records('1', '2') }, { records: records('3') });
+    const controller = new AbortController();
+    const seen: string[] = [];
+    const iteration = (async () => {
+      for await (const op of client.iterateOperations({}, { signal: controller.signal })) {
+        seen.push(op.paging_token);
+        controller.abort(new Error('stopped'));
+      }
+    })();
+    await expect(iteration).rejects.toThrow('stopped');
+    expect(seen).toEqual(['1']);
+    expect(fn.mock.calls[0]![1].signal).toBe(controller.signal);
+  });
+
+  it('pages trade aggregations by start time', async () => {
+    const HOUR = 3_600_000;
+    const START = 1_700_000_000_000;
+    const bucket = (i: number) => ({ timestamp: String(START + i * HOUR), trade_count: '1' });
+    // Horizon's next link moves start_time forward and has no cursor.
+    const page = (buckets: number[], nextStart: number) => ({
+      _links: {
+        self: { href: 'https://horizon.stellar.org/trade_aggregations?limit=2' },
+        next: {
+          href:
+            'https://horizon.stellar.org/trade_aggregations?base_asset_type=native' +
+            `&counter_asset_code=USDC&counter_asset_issuer=${ACCOUNT}` +
+            `&counter_asset_type=credit_alphanum4&end_time=${START + 3 * HOUR}&limit=2` +
+            `&order=asc&resolution=${HOUR}&start_time=${START + nextStart * HOUR}`,
+        },
+      },
+      _embedded: { records: buckets.map(bucket) },
+    });
+    const fn = vi.fn();
+    for (const body of [page([0, 1], 2), page([2], 3)]) {
+      fn.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers(),
+        json: () => Promise.resolve(body),
+      });
+    }
+    globalThis.fetch = fn;
+
+    const buckets = await collect(
+      client.iterateTradeAggregations({
+        base_asset: native(),
+        counter_asset: credit('USDC', ACCOUNT),
+        start_time: START,
+        end_time: START + 3 * HOUR,
+        resolution: HOUR,
+        limit: 2,
+      }),
+    );
+    expect(buckets.map((b) => b.timestamp)).toEqual([0, 1, 2].map((i) => bucket(i).timestamp));
+    // The range ends with the third bucket, so no empty page is fetched.
+    expect(fn).toHaveBeenCalledTimes(2);
+    const second = new URL(fn.mock.calls[1]![0] as string).searchParams;
+    expect(second.get('start_time')).toBe(String(START + 2 * HOUR));
+    expect(second.get('end_time')).toBe(String(START + 3 * HOUR));
+    expect(second.get('cursor')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Page navigation
+// ---------------------------------------------------------------------------
+
+describe('fetchPage()', () => {
+  it('fetches the next and previous pages', async () => {
+    const fn = mockResponses(
+      { records: records('1', '2') },
+      { records: records('3', '4') },
+      { records: records('2', '1') },
+    );
+    const page = await client.fetchPage((p) => client.getLedgers(p), { limit: 2 });
+    expect(page.nextCursor).toBe('2');
+
+    const next = await page.next();
+    expect(next?.records.map((r: LedgerRecord) => r.paging_token)).toEqual(['3', '4']);
+    expect(cursorOf(fn, 1)).toBe('2');
+
+    await next!.prev();
+    const prevUrl = new URL(fn.mock.calls[2]![0] as string);
+    expect(prevUrl.searchParams.get('cursor')).toBe('3');
+    expect(prevUrl.searchParams.get('order')).toBe('desc');
+    expect(prevUrl.searchParams.get('limit')).toBe('2');
+  });
+});
+
+describe('parseRateLimit', () => {
+  it('reads the X-RateLimit headers', () => {
+    const headers = new Headers({
+      'X-RateLimit-Limit': '3600',
+      'X-RateLimit-Remaining': '12',
+      'X-RateLimit-Reset': '60',
+    });
+    expect(parseRateLimit(headers, 1_000)).toEqual({
+      limit: 3600,
+      remaining: 12,
+      resetAt: 61_000,
+    });
+    headers.delete('X-RateLimit-Reset');
+    expect(parseRateLimit(headers)).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter(new Headers({ 'Retry-After': '5' }), 1_000)).toBe(6_000);
+    const date = 'Wed, 21 Oct 2015 07:28:00 GMT';
+    expect(parseRetryAfter(new Headers({ 'Retry-After': date }))).toBe(Date.parse(date));
+    expect(parseRetryAfter(new Headers({ 'Retry-After': 'soon' }))).toBeUndefined();
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { parsePage, stripLinks } from '../src/parsers.js';
+import {
+  LedgerEntryChanges,
+  TransactionEnvelope,
+  TransactionMeta,
+  TransactionResult,
+} from '@stellar/xdr';
+import { decodeTransactionRecord, parsePage, stripLinks } from '../src/parsers.js';
+import type { TransactionRecord } from '../src/types.js';
 
 describe('parsePage', () => {
   it('extracts records from _embedded', () => {
@@ -109,3 +116,72 @@ describe('stripLinks', () => {
     expect(result).toEqual({ id: '1', value: 'test' });
   });
 });
+
+describe('decodeTransactionRecord', () => {
+  const inner = {
+    tx: {
+      sourceAccount: { Ed25519: new Uint8Array(32).fill(1) },
+      fee: 100,
+      seqNum: 5n,
+      cond: 'None' as const,
+      memo: 'None' as const,
+      operations: [{ sourceAccount: null, body: { BumpSequence: { bumpTo: 6n } } }],
+      ext: '0' as const,
+    },
+    signatures: [],
+  };
+  const envelope: TransactionEnvelope = {
+    TxFeeBump: {
+      tx: {
+        feeSource: { Ed25519: new Uint8Array(32).fill(2) },
+        fee: 400n,
+        innerTx: { Tx: inner },
+        ext: '0',
+      },
+      signatures: [],
+    },
+  };
+  const innerResult = {
+    feeCharged: 100n,
+    result: { TxSUCCESS: [{ OpINNER: { BumpSequence: 'Success' as const } }] },
+    ext: '0' as const,
+  };
+  const result: TransactionResult = {
+    feeCharged: 200n,
+    result: {
+      TxFEEBumpInnerSuccess: {
+        transactionHash: new Uint8Array(32).fill(0xab),
+        result: innerResult,
+      },
+    },
+    ext: '0',
+  };
+  const record = {
+    hash: 'cd'.repeat(32),
+    envelope_xdr: TransactionEnvelope.toBase64(envelope),
+    result_xdr: TransactionResult.toBase64(result),
+    result_meta_xdr: TransactionMeta.toBase64({ '0': [] }),
+    fee_meta_xdr: LedgerEntryChanges.toBase64([]),
+  } as TransactionRecord;
+
+  it('decodes XDR fields and the fee bump inner transaction', () => {
+    const decoded = decodeTransactionRecord(record);
+    expect(decoded.envelope).toEqual(envelope);
+    expect(decoded.result).toEqual(result);
+    expect(decoded.resultMeta).toEqual({ '0': [] });
+    expect(decoded.feeMeta).toEqual([]);
+    expect(decoded.innerTransaction).toEqual({
+      hash: 'ab'.repeat(32),
+      envelope: { Tx: inner },
+      result: innerResult,
+    });
+  });
+
+  it('decodes lazily and keeps the plain fields enumerable', () => {
+    const decoded = decodeTransactionRecord({ ...record, result_xdr: 'not base64!' });
+    expect({ ...decoded }).toEqual({ ...record, result_xdr: 'not base64!' });
+    expect(decoded.envelope).toBe(decoded.envelope);
+    expect(() => decoded.result).toThrow();
+    expect(decodeTransactionRecord({ ...record, result_meta_xdr: '' }).resultMeta).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  HorizonClient,
+  InvalidRecordError,
+  amountToStroops,
+  parseEffectRecord,
+  parseOperationRecord,
+  stroopsToAmount,
+} from '../src/index.js';
+
+const ALICE = 'GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWN7';
+const BOB = 'GBRPYHIL2CI3FNQ4BXLFMNDLFJUNPU2HY3ZMFSHONUCEOASW7QC7OX2H';
+const USDC = 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN';
+
+const base = {
+  id: '12884905985',
+  paging_token: '12884905985',
+  source_account: ALICE,
+  type_i: 13,
+  created_at: '2024-01-01T00:00:00Z',
+  transaction_hash: 'ab'.repeat(32),
+  transaction_successful: true,
+};
+
+const pathPayment = {
+  ...base,
+  type: 'path_payment_strict_send',
+  asset_type: 'credit_alphanum4',
+  asset_code: 'USDC',
+  asset_issuer: USDC,
+  from: ALICE,
+  to: BOB,
+  amount: '9.9000000',
+  path: [],
+  source_amount: '100.0000000',
+  source_asset_type: 'native',
+  destination_min: '9.5000000',
+};
+
+function invalid(fn: () => unknown): InvalidRecordError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(InvalidRecordError);
+    return err as InvalidRecordError;
+  }
+  throw new Error('Expected an InvalidRecordError');
+}
+
+describe('parseOperationRecord', () => {
+  it('narrows on type', () => {
+    const record = parseOperationRecord(pathPayment);
+    expect(record).toBe(pathPayment);
+    if (record.type !== 'path_payment_strict_send') throw new Error('wrong type');
+    expect(amountToStroops(record.destination_min)).toBe(95_000_000n);
+  });
+
+  it('accepts operations with only optional fields', () => {
+    expect(parseOperationRecord({ ...base, type: 'set_options', type_i: 5 }).type).toBe(
+      'set_options',
+    );
+  });
+
+  it('rejects unknown types, missing fields and malformed amounts', () => {
+    expect(invalid(() => parseOperationRecord({ ...base, type: 'teleport' })).field).toBe('type');
+
+    const { destination_min: _, ...renamed } = pathPayment;
+    const missing = invalid(() => parseOperationRecord({ ...renamed, dest_min: '9.5' }));
+    expect(missing.field).toBe('destination_min');
+    expect(missing.message).toBe(
+      'path_payment_strict_send operation 12884905985 is missing destination_min',
+    );
+
+    const bad = invalid(() => parseOperationRecord({ ...pathPayment, amount: 9.9 }));
+    expect(bad.field).toBe('amount');
+    expect(invalid(() => parseOperationRecord(null)).record).toBeNull();
+  });
+});
+
+describe('parseEffectRecord', () => {
+  const effect = {
+    id: '0012884905985-0000000001',
+    paging_token: '12884905985-1',
+    account: ALICE,
+    created_at: '2024-01-01T00:00:00Z',
+  };
+
+  it('validates trade and liquidity pool effects', () => {
+    const trade = parseEffectRecord({
+      ...effect,
+      type: 'trade',
+      type_i: 33,
+      seller: BOB,
+      offer_id: '42',
+      sold_amount: '10.0000000',
+      sold_asset_type: 'native',
+      bought_amount: '1.0000000',
+      bought_asset_type: 'credit_alphanum4',
+      bought_asset_code: 'USDC',
+      bought_asset_issuer: USDC,
+    });
+    expect(trade.type === 'trade' && trade.offer_id).toBe('42');
+
+    const pool = {
+      id: 'cd'.repeat(32),
+      fee_bp: 30,
+      type: 'constant_product',
+      total_trustlines: '1',
+      total_shares: '100.0000000',
+      reserves: [],
+    };
+    const swap = {
+      ...effect,
+      type: 'liquidity_pool_trade',
+      type_i: 92,
+      liquidity_pool: pool,
+      sold: { asset: 'native', amount: '10.0000000' },
+      bought: { asset: `USDC:${USDC}`, amount: '1.0000000' },
+    };
+    expect(parseEffectRecord(swap).type).toBe('liquidity_pool_trade');
+    expect(invalid(() => parseEffectRecord({ ...swap, sold: { asset: 'native' } })).field).toBe(
+      'sold',
+    );
+  });
+
+  it('validates sponsorship and contract effects', () => {
+    expect(
+      parseEffectRecord({
+        ...effect,
+        type: 'data_sponsorship_updated',
+        type_i: 67,
+        data_name: 'config',
+        new_sponsor: BOB,
+        former_sponsor: ALICE,
+      }).type,
+    ).toBe('data_sponsorship_updated');
+    const credited = { ...effect, type: 'contract_credited', type_i: 96, asset_type: 'native' };
+    expect(invalid(() => parseEffectRecord({ ...credited, amount: '1.0' })).field).toBe(
+      'contract',
+    );
+  });
+});
+
+describe('amounts', () => {
+  it('converts between decimal amounts and stroops', () => {
+    expect(amountToStroops('100.0000000')).toBe(1_000_000_000n);
+    expect(amountToStroops('0.0000001')).toBe(1n);
+    expect(amountToStroops('12.5')).toBe(125_000_000n);
+    expect(stroopsToAmount(125_000_000n)).toBe('12.5000000');
+    expect(stroopsToAmount(-1n)).toBe('-0.0000001');
+    expect(() => amountToStroops('1.00000001')).toThrow('Invalid amount');
+  });
+});
+
+describe('validateRecords', () => {
+  const originalFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const broken = { ...pathPayment, amount: '9.9' + '0'.repeat(8) };
+
+  it('checks collection records only when enabled', async () => {
+    globalThis.fetch = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: new Headers(),
+      json: async () => ({
+        _links: { self: { href: 'https://horizon.stellar.org/payments' } },
+        _embedded: { records: [pathPayment, broken] },
+      }),
+    })) as unknown as typeof fetch;
+    const lenient = new HorizonClient('https://horizon.stellar.org');
+    expect((await lenient.getPayments()).records).toHaveLength(2);
+
+    const strict = new HorizonClient('https://horizon.stellar.org', { validateRecords: true });
+    const err = await strict.getPayments().catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(InvalidRecordError);
+    expect(err).toMatchObject({ field: 'amount', record: broken });
+  });
+
+  it('ends a subscription on an invalid record without reconnecting', async () => {
+    const body = `data: "hello"\n\nid: 1\ndata: ${JSON.stringify(broken)}\n\n`;
+    const fn = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(body));
+        },
+      }),
+    }));
+    globalThis.fetch = fn as unknown as typeof fetch;
+    const client = new HorizonClient('https://horizon.stellar.org', { validateRecords: true });
+    const stream = client.subscribePayments();
+    await expect(stream[Symbol.asyncIterator]().next()).rejects.toBeInstanceOf(
+      InvalidRecordError,
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
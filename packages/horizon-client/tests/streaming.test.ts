@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
-import { parseSSE, sseStream } from '../src/streaming.js';
+import { parseSSE, recordStream, sseStream } from '../src/streaming.js';
 import { HorizonClient } from '../src/client.js';
+import { StreamOverflowError } from '../src/errors.js';
+import type { StreamLifecycleEvent } from '../src/types.js';
 
 const originalFetch = globalThis.fetch;
 
@@ -554,3 +556,234 @@ describe('HorizonClient stream methods', () => {
     expect(url.searchParams.get('cursor')).toBe('now');
   });
 });
+
+// ---------------------------------------------------------------------------
+// recordStream
+// ---------------------------------------------------------------------------
+
+const HELLO = 'retry: 1000\nevent: open\ndata: "hello"\n\n';
+
+function event(token: string, id = `sse-${token}`): string {
+  return `id: ${id}\ndata: {"paging_token":"${token}"}\n\n`;
+}
+
+interface Connection {
+  chunks?: string[];
+  status?: number;
+  /** Leave the body open until the request is aborted. */
+  hang?: boolean;
+  /** Fail the body after its chunks instead of ending it. */
+  error?: Error;
+}
+
+/**
+ * Serve `connections` in order, then hang. Bodies error when the request is
+ * aborted, like a real fetch.
+ */
+function mockConnections(...connections: Connection[]) {
+  const encoder = new TextEncoder();
+  const fn = vi.fn((_url: string, init: RequestInit) => {
+    const { chunks = [], status = 200, hang = false, error } = connections.shift() ?? {
+      hang: true,
+    };
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        if (!hang && !error) controller.close();
+        init.signal?.addEventListener('abort', () => controller.error(init.signal!.reason));
+      },
+      // Erroring in start() would discard the queued chunks.
+      pull(controller) {
+        if (error) controller.error(error);
+      },
+    });
+    return Promise.resolve({ ok: status === 200, status, statusText: 'Status', body });
+  });
+  globalThis.fetch = fn as unknown as typeof fetch;
+  return fn;
+}
+
+function cursorAt(fn: ReturnType<typeof mockConnections>, call: number): string | null {
+  return new URL(fn.mock.calls[call]![0]).searchParams.get('cursor');
+}
+
+async function take<T>(iterable: AsyncIterable<T>, n: number): Promise<T[]> {
+  const result: T[] = [];
+  if (n === 0) return result;
+  for await (const value of iterable) {
+    result.push(value);
+    if (result.length === n) break;
+  }
+  return result;
+}
+
+const fast = { initialBackoff: 1, maxBackoff: 4 };
+
+describe('recordStream', () => {
+  it('resumes after the last paging_token across reconnects', async () => {
+    const fn = mockConnections(
+      { chunks: [HELLO, event('10'), event('11', 'unrelated')] },
+      { chunks: [HELLO, event('12')] },
+    );
+    const events: StreamLifecycleEvent[] = [];
+    const stream = recordStream<{ paging_token: string }>(
+      'https://horizon.stellar.org/',
+      'ledgers',
+      {},
+      {},
+      { ...fast, cursor: '9', onLifecycle: (e) => events.push(e) },
+    );
+    const records = await take(stream, 3);
+    expect(records.map((r) => r.paging_token)).toEqual(['10', '11', '12']);
+    expect(cursorAt(fn, 0)).toBe('9');
+    expect(cursorAt(fn, 1)).toBe('11');
+    expect(events.slice(0, 3)).toMatchObject([
+      { type: 'connected', cursor: '9' },
+      { type: 'reconnecting', failures: 0 },
+      { type: 'connected', cursor: '11' },
+    ]);
+    expect(events[1]).not.toHaveProperty('error', expect.anything());
+  });
+
+  it('backs off on errors and gives up after maxRetries', async () => {
+    mockConnections({ status: 503 }, { status: 503 }, { status: 503 });
+    const events: StreamLifecycleEvent[] = [];
+    const stream = recordStream('https://horizon.stellar.org/', 'ledgers', {}, {}, {
+      ...fast,
+      maxRetries: 2,
+      onLifecycle: (e) => events.push(e),
+    });
+    await expect(take(stream, 1)).rejects.toThrow('HTTP 503');
+    expect(events.map((e) => e.type)).toEqual(['reconnecting', 'reconnecting', 'gave-up']);
+    expect(events[2]).toMatchObject({ failures: 3 });
+    for (const e of events.slice(0, 2)) {
+      if (e.type !== 'reconnecting') throw new Error('expected reconnecting');
+      expect(e.delay).toBeGreaterThanOrEqual(0);
+      expect(e.delay).toBeLessThanOrEqual(fast.maxBackoff);
+    }
+  });
+
+  it('gives up at once on client errors', async () => {
+    const fn = mockConnections({ status: 404 });
+    const stream = recordStream('https://horizon.stellar.org/', 'accounts/G/payments', {}, {});
+    await expect(take(stream, 1)).rejects.toMatchObject({ status: 404 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('reconnects when the connection goes idle', async () => {
+    const fn = mockConnections({ chunks: [HELLO], hang: true }, { chunks: [event('7')] });
+    const events: StreamLifecycleEvent[] = [];
+    const stream = recordStream('https://horizon.stellar.org/', 'ledgers', {}, {}, {
+      ...fast,
+      idleTimeout: 20,
+      onLifecycle: (e) => events.push(e),
+    });
+    expect(await take(stream, 1)).toEqual([{ paging_token: '7' }]);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(events[1]).toMatchObject({
+      type: 'reconnecting',
+      error: new Error('No data received for 20 ms'),
+    });
+  });
+
+  it('applies the overflow policy when the buffer is full', async () => {
+    const chunks = [event('1') + event('2') + event('3')];
+    const opts = { ...fast, bufferSize: 2 };
+    // Iteration only starts after the connection has been read.
+    const settle = () => new Promise((r) => setTimeout(r, 20));
+
+    mockConnections({ chunks, hang: true });
+    const blocking = recordStream('https://horizon.stellar.org/', 'ledgers', {}, {}, opts);
+    await settle();
+    expect(await take(blocking, 3)).toHaveLength(3);
+
+    mockConnections({ chunks, hang: true });
+    const dropping = recordStream('https://horizon.stellar.org/', 'ledgers', {}, {}, {
+      ...opts,
+      overflow: 'drop-oldest',
+    });
+    await settle();
+    expect(await take(dropping, 2)).toEqual([{ paging_token: '2' }, { paging_token: '3' }]);
+
+    mockConnections({ chunks, hang: true });
+    const failing = recordStream('https://horizon.stellar.org/', 'ledgers', {}, {}, {
+      ...opts,
+      overflow: 'error',
+    });
+    await settle();
+    const seen: unknown[] = [];
+    await expect(
+      (async () => {
+        for await (const record of failing) seen.push(record);
+      })(),
+    ).rejects.toThrow(StreamOverflowError);
+    expect(seen).toHaveLength(2);
+  });
+
+  it('fetches records dropped as the newest again after a reconnect', async () => {
+    const fn = mockConnections(
+      { chunks: [event('1') + event('2') + event('3')] },
+      { chunks: [event('3') + event('4')], hang: true },
+    );
+    const stream = recordStream<{ paging_token: string }>(
+      'https://horizon.stellar.org/',
+      'ledgers',
+      {},
+      {},
+      { initialBackoff: 50, maxBackoff: 50, bufferSize: 2, overflow: 'drop-newest' },
+    );
+    // Fill the buffer before the reconnect, so that record 3 is dropped.
+    await new Promise((r) => setTimeout(r, 20));
+    const records = await take(stream, 4);
+    expect(records.map((r) => r.paging_token)).toEqual(['1', '2', '3', '4']);
+    expect(cursorAt(fn, 1)).toBe('2');
+  });
+
+  it('waits out the backoff while buffered records are consumed', async () => {
+    mockConnections(
+      { chunks: [event('1') + event('2') + event('3')], error: new Error('reset') },
+      { chunks: [event('4')], hang: true },
+    );
+    const log: { event: StreamLifecycleEvent; at: number }[] = [];
+    const stream = recordStream('https://horizon.stellar.org/', 'ledgers', {}, {}, {
+      initialBackoff: 200,
+      maxBackoff: 200,
+      onLifecycle: (event) => log.push({ event, at: Date.now() }),
+    });
+    // Consume the buffered records during the backoff.
+    await new Promise((r) => setTimeout(r, 20));
+    expect(await take(stream, 4)).toHaveLength(4);
+    const [, reconnecting, reconnected] = log;
+    if (reconnecting?.event.type !== 'reconnecting') throw new Error('expected reconnecting');
+    expect(reconnecting.event.error).toEqual(new Error('reset'));
+    expect(reconnected?.event.type).toBe('connected');
+    const { delay } = reconnecting.event;
+    expect(delay).toBeGreaterThanOrEqual(100);
+    expect(reconnected!.at - reconnecting.at).toBeGreaterThanOrEqual(delay - 1);
+  });
+
+  it('ends on close() and rejects on abort', async () => {
+    mockConnections({ chunks: [event('1')], hang: true });
+    const stream = recordStream('https://horizon.stellar.org/', 'ledgers', {}, {});
+    setTimeout(() => stream.close(), 20);
+    expect(await take(stream, 5)).toHaveLength(1);
+
+    mockConnections({ hang: true });
+    const controller = new AbortController();
+    const aborted = recordStream('https://horizon.stellar.org/', 'ledgers', {}, {}, {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(new Error('shutdown')), 20);
+    await expect(take(aborted, 1)).rejects.toThrow('shutdown');
+  });
+
+  it('is opened by the client subscribe methods', async () => {
+    const fn = mockConnections({ chunks: [event('5')], hang: true });
+    const client = new HorizonClient('https://horizon.stellar.org');
+    const stream = client.subscribeAccountPayments('GABC', { cursor: 'now' });
+    expect(await take(stream, 1)).toEqual([{ paging_token: '5' }]);
+    const url = new URL(fn.mock.calls[0]![0]);
+    expect(url.pathname).toBe('/accounts/GABC/payments');
+    expect(url.searchParams.get('cursor')).toBe('now');
+  });
+});
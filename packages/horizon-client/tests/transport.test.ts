@@ -13,6 +13,7 @@ function mockFetch(body: unknown, status = 200, statusText = 'OK') {
     ok: status >= 200 && status < 300,
     status,
     statusText,
+    headers: new Headers(),
     json: () => Promise.resolve(body),
   });
   globalThis.fetch = fn;
@@ -101,6 +102,7 @@ describe('httpGet', () => {
       ok: false,
       status: 500,
       statusText: 'Internal Server Error',
+      headers: new Headers(),
       json: () => Promise.reject(new Error('not json')),
     });
     globalThis.fetch = fn;
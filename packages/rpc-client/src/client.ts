@@ -7,12 +7,26 @@ import {
   TransactionEnvelope as TransactionEnvelopeCodec,
   is,
   decodeStrkey,
+  hexToBytes,
+  bytesToHex,
+  decodeTransactionResult,
+  TransactionFailedError,
   type ContractDataDurability,
+  type ContractExecutable,
 } from '@stellar/xdr';
+import type { Signer } from '@stellar/tx-builder';
 
 import { RpcError } from './errors.js';
 import { jsonRpcPost } from './transport.js';
 import { assembleTransaction } from './assemble.js';
+import { buildRestoreTransaction, signTransaction } from './restore.js';
+import {
+  cursorLedger,
+  eventSubscription,
+  type EventHandler,
+  type EventSubscription,
+  type SubscribeEventsOptions,
+} from './subscribe.js';
 import {
   parseGetTransactionResponse,
   parseGetTransactionsResponse,
@@ -26,6 +40,7 @@ import {
 import {
   isSimulationError,
   type EventFilter,
+  type EventInfo,
   type GetHealthResponse,
   type GetNetworkResponse,
   type GetLatestLedgerResponse,
@@ -38,8 +53,11 @@ import {
   type GetEventsResponse,
   type SendTransactionResponse,
   type SimulateTransactionResponse,
+  type SimulateTransactionSuccessResponse,
   type SimulationAuthMode,
   type LedgerEntryResult,
+  type LedgerInfo,
+  type TransactionInfo,
   type PaginatedByLedger,
   type PaginatedByCursor,
 } from './types.js';
@@ -58,6 +76,57 @@ export interface PollOptions {
   sleepStrategy?: (attempt: number) => number;
 }
 
+export interface IterateOptions {
+  /**
+   * First ledger to read. Defaults to the oldest ledger the RPC retains;
+   * earlier ledgers are clamped to it.
+   */
+  startLedger?: number;
+  /** Resume from a cursor returned by the RPC; takes precedence over `startLedger`. */
+  cursor?: string;
+  /** Stop before this ledger (exclusive). */
+  endLedger?: number;
+  /** Page size; the RPC default when omitted. */
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface PrepareTransactionOptions {
+  /**
+   * When simulation returns a restore preamble, restore the archived entries
+   * with a `restoreFootprint` transaction before preparing. Without it such
+   * transactions are rejected.
+   */
+  autoRestore?: boolean;
+  /** Signs and pays for the restore transaction. Required with `autoRestore`. */
+  signer?: Signer;
+  /** Network passphrase for signing; fetched with `getNetwork()` when omitted. */
+  networkPassphrase?: string;
+  /** Polling for the restore transaction. */
+  poll?: PollOptions;
+}
+
+export interface RestoreReport {
+  /** Hex hash of the restore transaction. */
+  hash: string;
+  /** Ledger the restore transaction was applied in. */
+  ledger: number;
+  /** Ledger keys restored (the preamble's read-write footprint). */
+  restoredKeys: LedgerKey[];
+  /** Maximum fee bid: inclusion fee plus the preamble's resource fee, in stroops. */
+  maxFee: number;
+  /** Fee charged by the network, in stroops. */
+  feeCharged: bigint;
+}
+
+export interface PreparedTransaction {
+  /** Assembled, unsigned envelope. */
+  envelope: TransactionEnvelope;
+  simulation: SimulateTransactionSuccessResponse;
+  /** Set when archived entries were restored first. */
+  restore: RestoreReport | null;
+}
+
 // ---------------------------------------------------------------------------
 // RpcClient
 // ---------------------------------------------------------------------------
@@ -74,8 +143,8 @@ export class RpcClient {
     this.headers = opts?.headers ?? {};
   }
 
-  private rpc<T>(method: string, params: object = {}): Promise<T> {
-    return jsonRpcPost<T>(this.url, method, params, this.headers);
+  private rpc<T>(method: string, params: object = {}, signal?: AbortSignal): Promise<T> {
+    return jsonRpcPost<T>(this.url, method, params, this.headers, signal);
   }
 
   // -----------------------------------------------------------------------
@@ -136,11 +205,22 @@ export class RpcClient {
     return parseGetEventsResponse(raw);
   }
 
+  /**
+   * Submit a transaction. Throws `TransactionFailedError` when the RPC
+   * rejects it with an `ERROR` status and a result.
+   */
   async sendTransaction(envelope: TransactionEnvelope): Promise<SendTransactionResponse> {
     const raw = await this.rpc<any>('sendTransaction', {
       transaction: TransactionEnvelopeCodec.toBase64(envelope),
     });
-    return parseSendTransactionResponse(raw);
+    const resp = parseSendTransactionResponse(raw);
+    if (resp.status === 'ERROR' && resp.errorResultXdr) {
+      throw new TransactionFailedError(decodeTransactionResult(resp.errorResultXdr), {
+        hash: resp.hash,
+        response: resp,
+      });
+    }
+    return resp;
   }
 
   async simulateTransaction(
@@ -189,6 +269,54 @@ export class RpcClient {
     return resp.entries[0] ?? null;
   }
 
+  /**
+   * Read a deployed contract's executable from its instance entry: the WASM
+   * hash, or `'StellarAsset'` for Stellar Asset Contracts.
+   */
+  async getContractExecutable(contractId: string): Promise<ContractExecutable> {
+    const instance = await this.getContractData(contractId, 'LedgerKeyContractInstance');
+    if (
+      !instance ||
+      !is(instance.val, 'ContractData') ||
+      !is(instance.val.ContractData.val, 'ContractInstance')
+    ) {
+      throw new RpcError(-1, `Contract instance not found: ${contractId}`);
+    }
+    return instance.val.ContractData.val.ContractInstance.executable;
+  }
+
+  /**
+   * Fetch the WASM bytecode of a deployed contract by following its instance
+   * entry to the `ContractCode` ledger entry. Stellar Asset Contracts have no
+   * WASM and are rejected.
+   */
+  async getContractWasmByContractId(contractId: string): Promise<Uint8Array> {
+    const executable = await this.getContractExecutable(contractId);
+    if (!is(executable, 'Wasm')) {
+      throw new RpcError(-1, `Contract ${contractId} is a Stellar Asset Contract and has no WASM`);
+    }
+    return this.getContractWasmByHash(executable.Wasm);
+  }
+
+  /**
+   * Fetch WASM bytecode by its hash (raw bytes or hex string).
+   */
+  async getContractWasmByHash(wasmHash: Uint8Array | string): Promise<Uint8Array> {
+    const hash = typeof wasmHash === 'string' ? hexToBytes(wasmHash) : wasmHash;
+    const key: LedgerKey = { ContractCode: { hash } };
+    const resp = await this.getLedgerEntries([key]);
+    const entry = resp.entries[0];
+    if (!entry || !is(entry.val, 'ContractCode')) {
+      const hex = typeof wasmHash === 'string' ? wasmHash : bytesToHex(wasmHash);
+      throw new RpcError(-1, `Contract code not found: ${hex}`);
+    }
+    return entry.val.ContractCode.code;
+  }
+
+  /**
+   * Poll `getTransaction` until the transaction is found. Throws
+   * `TransactionFailedError` when it failed.
+   */
   async pollTransaction(
     hash: string,
     opts?: PollOptions,
@@ -198,6 +326,12 @@ export class RpcClient {
 
     for (let i = 0; i < attempts; i++) {
       const resp = await this.getTransaction(hash);
+      if (resp.status === 'FAILED' && resp.resultXdr) {
+        throw new TransactionFailedError(decodeTransactionResult(resp.resultXdr), {
+          hash,
+          response: resp,
+        });
+      }
       if (resp.status !== 'NOT_FOUND') return resp;
       if (i < attempts - 1) {
         await sleep(sleepStrategy(i));
@@ -207,12 +341,215 @@ export class RpcClient {
     throw new RpcError(-1, `Transaction ${hash} not found after ${attempts} attempts`);
   }
 
-  async prepareTransaction(envelope: TransactionEnvelope): Promise<TransactionEnvelope> {
+  /**
+   * Simulate and assemble a Soroban transaction.
+   *
+   * With options, returns a `PreparedTransaction` and handles archived state:
+   * when `autoRestore` is set, a restore preamble is resolved by submitting a
+   * signed `restoreFootprint` transaction, bumping the original's sequence
+   * number if it shares the signer's account, and simulating again.
+   */
+  async prepareTransaction(envelope: TransactionEnvelope): Promise<TransactionEnvelope>;
+  async prepareTransaction(
+    envelope: TransactionEnvelope,
+    opts: PrepareTransactionOptions,
+  ): Promise<PreparedTransaction>;
+  async prepareTransaction(
+    envelope: TransactionEnvelope,
+    opts?: PrepareTransactionOptions,
+  ): Promise<TransactionEnvelope | PreparedTransaction> {
     const sim = await this.simulateTransaction(envelope);
     if (isSimulationError(sim)) {
       throw new RpcError(-1, `Simulation failed: ${sim.error}`);
     }
-    return assembleTransaction(envelope, sim);
+    if (opts === undefined) {
+      return assembleTransaction(envelope, sim);
+    }
+    if (sim.restorePreamble === undefined) {
+      return { envelope: assembleTransaction(envelope, sim), simulation: sim, restore: null };
+    }
+
+    if (!opts.autoRestore) {
+      throw new RpcError(-1, 'Transaction requires restoring archived ledger entries (see autoRestore)');
+    }
+    if (opts.signer === undefined) {
+      throw new RpcError(-1, 'autoRestore requires a signer');
+    }
+    if (!is(envelope, 'Tx')) {
+      throw new RpcError(-1, 'prepareTransaction requires a v1 TransactionEnvelope (Tx)');
+    }
+
+    const restore = await this.restoreFootprint(
+      sim.restorePreamble,
+      envelope.Tx.tx.fee,
+      opts.signer,
+      opts.networkPassphrase ?? (await this.getNetwork()).passphrase,
+      opts.poll,
+    );
+
+    // The restore consumed a sequence number if it shares the source account.
+    const tx = envelope.Tx.tx;
+    const source = is(tx.sourceAccount, 'Ed25519')
+      ? tx.sourceAccount.Ed25519
+      : tx.sourceAccount.MuxedEd25519.ed25519;
+    const signerKey = decodeStrkey(opts.signer.publicKey).payload;
+    const sameSource = bytesToHex(source) === bytesToHex(signerKey);
+    const bumped: TransactionEnvelope = {
+      Tx: { tx: sameSource ? { ...tx, seqNum: tx.seqNum + 1n } : tx, signatures: [] },
+    };
+
+    const resim = await this.simulateTransaction(bumped);
+    if (isSimulationError(resim)) {
+      throw new RpcError(-1, `Simulation failed after restore: ${resim.error}`);
+    }
+    if (resim.restorePreamble !== undefined) {
+      throw new RpcError(-1, 'Simulation still requires a restore after restoring archived entries');
+    }
+    return { envelope: assembleTransaction(bumped, resim), simulation: resim, restore };
+  }
+
+  // -----------------------------------------------------------------------
+  // Pagination
+  // -----------------------------------------------------------------------
+
+  /**
+   * Iterate contract and system events matching `filter`, following the
+   * cursor page by page until the latest ledger (or `endLedger`).
+   */
+  iterateEvents(
+    filter: EventFilter | EventFilter[] = [],
+    opts: IterateOptions = {},
+  ): AsyncGenerator<EventInfo> {
+    return this.paginate(opts, {
+      method: 'getEvents',
+      params: { filters: Array.isArray(filter) ? filter : [filter] },
+      parse: parseGetEventsResponse,
+      items: (page) => page.events,
+      ledger: (event) => event.ledger,
+      cursorLedger,
+    });
+  }
+
+  /**
+   * Iterate transactions in ledger order until the latest ledger (or
+   * `endLedger`).
+   */
+  iterateTransactions(opts: IterateOptions = {}): AsyncGenerator<TransactionInfo> {
+    return this.paginate(opts, {
+      method: 'getTransactions',
+      params: {},
+      parse: parseGetTransactionsResponse,
+      items: (page) => page.transactions,
+      ledger: (tx) => tx.ledger,
+      cursorLedger,
+    });
+  }
+
+  /**
+   * Iterate ledgers until the latest ledger (or `endLedger`).
+   */
+  iterateLedgers(opts: IterateOptions = {}): AsyncGenerator<LedgerInfo> {
+    return this.paginate(opts, {
+      method: 'getLedgers',
+      params: {},
+      parse: parseGetLedgersResponse,
+      items: (page) => page.ledgers,
+      ledger: (ledger) => ledger.sequence,
+      cursorLedger: (cursor) => (/^\d+$/.test(cursor) ? Number(cursor) : undefined),
+      wholeLedgers: true,
+    });
+  }
+
+  private async *paginate<P extends { cursor: string; latestLedger: number }, T>(
+    opts: IterateOptions,
+    spec: PageSpec<P, T>,
+  ): AsyncGenerator<T> {
+    const { endLedger, limit, signal } = opts;
+    let cursor = opts.cursor;
+    let startLedger: number | undefined;
+    if (cursor === undefined) {
+      const { oldestLedger } = await this.rpc<GetHealthResponse>('getHealth', {}, signal);
+      startLedger = Math.max(opts.startLedger ?? oldestLedger, oldestLedger);
+      if (endLedger !== undefined && startLedger >= endLedger) return;
+    }
+
+    for (;;) {
+      signal?.throwIfAborted();
+      const req =
+        cursor === undefined
+          ? { ...spec.params, startLedger, pagination: { limit } }
+          : { ...spec.params, pagination: { cursor, limit } };
+      const page = spec.parse(await this.rpc<any>(spec.method, req, signal));
+      const items = spec.items(page);
+
+      let last: number | undefined;
+      for (const item of items) {
+        last = spec.ledger(item);
+        if (endLedger !== undefined && last >= endLedger) return;
+        yield item;
+        signal?.throwIfAborted();
+      }
+      // A cursor that does not advance means there is nothing more to read yet.
+      if (page.cursor === cursor) return;
+      if (spec.wholeLedgers && last !== undefined && last >= page.latestLedger) return;
+      // Each call scans a bounded window of ledgers, so an empty page only
+      // ends the range once its cursor is past `endLedger` or the latest ledger.
+      if (items.length === 0) {
+        const scanned = spec.cursorLedger(page.cursor);
+        if (scanned === undefined || scanned > page.latestLedger) return;
+        if (endLedger !== undefined && scanned >= endLedger) return;
+      }
+      cursor = page.cursor;
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Subscriptions
+  // -----------------------------------------------------------------------
+
+  /**
+   * Tail events matching `filter` by polling `getEvents`, calling `handler`
+   * once per event id. Resumes from `opts.cursorStore` when it holds a
+   * cursor; call `close()` on the result to stop.
+   */
+  subscribeEvents(
+    filter: EventFilter | EventFilter[],
+    handler: EventHandler,
+    opts: SubscribeEventsOptions = {},
+  ): EventSubscription {
+    return eventSubscription(this, Array.isArray(filter) ? filter : [filter], handler, opts);
+  }
+
+  private async restoreFootprint(
+    preamble: NonNullable<SimulateTransactionSuccessResponse['restorePreamble']>,
+    inclusionFee: number,
+    signer: Signer,
+    networkPassphrase: string,
+    poll?: PollOptions,
+  ): Promise<RestoreReport> {
+    const account = await this.getAccount(signer.publicKey);
+    const tx = buildRestoreTransaction(
+      decodeStrkey(signer.publicKey).payload,
+      account.seqNum + 1n,
+      inclusionFee,
+      preamble,
+    );
+    const { envelope, hash } = await signTransaction(tx, networkPassphrase, signer);
+    const hex = bytesToHex(hash);
+
+    const sent = await this.sendTransaction(envelope);
+    if (sent.status === 'TRY_AGAIN_LATER') {
+      throw new RpcError(-1, `Restore transaction ${hex} was rejected: ${sent.status}`);
+    }
+    const result = await this.pollTransaction(hex, poll);
+
+    return {
+      hash: hex,
+      ledger: result.ledger ?? result.latestLedger,
+      restoredKeys: [...preamble.transactionData.resources.footprint.readWrite],
+      maxFee: tx.fee,
+      feeCharged: result.resultXdr?.feeCharged ?? 0n,
+    };
   }
 }
 
@@ -220,6 +557,21 @@ export class RpcClient {
 // Internal helpers
 // ---------------------------------------------------------------------------
 
+interface PageSpec<P, T> {
+  method: string;
+  params: object;
+  parse: (raw: any) => P;
+  items: (page: P) => T[];
+  ledger: (item: T) => number;
+  /** Ledger a page cursor points into, if it can be read from the cursor. */
+  cursorLedger: (cursor: string) => number | undefined;
+  /**
+   * Items are whole ledgers, so a page reaching the latest ledger is the
+   * last. (Transactions in one ledger can span pages.)
+   */
+  wholeLedgers?: boolean;
+}
+
 interface EventsParams {
   filters?: EventFilter[];
   endLedger?: number;
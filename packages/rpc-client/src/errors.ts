@@ -9,3 +9,17 @@ export class RpcError extends Error {
     this.data = data;
   }
 }
+
+/**
+ * Non-OK HTTP response from the RPC endpoint. `code` stays -1; `status` is
+ * the HTTP status.
+ */
+export class RpcHttpError extends RpcError {
+  readonly status: number;
+
+  constructor(status: number, statusText: string) {
+    super(-1, `HTTP ${status}: ${statusText}`);
+    this.name = 'RpcHttpError';
+    this.status = status;
+  }
+}
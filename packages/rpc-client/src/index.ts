@@ -1,5 +1,21 @@
-export { RpcClient, type RpcClientOptions, type PollOptions } from './client.js';
-export { RpcError } from './errors.js';
+export {
+  RpcClient,
+  type RpcClientOptions,
+  type PollOptions,
+  type IterateOptions,
+  type PrepareTransactionOptions,
+  type PreparedTransaction,
+  type RestoreReport,
+} from './client.js';
+export {
+  type CursorStore,
+  type EventGap,
+  type EventHandler,
+  type EventSubscription,
+  type SubscribeEventsOptions,
+} from './subscribe.js';
+export { topicFilter, type TopicSegment } from './topics.js';
+export { RpcError, RpcHttpError } from './errors.js';
 export { assembleTransaction } from './assemble.js';
 export {
   type GetHealthResponse,
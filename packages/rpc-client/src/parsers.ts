@@ -200,6 +200,7 @@ interface RawEventInfo {
 
 interface RawGetEventsResponse {
   latestLedger: number;
+  oldestLedger?: number;
   events?: RawEventInfo[];
   cursor: string;
 }
@@ -219,11 +220,15 @@ function parseEventInfo(raw: RawEventInfo): EventInfo {
 }
 
 export function parseGetEventsResponse(raw: RawGetEventsResponse): GetEventsResponse {
-  return {
+  const result: GetEventsResponse = {
     latestLedger: raw.latestLedger,
     events: raw.events ? raw.events.map(parseEventInfo) : [],
     cursor: raw.cursor,
   };
+  if (raw.oldestLedger !== undefined) {
+    result.oldestLedger = raw.oldestLedger;
+  }
+  return result;
 }
 
 // ---------------------------------------------------------------------------
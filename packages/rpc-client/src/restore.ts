@@ -0,0 +1,40 @@
+import type { SorobanTransactionData, Transaction, TransactionEnvelope } from '@stellar/xdr';
+import { signDecorated, transactionHash, type Signer } from '@stellar/tx-builder';
+
+/** Validity window of the restore transaction in seconds. */
+const RESTORE_TIMEOUT_SECONDS = 300;
+
+/**
+ * Build a `restoreFootprint` transaction from a simulation's restore
+ * preamble. `inclusionFee` is added to the preamble's resource fee.
+ */
+export function buildRestoreTransaction(
+  source: Uint8Array,
+  seqNum: bigint,
+  inclusionFee: number,
+  preamble: { minResourceFee: string; transactionData: SorobanTransactionData },
+): Transaction {
+  const maxTime = BigInt(Math.floor(Date.now() / 1000) + RESTORE_TIMEOUT_SECONDS);
+  return {
+    sourceAccount: { Ed25519: source },
+    fee: inclusionFee + parseInt(preamble.minResourceFee, 10),
+    seqNum,
+    cond: { Time: { minTime: 0n, maxTime } },
+    memo: 'None',
+    operations: [{ sourceAccount: null, body: { RestoreFootprint: { ext: '0' } } }],
+    ext: { '1': preamble.transactionData },
+  };
+}
+
+/**
+ * Hash and sign a transaction, returning the signed envelope and its hash.
+ */
+export async function signTransaction(
+  tx: Transaction,
+  networkPassphrase: string,
+  signer: Signer,
+): Promise<{ envelope: TransactionEnvelope; hash: Uint8Array }> {
+  const hash = await transactionHash(tx, networkPassphrase);
+  const signature = await signDecorated(signer, hash);
+  return { envelope: { Tx: { tx, signatures: [signature] } }, hash };
+}
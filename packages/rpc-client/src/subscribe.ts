@@ -0,0 +1,196 @@
+import { RpcError, RpcHttpError } from './errors.js';
+import type {
+  EventFilter,
+  EventInfo,
+  GetEventsResponse,
+  GetHealthResponse,
+  PaginatedByCursor,
+  PaginatedByLedger,
+} from './types.js';
+
+/** Roughly one ledger close. */
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_MAX_BACKOFF_MS = 60_000;
+/** Page size the RPC uses when `limit` is omitted. */
+const DEFAULT_PAGE_LIMIT = 100;
+/** Number of recent event ids remembered for deduplication. */
+const DEDUP_WINDOW = 10_000;
+
+/** Persists the subscription cursor so a restarted subscription can resume. */
+export interface CursorStore {
+  load(): string | undefined | Promise<string | undefined>;
+  save(cursor: string): void | Promise<void>;
+}
+
+/** Ledgers skipped because they are no longer retained by the RPC. */
+export interface EventGap {
+  /** The cursor that could not be resumed from, if any. */
+  cursor?: string;
+  /** First ledger that was not read. */
+  fromLedger: number;
+  /** Oldest retained ledger, where the subscription continues. */
+  toLedger: number;
+}
+
+export interface SubscribeEventsOptions {
+  /**
+   * Ledger to start from when the cursor store has no cursor. Defaults to
+   * `'latest'`.
+   */
+  startLedger?: number | 'latest';
+  cursorStore?: CursorStore;
+  /** Delay between polls once caught up, in ms. Defaults to 5000. */
+  pollInterval?: number;
+  /** Upper bound for the retry delay after RPC errors, in ms. Defaults to 60000. */
+  maxBackoff?: number;
+  /** Page size; the RPC default when omitted. */
+  limit?: number;
+  /** Called for each retried RPC error. */
+  onError?: (error: Error) => void;
+  /** Called when ledgers were skipped because they fell out of retention. */
+  onGap?: (gap: EventGap) => void;
+}
+
+export type EventHandler = (event: EventInfo) => void | Promise<void>;
+
+export interface EventSubscription {
+  close(): void;
+  /**
+   * Settles when the subscription stops: resolves after `close()`, rejects
+   * when the handler, the cursor store or a non-retryable error throws.
+   */
+  readonly done: Promise<void>;
+}
+
+type EventsRequest = { filters: EventFilter[] };
+
+interface EventSource {
+  getHealth(): Promise<GetHealthResponse>;
+  getEvents(
+    req: PaginatedByLedger<EventsRequest> | PaginatedByCursor<EventsRequest>,
+  ): Promise<GetEventsResponse>;
+}
+
+/**
+ * Poll `getEvents` and deliver each event to `handler` once, in order.
+ * Delivery is at-least-once across restarts: the cursor is saved after each
+ * page.
+ */
+export function eventSubscription(
+  rpc: EventSource,
+  filters: EventFilter[],
+  handler: EventHandler,
+  opts: SubscribeEventsOptions,
+): EventSubscription {
+  const pollInterval = opts.pollInterval ?? DEFAULT_POLL_INTERVAL_MS;
+  const maxBackoff = opts.maxBackoff ?? DEFAULT_MAX_BACKOFF_MS;
+  const { limit } = opts;
+  let closed = false;
+  let wake: (() => void) | undefined;
+
+  function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  async function run(): Promise<void> {
+    let cursor = await opts.cursorStore?.load();
+    let startLedger: number | undefined;
+    let checkRetention = true;
+    let failures = 0;
+    const seen = new Set<string>();
+
+    while (!closed) {
+      let page: GetEventsResponse;
+      try {
+        if (checkRetention) {
+          const { oldestLedger, latestLedger } = await rpc.getHealth();
+          if (cursor !== undefined) {
+            const ledger = cursorLedger(cursor);
+            if (ledger !== undefined && ledger < oldestLedger) {
+              opts.onGap?.({ cursor, fromLedger: ledger, toLedger: oldestLedger });
+              cursor = undefined;
+              startLedger = oldestLedger;
+            }
+          } else {
+            const requested = startLedger ?? opts.startLedger ?? 'latest';
+            startLedger = requested === 'latest' ? latestLedger : requested;
+            if (startLedger < oldestLedger) {
+              opts.onGap?.({ fromLedger: startLedger, toLedger: oldestLedger });
+              startLedger = oldestLedger;
+            }
+          }
+          checkRetention = false;
+        }
+        page = await rpc.getEvents(
+          cursor !== undefined
+            ? { filters, pagination: { cursor, limit } }
+            : { filters, startLedger: startLedger!, pagination: { limit } },
+        );
+      } catch (err) {
+        if (closed) return;
+        if (!isRetryable(err)) throw err;
+        opts.onError?.(err as Error);
+        // The cursor may have fallen out of retention while we were failing.
+        checkRetention = true;
+        await wait(Math.min(pollInterval * 2 ** failures++, maxBackoff));
+        continue;
+      }
+      if (closed) return;
+      failures = 0;
+
+      for (const event of page.events) {
+        if (seen.has(event.id)) continue;
+        seen.add(event.id);
+        if (seen.size > DEDUP_WINDOW) seen.delete(seen.values().next().value!);
+        await handler(event);
+        if (closed) return;
+      }
+      cursor = page.cursor;
+      await opts.cursorStore?.save(cursor);
+      if (page.events.length < (limit ?? DEFAULT_PAGE_LIMIT)) await wait(pollInterval);
+    }
+  }
+
+  const done = run().finally(() => {
+    closed = true;
+  });
+  // Callers that never await `done` should not see unhandled rejections.
+  done.catch(() => {});
+
+  return {
+    close() {
+      closed = true;
+      wake?.();
+    },
+    done,
+  };
+}
+
+/**
+ * Ledger a `getEvents` or `getTransactions` cursor points into. Cursors are
+ * `<TOID>-<event index>` and `<TOID>`, with the ledger in the TOID's upper
+ * 32 bits.
+ */
+export function cursorLedger(cursor: string): number | undefined {
+  const toid = cursor.split('-')[0];
+  if (toid === undefined || !/^\d+$/.test(toid)) return undefined;
+  return Number(BigInt(toid) >> 32n);
+}
+
+/**
+ * 5xx and 429 responses, JSON-RPC internal and server errors (-32603,
+ * -32000 to -32099) and network failures are retried.
+ */
+function isRetryable(err: unknown): boolean {
+  if (err instanceof RpcHttpError) return err.status >= 500 || err.status === 429;
+  if (err instanceof RpcError) {
+    return err.code === -32603 || (err.code <= -32000 && err.code >= -32099);
+  }
+  return err instanceof TypeError;
+}
@@ -0,0 +1,42 @@
+import { SCVal, parseScAddress } from '@stellar/xdr';
+
+/**
+ * One segment of an event topic filter:
+ * - `'*'` matches any single topic, `'**'` (last segment only) any number of
+ *   remaining topics;
+ * - other strings become an `Address` when they are a G…, M… or C… strkey
+ *   and a `Symbol` otherwise;
+ * - booleans become `Bool`;
+ * - objects are passed through as `SCVal`s (e.g. `{ String: 'USDC' }`).
+ */
+export type TopicSegment = string | boolean | SCVal;
+
+const SYMBOL_PATTERN = /^[a-zA-Z0-9_]{0,32}$/;
+const ADDRESS_PATTERN = /^(?:[GC][A-Z2-7]{55}|M[A-Z2-7]{68})$/;
+
+/**
+ * Encode topic segments into an `EventFilter.topics` entry: base64 XDR
+ * `SCVal`s and wildcards.
+ */
+export function topicFilter(segments: readonly TopicSegment[]): string[] {
+  return segments.map((segment, i) => {
+    if (segment === '*') return segment;
+    if (segment === '**') {
+      if (i !== segments.length - 1) {
+        throw new Error("'**' is only allowed as the last topic segment");
+      }
+      return segment;
+    }
+    return SCVal.toBase64(topicToScVal(segment));
+  });
+}
+
+function topicToScVal(segment: TopicSegment): SCVal {
+  if (typeof segment === 'boolean') return { Bool: segment };
+  if (typeof segment !== 'string') return segment;
+  if (ADDRESS_PATTERN.test(segment)) return { Address: parseScAddress(segment) };
+  if (!SYMBOL_PATTERN.test(segment)) {
+    throw new TypeError(`Not a symbol or address topic: ${JSON.stringify(segment)}`);
+  }
+  return { Symbol: segment };
+}
@@ -1,4 +1,4 @@
-import { RpcError } from './errors.js';
+import { RpcError, RpcHttpError } from './errors.js';
 
 let nextId = 1;
 
@@ -7,13 +7,15 @@ export async function jsonRpcPost<T>(
   method: string,
   params: object,
   headers?: Record<string, string>,
+  signal?: AbortSignal,
 ): Promise<T> {
   const res = await fetch(url, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json', ...headers },
     body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+    signal,
   });
-  if (!res.ok) throw new RpcError(-1, `HTTP ${res.status}: ${res.statusText}`);
+  if (!res.ok) throw new RpcHttpError(res.status, res.statusText);
   const json = await res.json();
   if ('error' in json) {
     throw new RpcError(json.error.code, json.error.message ?? '', json.error.data);
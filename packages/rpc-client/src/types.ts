@@ -197,6 +197,7 @@ export type EventType = 'contract' | 'system';
 export interface EventFilter {
   type?: EventType;
   contractIds?: string[];
+  /** Base64 XDR `SCVal`s and `*`/`**` wildcards; see `topicFilter()`. */
   topics?: string[][];
 }
 
@@ -214,6 +215,8 @@ export interface EventInfo {
 
 export interface GetEventsResponse {
   latestLedger: number;
+  /** Oldest ledger retained (RPC 22+). */
+  oldestLedger?: number;
   events: EventInfo[];
   cursor: string;
 }
@@ -13,7 +13,14 @@ import {
   LedgerHeader,
   LedgerCloseMeta,
   LedgerHeaderHistoryEntry,
+  encodeStrkey,
+  STRKEY_CONTRACT,
+  STRKEY_ED25519_PUBLIC,
+  is,
+  bytesToHex,
+  TransactionFailedError,
 } from '@stellar/xdr';
+import { transactionHash } from '@stellar/tx-builder';
 import { RpcClient } from '../src/client.js';
 import { RpcError } from '../src/errors.js';
 
@@ -163,6 +170,22 @@ describe('getTransaction', () => {
 // ---------------------------------------------------------------------------
 
 describe('sendTransaction', () => {
+  // A minimal valid TransactionEnvelope
+  const envelope: TransactionEnvelope = {
+    Tx: {
+      tx: {
+        sourceAccount: { Ed25519: new Uint8Array(32) },
+        fee: 100,
+        seqNum: 1n,
+        cond: 'None',
+        memo: 'None',
+        operations: [],
+        ext: '0',
+      },
+      signatures: [],
+    },
+  };
+
   it('encodes envelope and sends', async () => {
     const fetchFn = mockRpcResponse({
       hash: 'abc123',
@@ -171,22 +194,6 @@ describe('sendTransaction', () => {
       latestLedgerCloseTime: 1700000000,
     });
 
-    // Create a minimal valid TransactionEnvelope
-    const envelope: TransactionEnvelope = {
-      Tx: {
-        tx: {
-          sourceAccount: { Ed25519: new Uint8Array(32) },
-          fee: 100,
-          seqNum: 1n,
-          cond: 'None',
-          memo: 'None',
-          operations: [],
-          ext: '0',
-        },
-        signatures: [],
-      },
-    };
-
     const client = new RpcClient(TEST_URL);
     const result = await client.sendTransaction(envelope);
     expect(result.status).toBe('PENDING');
@@ -197,6 +204,28 @@ describe('sendTransaction', () => {
     expect(body.params.transaction).toBeDefined();
     expect(typeof body.params.transaction).toBe('string');
   });
+
+  it('throws TransactionFailedError for ERROR responses', async () => {
+    mockRpcResponse({
+      hash: 'abc123',
+      status: 'ERROR',
+      latestLedger: 100,
+      latestLedgerCloseTime: 1700000000,
+      errorResultXdr: TransactionResult.toBase64({
+        feeCharged: 100n,
+        result: 'TxBADSeq',
+        ext: '0',
+      }),
+    });
+
+    const client = new RpcClient(TEST_URL);
+    const err = await client.sendTransaction(envelope).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(TransactionFailedError);
+    const failure = err as TransactionFailedError;
+    expect(failure.hash).toBe('abc123');
+    expect(failure.result.txCode).toBe('TxBADSeq');
+    expect(failure.response).toMatchObject({ status: 'ERROR', hash: 'abc123' });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -344,6 +373,105 @@ describe('getAccount', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// getContractExecutable / getContractWasmByContractId / getContractWasmByHash
+// ---------------------------------------------------------------------------
+
+describe('getContractWasm', () => {
+  const contractId = encodeStrkey(STRKEY_CONTRACT, new Uint8Array(32));
+  const wasmHash = new Uint8Array(32).fill(0xab);
+  const wasm = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]);
+
+  function instanceEntry(executable: { Wasm: Uint8Array } | 'StellarAsset') {
+    const data: LedgerEntryData = {
+      ContractData: {
+        ext: '0',
+        contract: { Contract: new Uint8Array(32) },
+        key: 'LedgerKeyContractInstance',
+        durability: 'Persistent',
+        val: { ContractInstance: { executable, storage: null } },
+      },
+    };
+    const key: LedgerKey = {
+      ContractData: {
+        contract: { Contract: new Uint8Array(32) },
+        key: 'LedgerKeyContractInstance',
+        durability: 'Persistent',
+      },
+    };
+    return {
+      latestLedger: 100,
+      entries: [{
+        key: LedgerKey.toBase64(key),
+        xdr: LedgerEntryData.toBase64(data),
+        lastModifiedLedgerSeq: 50,
+      }],
+    };
+  }
+
+  function codeEntry() {
+    const data: LedgerEntryData = {
+      ContractCode: { ext: '0', hash: wasmHash, code: wasm },
+    };
+    return {
+      latestLedger: 100,
+      entries: [{
+        key: LedgerKey.toBase64({ ContractCode: { hash: wasmHash } }),
+        xdr: LedgerEntryData.toBase64(data),
+        lastModifiedLedgerSeq: 50,
+      }],
+    };
+  }
+
+  it('follows the instance executable to the contract code', async () => {
+    const fetchMock = mockRpcSequence([instanceEntry({ Wasm: wasmHash }), codeEntry()]);
+    const client = new RpcClient(TEST_URL);
+    const result = await client.getContractWasmByContractId(contractId);
+    expect(result).toEqual(wasm);
+
+    const secondBody = JSON.parse(fetchMock.mock.calls[1]![1].body);
+    expect(secondBody.params.keys).toEqual([
+      LedgerKey.toBase64({ ContractCode: { hash: wasmHash } }),
+    ]);
+  });
+
+  it('reads the executable from the instance entry', async () => {
+    mockRpcResponse(instanceEntry('StellarAsset'));
+    const client = new RpcClient(TEST_URL);
+    expect(await client.getContractExecutable(contractId)).toBe('StellarAsset');
+  });
+
+  it('rejects Stellar Asset Contracts', async () => {
+    mockRpcResponse(instanceEntry('StellarAsset'));
+    const client = new RpcClient(TEST_URL);
+    await expect(client.getContractWasmByContractId(contractId)).rejects.toThrow(
+      'Stellar Asset Contract',
+    );
+  });
+
+  it('throws when the instance is missing', async () => {
+    mockRpcResponse({ latestLedger: 100 });
+    const client = new RpcClient(TEST_URL);
+    await expect(client.getContractWasmByContractId(contractId)).rejects.toThrow(
+      'Contract instance not found',
+    );
+  });
+
+  it('accepts a hex wasm hash', async () => {
+    mockRpcResponse(codeEntry());
+    const client = new RpcClient(TEST_URL);
+    expect(await client.getContractWasmByHash('ab'.repeat(32))).toEqual(wasm);
+  });
+
+  it('throws RpcError when the code entry is missing', async () => {
+    mockRpcResponse({ latestLedger: 100 });
+    const client = new RpcClient(TEST_URL);
+    const err = await client.getContractWasmByHash(wasmHash).catch((e) => e);
+    expect(err).toBeInstanceOf(RpcError);
+    expect(err.message).toBe(`Contract code not found: ${'ab'.repeat(32)}`);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // pollTransaction
 // ---------------------------------------------------------------------------
@@ -399,6 +527,29 @@ describe('pollTransaction', () => {
       client.pollTransaction('hash123', { attempts: 3, sleepStrategy: () => 0 }),
     ).rejects.toThrow('not found after 3 attempts');
   });
+
+  it('throws TransactionFailedError for FAILED transactions', async () => {
+    mockRpcResponse({
+      status: 'FAILED',
+      latestLedger: 102,
+      latestLedgerCloseTime: 1700000010,
+      oldestLedger: 1,
+      oldestLedgerCloseTime: 1690000000,
+      ledger: 102,
+      createdAt: 1700000010,
+      resultXdr: TransactionResult.toBase64({
+        feeCharged: 100n,
+        result: { TxFAILED: [{ OpINNER: { InvokeHostFunction: 'Trapped' } }] },
+        ext: '0',
+      }),
+    });
+
+    const client = new RpcClient(TEST_URL);
+    await expect(client.pollTransaction('hash123')).rejects.toThrow(
+      'Transaction hash123 failed: TxFAILED — One or more operations failed.; ' +
+        'operation 0 (InvokeHostFunction): Trapped',
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -428,3 +579,438 @@ describe('prepareTransaction', () => {
     await expect(client.prepareTransaction(envelope)).rejects.toThrow('Simulation failed');
   });
 });
+
+describe('prepareTransaction with autoRestore', () => {
+  const key = new Uint8Array(32).fill(7);
+  const address = encodeStrkey(STRKEY_ED25519_PUBLIC, key);
+  const archived: LedgerKey = {
+    ContractData: {
+      contract: { Contract: new Uint8Array(32).fill(1) },
+      key: 'LedgerKeyContractInstance',
+      durability: 'Persistent',
+    },
+  };
+
+  function sorobanData(resourceFee: bigint, readWrite: LedgerKey[] = []): string {
+    return SorobanTransactionData.toBase64({
+      ext: '0',
+      resources: {
+        footprint: { readOnly: [], readWrite },
+        instructions: 100,
+        diskReadBytes: 0,
+        writeBytes: 0,
+      },
+      resourceFee,
+    });
+  }
+
+  const envelope: TransactionEnvelope = {
+    Tx: {
+      tx: {
+        sourceAccount: { Ed25519: key },
+        fee: 100,
+        seqNum: 43n,
+        cond: 'None',
+        memo: 'None',
+        operations: [
+          {
+            sourceAccount: null,
+            body: {
+              InvokeHostFunction: {
+                hostFunction: {
+                  InvokeContract: {
+                    contractAddress: { Contract: new Uint8Array(32).fill(1) },
+                    functionName: 'hello',
+                    args: [],
+                  },
+                },
+                auth: [],
+              },
+            },
+          },
+        ],
+        ext: '0',
+      },
+      signatures: [],
+    },
+  };
+
+  const restoreSim = {
+    latestLedger: 100,
+    minResourceFee: '3000',
+    transactionData: sorobanData(3000n),
+    results: [{ xdr: 'AAAAAQ==', auth: [] }],
+    restorePreamble: { minResourceFee: '2000', transactionData: sorobanData(2000n, [archived]) },
+  };
+  const cleanSim = { ...restoreSim, restorePreamble: undefined };
+
+  const account: LedgerEntryData = {
+    Account: {
+      accountID: { PublicKeyTypeEd25519: key },
+      balance: 100_0000000n,
+      seqNum: 42n,
+      numSubEntries: 0,
+      inflationDest: null,
+      flags: 0,
+      homeDomain: '',
+      thresholds: new Uint8Array([1, 0, 0, 0]),
+      signers: [],
+      ext: '0',
+    },
+  };
+
+  function makeSigner() {
+    return {
+      publicKey: address,
+      signTransactionHash: vi.fn(async () => new Uint8Array(64).fill(9)),
+      signAuthEntry: vi.fn(),
+      signPayload: vi.fn(),
+    };
+  }
+
+  it('restores archived entries, bumps the sequence and re-simulates', async () => {
+    const fetchFn = mockRpcSequence([
+      restoreSim,
+      {
+        latestLedger: 100,
+        entries: [
+          {
+            key: LedgerKey.toBase64({ Account: { accountID: { PublicKeyTypeEd25519: key } } }),
+            xdr: LedgerEntryData.toBase64(account),
+            lastModifiedLedgerSeq: 50,
+          },
+        ],
+      },
+      { hash: 'ignored', status: 'PENDING', latestLedger: 100, latestLedgerCloseTime: 1700000000 },
+      {
+        status: 'SUCCESS',
+        latestLedger: 101,
+        latestLedgerCloseTime: 1700000005,
+        oldestLedger: 1,
+        oldestLedgerCloseTime: 1690000000,
+        ledger: 101,
+        envelopeXdr: TransactionEnvelope.toBase64(envelope),
+        resultXdr: TransactionResult.toBase64({ feeCharged: 2050n, result: { TxSUCCESS: [] }, ext: '0' }),
+      },
+      cleanSim,
+    ]);
+
+    const client = new RpcClient(TEST_URL);
+    const prepared = await client.prepareTransaction(envelope, {
+      autoRestore: true,
+      signer: makeSigner(),
+      networkPassphrase: 'Test SDF Network ; September 2015',
+      poll: { sleepStrategy: () => 0 },
+    });
+
+    const requests = fetchFn.mock.calls.map((c) => JSON.parse(c[1].body));
+    expect(requests.map((r) => r.method)).toEqual([
+      'simulateTransaction',
+      'getLedgerEntries',
+      'sendTransaction',
+      'getTransaction',
+      'simulateTransaction',
+    ]);
+
+    const sent = TransactionEnvelope.fromBase64(requests[2].params.transaction);
+    if (!is(sent, 'Tx')) throw new Error('expected v1 envelope');
+    expect(sent.Tx.tx.seqNum).toBe(43n);
+    expect(sent.Tx.tx.fee).toBe(2100);
+    expect(sent.Tx.tx.operations[0]!.body).toEqual({ RestoreFootprint: { ext: '0' } });
+    expect(sent.Tx.signatures).toEqual([{ hint: key.slice(-4), signature: new Uint8Array(64).fill(9) }]);
+    const restoreHash = await transactionHash(sent.Tx.tx, 'Test SDF Network ; September 2015');
+    expect(requests[3].params.hash).toBe(bytesToHex(restoreHash));
+
+    const resimulated = TransactionEnvelope.fromBase64(requests[4].params.transaction);
+    expect(is(resimulated, 'Tx') && resimulated.Tx.tx.seqNum).toBe(44n);
+
+    expect(prepared.restore).toEqual({
+      hash: requests[3].params.hash,
+      ledger: 101,
+      restoredKeys: [archived],
+      maxFee: 2100,
+      feeCharged: 2050n,
+    });
+    expect(is(prepared.envelope, 'Tx') && prepared.envelope.Tx.tx.fee).toBe(3100);
+  });
+
+  it('returns no restore report when none is needed', async () => {
+    mockRpcResponse(cleanSim);
+    const signer = makeSigner();
+    const client = new RpcClient(TEST_URL);
+    const prepared = await client.prepareTransaction(envelope, { autoRestore: true, signer });
+    expect(prepared.restore).toBeNull();
+    expect(signer.signTransactionHash).not.toHaveBeenCalled();
+  });
+
+  it('rejects a restore preamble without autoRestore', async () => {
+    mockRpcResponse(restoreSim);
+    const client = new RpcClient(TEST_URL);
+    await expect(client.prepareTransaction(envelope, {})).rejects.toThrow(
+      'requires restoring archived ledger entries',
+    );
+  });
+
+  it('requires a signer for autoRestore', async () => {
+    mockRpcResponse(restoreSim);
+    const client = new RpcClient(TEST_URL);
+    await expect(client.prepareTransaction(envelope, { autoRestore: true })).rejects.toThrow(
+      'autoRestore requires a signer',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+describe('iterateEvents', () => {
+  const health = { status: 'healthy', latestLedger: 200, oldestLedger: 100, ledgerRetentionWindow: 100 };
+
+  function rawEvent(ledger: number, index: number) {
+    return {
+      type: 'contract',
+      ledger,
+      ledgerClosedAt: '2024-01-01T00:00:00Z',
+      contractId: encodeStrkey(STRKEY_CONTRACT, new Uint8Array(32)),
+      id: `${ledger}-${index}`,
+      txHash: 'ab'.repeat(32),
+      topic: [SCVal.toBase64({ Symbol: 'transfer' })],
+      value: SCVal.toBase64({ U32: index }),
+      inSuccessfulContractCall: true,
+    };
+  }
+
+  function requestBody(fetchFn: ReturnType<typeof vi.fn>, call: number) {
+    return JSON.parse(fetchFn.mock.calls[call]![1].body).params;
+  }
+
+  /** `getEvents` cursor at the start of `ledger`. */
+  function cursor(ledger: number): string {
+    return `${(BigInt(ledger) << 32n).toString().padStart(19, '0')}-0000000000`;
+  }
+
+  it('clamps the start ledger and follows the cursor', async () => {
+    const fetchFn = mockRpcSequence([
+      health,
+      { latestLedger: 200, events: [rawEvent(100, 0), rawEvent(101, 0)], cursor: 'c1' },
+      { latestLedger: 200, events: [rawEvent(150, 0)], cursor: 'c2' },
+      { latestLedger: 200, events: [], cursor: 'c3' },
+    ]);
+    const client = new RpcClient(TEST_URL);
+    const filter = { type: 'contract' as const };
+
+    const ids: string[] = [];
+    for await (const event of client.iterateEvents(filter, { startLedger: 50, limit: 2 })) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['100-0', '101-0', '150-0']);
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+    expect(requestBody(fetchFn, 1)).toEqual({
+      filters: [filter],
+      startLedger: 100,
+      pagination: { limit: 2 },
+    });
+    expect(requestBody(fetchFn, 2)).toEqual({
+      filters: [filter],
+      pagination: { cursor: 'c1', limit: 2 },
+    });
+  });
+
+  it('resumes from a cursor and stops before endLedger', async () => {
+    const fetchFn = mockRpcSequence([
+      { latestLedger: 200, events: [rawEvent(120, 0), rawEvent(121, 0)], cursor: 'c2' },
+    ]);
+    const client = new RpcClient(TEST_URL);
+
+    const ids: string[] = [];
+    for await (const event of client.iterateEvents([], { cursor: 'c1', endLedger: 121 })) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['120-0']);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(requestBody(fetchFn, 0)).toEqual({ filters: [], pagination: { cursor: 'c1' } });
+  });
+
+  it('follows empty pages while the cursor advances', async () => {
+    const fetchFn = mockRpcSequence([
+      health,
+      { latestLedger: 200, events: [], cursor: cursor(120) },
+      { latestLedger: 200, events: [rawEvent(150, 0)], cursor: cursor(151) },
+      { latestLedger: 200, events: [], cursor: cursor(201) },
+    ]);
+    const client = new RpcClient(TEST_URL);
+
+    const ids: string[] = [];
+    for await (const event of client.iterateEvents([])) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual(['150-0']);
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+    expect(requestBody(fetchFn, 2)).toEqual({ filters: [], pagination: { cursor: cursor(120) } });
+  });
+
+  it('stops at an empty page whose cursor reaches endLedger', async () => {
+    const fetchFn = mockRpcSequence([{ latestLedger: 200, events: [], cursor: cursor(130) }]);
+    const client = new RpcClient(TEST_URL);
+
+    const ids: string[] = [];
+    for await (const event of client.iterateEvents([], { cursor: cursor(110), endLedger: 130 })) {
+      ids.push(event.id);
+    }
+
+    expect(ids).toEqual([]);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    mockRpcSequence([
+      health,
+      { latestLedger: 200, events: [rawEvent(100, 0), rawEvent(100, 1)], cursor: 'c1' },
+    ]);
+    const client = new RpcClient(TEST_URL);
+    const controller = new AbortController();
+
+    const ids: string[] = [];
+    await expect(async () => {
+      for await (const event of client.iterateEvents([], { signal: controller.signal })) {
+        ids.push(event.id);
+        controller.abort();
+      }
+    }).rejects.toThrow();
+    expect(ids).toEqual(['100-0']);
+  });
+});
+
+describe('iterateTransactions', () => {
+  const envelope: TransactionEnvelope = {
+    Tx: {
+      tx: {
+        sourceAccount: { Ed25519: new Uint8Array(32) },
+        fee: 100,
+        seqNum: 1n,
+        cond: 'None',
+        memo: 'None',
+        operations: [],
+        ext: '0',
+      },
+      signatures: [],
+    },
+  };
+
+  function rawTransaction(ledger: number, applicationOrder: number) {
+    return {
+      status: 'SUCCESS',
+      txHash: ledger.toString(16).padStart(64, '0'),
+      ledger,
+      createdAt: 1700000000,
+      applicationOrder,
+      feeBump: false,
+      envelopeXdr: TransactionEnvelope.toBase64(envelope),
+      resultXdr: TransactionResult.toBase64({
+        feeCharged: 100n,
+        result: { TxSUCCESS: [] },
+        ext: '0',
+      }),
+      resultMetaXdr: TransactionMeta.toBase64({ '0': [] }),
+    };
+  }
+
+  const page = (transactions: ReturnType<typeof rawTransaction>[], cursor: bigint) => ({
+    transactions,
+    latestLedger: 110,
+    latestLedgerCloseTimestamp: 0,
+    oldestLedger: 100,
+    oldestLedgerCloseTimestamp: 0,
+    cursor: cursor.toString(),
+  });
+
+  it('follows the cursor and decodes each transaction', async () => {
+    const toid = (ledger: number, tx: number) => (BigInt(ledger) << 32n) | (BigInt(tx) << 12n);
+    const fetchFn = mockRpcSequence([
+      page([rawTransaction(101, 1), rawTransaction(101, 2)], toid(101, 2)),
+      page([], toid(105, 0)),
+      page([rawTransaction(108, 1)], toid(108, 1)),
+      page([], toid(111, 0)),
+    ]);
+    const client = new RpcClient(TEST_URL);
+
+    const seen: string[] = [];
+    const start = toid(100, 0).toString();
+    for await (const tx of client.iterateTransactions({ cursor: start, limit: 2 })) {
+      expect(is(tx.envelopeXdr, 'Tx')).toBe(true);
+      expect(tx.resultXdr.feeCharged).toBe(100n);
+      seen.push(`${tx.ledger}/${tx.applicationOrder}`);
+    }
+
+    expect(seen).toEqual(['101/1', '101/2', '108/1']);
+    expect(fetchFn).toHaveBeenCalledTimes(4);
+    expect(JSON.parse(fetchFn.mock.calls[1]![1].body).params).toEqual({
+      pagination: { cursor: toid(101, 2).toString(), limit: 2 },
+    });
+  });
+});
+
+describe('iterateLedgers', () => {
+  function rawLedger(sequence: number) {
+    const header: LedgerHeader = {
+      ledgerVersion: 22,
+      previousLedgerHash: new Uint8Array(32),
+      scpValue: { txSetHash: new Uint8Array(32), closeTime: 0n, upgrades: [], ext: 'Basic' },
+      txSetResultHash: new Uint8Array(32),
+      bucketListHash: new Uint8Array(32),
+      ledgerSeq: sequence,
+      totalCoins: 0n,
+      feePool: 0n,
+      inflationSeq: 0,
+      idPool: 0n,
+      baseFee: 100,
+      baseReserve: 5000000,
+      maxTxSetSize: 100,
+      skipList: [new Uint8Array(32), new Uint8Array(32), new Uint8Array(32), new Uint8Array(32)],
+      ext: '0',
+    };
+    const entry = { hash: new Uint8Array(32), header, ext: '0' } as const;
+    const meta: LedgerCloseMeta = {
+      '0': {
+        ledgerHeader: entry,
+        txSet: { previousLedgerHash: new Uint8Array(32), txs: [] },
+        txProcessing: [],
+        upgradesProcessing: [],
+        scpInfo: [],
+      },
+    };
+    return {
+      hash: 'ab'.repeat(32),
+      sequence,
+      ledgerCloseTime: '0',
+      headerXdr: LedgerHeaderHistoryEntry.toBase64(entry),
+      metadataXdr: LedgerCloseMeta.toBase64(meta),
+    };
+  }
+
+  it('stops once the latest ledger has been read', async () => {
+    const page = (ledgers: number[], cursor: string) => ({
+      ledgers: ledgers.map(rawLedger),
+      latestLedger: 103,
+      latestLedgerCloseTime: 0,
+      oldestLedger: 100,
+      oldestLedgerCloseTime: 0,
+      cursor,
+    });
+    const fetchFn = mockRpcSequence([page([101, 102], '102'), page([103], '103')]);
+    const client = new RpcClient(TEST_URL);
+
+    const sequences: number[] = [];
+    for await (const ledger of client.iterateLedgers({ cursor: '100', limit: 2 })) {
+      sequences.push(ledger.sequence);
+      expect(ledger.headerXdr.header.ledgerSeq).toBe(ledger.sequence);
+    }
+
+    expect(sequences).toEqual([101, 102, 103]);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RpcError, RpcHttpError } from '../src/errors.js';
+import { eventSubscription, type CursorStore } from '../src/subscribe.js';
+import type { EventInfo, GetEventsResponse } from '../src/types.js';
+
+const health = { status: 'healthy', latestLedger: 200, oldestLedger: 100, ledgerRetentionWindow: 100 };
+
+function event(ledger: number, index: number): EventInfo {
+  return {
+    type: 'contract',
+    ledger,
+    ledgerClosedAt: '2024-01-01T00:00:00Z',
+    contractId: 'C',
+    id: `${ledger}-${index}`,
+    txHash: 'ab'.repeat(32),
+    topic: [{ Symbol: 'transfer' }],
+    value: { U32: index },
+    inSuccessfulContractCall: true,
+  };
+}
+
+function page(events: EventInfo[], cursor: string): GetEventsResponse {
+  return { latestLedger: 200, events, cursor };
+}
+
+/** Fake RPC whose getEvents answers from `pages`, then returns empty pages. */
+function fakeRpc(pages: (GetEventsResponse | Error)[]) {
+  return {
+    getHealth: vi.fn(async () => health),
+    getEvents: vi.fn(async () => {
+      const next = pages.shift() ?? page([], 'end');
+      if (next instanceof Error) throw next;
+      return next;
+    }),
+  };
+}
+
+function memoryStore(cursor?: string): CursorStore & { saved: string[] } {
+  const saved: string[] = [];
+  return { saved, load: () => cursor, save: (c) => void saved.push(c) };
+}
+
+describe('eventSubscription', () => {
+  it('tails from the latest ledger and skips duplicate ids', async () => {
+    const rpc = fakeRpc([
+      page([event(200, 0), event(200, 1)], 'c1'),
+      page([event(200, 1), event(201, 0)], 'c2'),
+    ]);
+    const store = memoryStore();
+    const ids: string[] = [];
+    const sub = eventSubscription(
+      rpc,
+      [{ type: 'contract' }],
+      (e) => {
+        ids.push(e.id);
+        if (e.id === '201-0') sub.close();
+      },
+      { cursorStore: store, pollInterval: 1 },
+    );
+    await sub.done;
+
+    expect(ids).toEqual(['200-0', '200-1', '201-0']);
+    expect(rpc.getEvents.mock.calls).toEqual([
+      [{ filters: [{ type: 'contract' }], startLedger: 200, pagination: { limit: undefined } }],
+      [{ filters: [{ type: 'contract' }], pagination: { cursor: 'c1', limit: undefined } }],
+    ]);
+    expect(store.saved).toEqual(['c1']);
+  });
+
+  it('backs off and retries on -32xxx errors', async () => {
+    const rpc = fakeRpc([
+      new RpcError(-32603, 'internal error'),
+      new RpcError(-32603, 'internal error'),
+      page([event(150, 0)], 'c1'),
+    ]);
+    const errors: Error[] = [];
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+    const sub = eventSubscription(rpc, [], () => sub.close(), {
+      startLedger: 150,
+      pollInterval: 1,
+      onError: (err) => errors.push(err),
+    });
+    await sub.done;
+
+    expect(errors.map((e) => (e as RpcError).code)).toEqual([-32603, -32603]);
+    expect(setTimeoutSpy.mock.calls.map(([, ms]) => ms)).toEqual([1, 2]);
+    // Retention is re-checked after each error.
+    expect(rpc.getHealth).toHaveBeenCalledTimes(3);
+    setTimeoutSpy.mockRestore();
+  });
+
+  it('ends with an error on non-retryable failures', async () => {
+    const rpc = fakeRpc([
+      new RpcHttpError(500, 'Internal Server Error'),
+      new RpcHttpError(429, 'Too Many Requests'),
+      new TypeError('fetch failed'),
+      new Error('bad xdr'),
+    ]);
+    const sub = eventSubscription(rpc, [], () => {}, { pollInterval: 1 });
+    await expect(sub.done).rejects.toThrow('bad xdr');
+    expect(rpc.getEvents).toHaveBeenCalledTimes(4);
+  });
+
+  it('ends on 4xx responses and permanent RPC errors', async () => {
+    for (const error of [
+      new RpcHttpError(401, 'Unauthorized'),
+      new RpcHttpError(404, 'Not Found'),
+      new RpcError(-1, 'Contract instance not found: C'),
+      new RpcError(-32602, 'invalid params'),
+    ]) {
+      const rpc = fakeRpc([error]);
+      const onError = vi.fn();
+      const sub = eventSubscription(rpc, [], () => {}, { pollInterval: 1, onError });
+      await expect(sub.done).rejects.toBe(error);
+      expect(rpc.getEvents).toHaveBeenCalledTimes(1);
+      expect(onError).not.toHaveBeenCalled();
+    }
+  });
+
+  it('reports a gap when the stored cursor is out of retention', async () => {
+    const stale = `${(50n << 32n).toString().padStart(19, '0')}-0000000000`;
+    const rpc = fakeRpc([page([event(100, 0)], 'c1')]);
+    const gaps: unknown[] = [];
+    const sub = eventSubscription(rpc, [], () => sub.close(), {
+      cursorStore: memoryStore(stale),
+      pollInterval: 1,
+      onGap: (gap) => gaps.push(gap),
+    });
+    await sub.done;
+
+    expect(gaps).toEqual([{ cursor: stale, fromLedger: 50, toLedger: 100 }]);
+    expect(rpc.getEvents).toHaveBeenCalledWith({
+      filters: [],
+      startLedger: 100,
+      pagination: { limit: undefined },
+    });
+  });
+
+  it('reports a gap when the start ledger is out of retention', async () => {
+    const rpc = fakeRpc([page([event(100, 0)], 'c1')]);
+    const onGap = vi.fn();
+    const sub = eventSubscription(rpc, [], () => sub.close(), { startLedger: 10, pollInterval: 1, onGap });
+    await sub.done;
+    expect(onGap).toHaveBeenCalledWith({ fromLedger: 10, toLedger: 100 });
+  });
+
+  it('rejects done when the handler throws', async () => {
+    const rpc = fakeRpc([page([event(200, 0)], 'c1')]);
+    const store = memoryStore();
+    const sub = eventSubscription(
+      rpc,
+      [],
+      () => {
+        throw new Error('handler failed');
+      },
+      { cursorStore: store, pollInterval: 1 },
+    );
+    await expect(sub.done).rejects.toThrow('handler failed');
+    expect(store.saved).toEqual([]);
+  });
+});
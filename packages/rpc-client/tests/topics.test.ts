@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { SCVal, encodeStrkey, STRKEY_CONTRACT, STRKEY_ED25519_PUBLIC } from '@stellar/xdr';
+import { topicFilter } from '../src/topics.js';
+
+describe('topicFilter', () => {
+  it('encodes symbols, addresses, booleans and SCVals', () => {
+    const account = encodeStrkey(STRKEY_ED25519_PUBLIC, new Uint8Array(32).fill(1));
+    const contract = encodeStrkey(STRKEY_CONTRACT, new Uint8Array(32).fill(2));
+    const topics = topicFilter(['transfer', account, contract, true, { String: 'USDC' }]);
+
+    expect(topics.map((t) => SCVal.fromBase64(t))).toEqual([
+      { Symbol: 'transfer' },
+      { Address: { Account: { PublicKeyTypeEd25519: new Uint8Array(32).fill(1) } } },
+      { Address: { Contract: new Uint8Array(32).fill(2) } },
+      { Bool: true },
+      { String: 'USDC' },
+    ]);
+  });
+
+  it('passes wildcards through', () => {
+    expect(topicFilter(['*', 'mint', '**']).filter((t) => t.startsWith('*'))).toEqual(['*', '**']);
+  });
+
+  it("rejects '**' before the last segment", () => {
+    expect(() => topicFilter(['**', 'mint'])).toThrow("'**' is only allowed as the last topic segment");
+  });
+
+  it('rejects strings that are neither symbols nor addresses', () => {
+    expect(() => topicFilter(['not a symbol'])).toThrow(TypeError);
+  });
+});
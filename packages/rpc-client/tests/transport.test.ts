@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { jsonRpcPost } from '../src/transport.js';
-import { RpcError } from '../src/errors.js';
+import { RpcError, RpcHttpError } from '../src/errors.js';
 
 describe('jsonRpcPost', () => {
   const originalFetch = globalThis.fetch;
@@ -80,9 +80,10 @@ describe('jsonRpcPost', () => {
     try {
       await jsonRpcPost('https://rpc.example.com', 'getHealth', {});
     } catch (e) {
-      expect(e).toBeInstanceOf(RpcError);
-      expect((e as RpcError).code).toBe(-1);
-      expect((e as RpcError).message).toContain('503');
+      expect(e).toBeInstanceOf(RpcHttpError);
+      expect((e as RpcHttpError).code).toBe(-1);
+      expect((e as RpcHttpError).status).toBe(503);
+      expect((e as RpcHttpError).message).toContain('503');
     }
   });
 
@@ -23,6 +23,7 @@ import type {
 } from './types.js';
 import { DEFAULT_TIMEOUT, NULL_ACCOUNT } from './types.js';
 import { SentTransaction } from './sent-transaction.js';
+import { unwrapFailure } from '../soroban-rpc/server.js';
 
 export interface AssembledTransactionOptions<T> extends MethodOptions {
   method?: string;
@@ -94,7 +95,7 @@ export class AssembledTransaction<T> {
           const { RpcClient } = await import('@stellar/rpc-client');
           const client = new RpcClient(this._url);
           const envelope = tx.toEnvelope ? tx.toEnvelope() : tx;
-          return client.sendTransaction(envelope) as any;
+          return unwrapFailure(client.sendTransaction(envelope));
         },
         async getTransaction(hash: string): Promise<any> {
           const { RpcClient } = await import('@stellar/rpc-client');
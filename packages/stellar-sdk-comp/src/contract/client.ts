@@ -4,6 +4,7 @@
  */
 
 import { Spec } from '@stellar/contracts';
+import { decodeBase64 } from '@stellar/xdr';
 import { Operation, Account, TransactionBuilder, BASE_FEE } from '@stellar/stellar-base-comp';
 import type { ClientOptions, MethodOptions } from './types.js';
 import { DEFAULT_TIMEOUT, NULL_ACCOUNT } from './types.js';
@@ -29,11 +30,12 @@ export class Client {
     }
 
     const { RpcClient } = await import('@stellar/rpc-client');
-    const client = new RpcClient(options.rpcUrl, { allowHttp: options.allowHttp });
-
-    // Fetch the contract's WASM to get the spec
-    // For now, this is a simplified implementation
-    throw new Error('Client.from() requires fetching contract spec from network — use Client constructor with a Spec instead');
+    const rpc = new RpcClient(options.rpcUrl, {
+      allowHttp: options.allowHttp,
+      headers: options.headers,
+    });
+    const spec = await Spec.fromContract(rpc, options.contractId);
+    return new Client(spec, options);
   }
 
   /**
@@ -42,9 +44,18 @@ export class Client {
   static async fromWasmHash(
     wasmHash: Uint8Array | string,
     options: ClientOptions,
-    format?: 'hex' | 'base64',
+    format: 'hex' | 'base64' = 'hex',
   ): Promise<Client> {
-    throw new Error('Client.fromWasmHash() requires fetching WASM from network — use Client constructor with a Spec instead');
+    const { RpcClient } = await import('@stellar/rpc-client');
+    const rpc = new RpcClient(options.rpcUrl, {
+      allowHttp: options.allowHttp,
+      headers: options.headers,
+    });
+    const hash = typeof wasmHash === 'string'
+      ? (format === 'base64' ? decodeBase64(wasmHash) : hexToBytes(wasmHash))
+      : wasmHash;
+    const wasm = await rpc.getContractWasmByHash(hash);
+    return Client.fromWasm(wasm, options);
   }
 
   /**
@@ -54,8 +65,7 @@ export class Client {
     wasm: Uint8Array,
     options: ClientOptions,
   ): Promise<Client> {
-    const spec = new Spec(wasm as any);
-    return new Client(spec, options);
+    return new Client(Spec.fromWasm(wasm), options);
   }
 
   /**
@@ -10,6 +10,7 @@ import {
 import {
   type TransactionEnvelope,
   TransactionEnvelope as TransactionEnvelopeCodec,
+  TransactionFailedError,
 } from '@stellar/xdr';
 import type { Asset } from '@stellar/stellar-base-comp';
 import { Transaction, FeeBumpTransaction } from '@stellar/stellar-base-comp';
@@ -179,7 +180,13 @@ export class Server {
 
   async submitTransaction(tx: any): Promise<SubmitTransactionResponse> {
     const envelope = this._extractEnvelope(tx);
-    return this._client.submitTransaction(envelope);
+    try {
+      return await this._client.submitTransaction(envelope);
+    } catch (err) {
+      // Keep throwing the HorizonError, as the official SDK does.
+      if (err instanceof TransactionFailedError && err.cause) throw err.cause;
+      throw err;
+    }
   }
 
   async submitAsyncTransaction(tx: any): Promise<SubmitAsyncTransactionResponse> {
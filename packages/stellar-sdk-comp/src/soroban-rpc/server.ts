@@ -12,6 +12,7 @@ import {
   decodeStrkey,
   encodeStrkey,
   STRKEY_ED25519_PUBLIC,
+  TransactionFailedError,
 } from '@stellar/xdr';
 import { Account } from '@stellar/stellar-base-comp';
 import type {
@@ -101,7 +102,7 @@ export class Server {
     } else {
       envelope = tx;
     }
-    const result = await this._client.sendTransaction(envelope) as any;
+    const result = await unwrapFailure(this._client.sendTransaction(envelope));
     // Official SDK exposes `errorResult` alongside `errorResultXdr`
     if (result.errorResultXdr && !result.errorResult) {
       result.errorResult = result.errorResultXdr;
@@ -149,7 +150,19 @@ export class Server {
   }
 
   async pollTransaction(hash: string, opts?: { attempts?: number; sleepStrategy?: (attempt: number) => number }): Promise<GetTransactionResponse> {
-    const result = await this._client.pollTransaction(hash, opts);
+    const result = await unwrapFailure(this._client.pollTransaction(hash, opts));
     return result as any;
   }
 }
+
+/**
+ * The official SDK returns `ERROR`/`FAILED` responses instead of throwing.
+ */
+export async function unwrapFailure<T>(pending: Promise<T>): Promise<any> {
+  try {
+    return await pending;
+  } catch (err) {
+    if (err instanceof TransactionFailedError) return err.response;
+    throw err;
+  }
+}
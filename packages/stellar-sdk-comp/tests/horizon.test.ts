@@ -35,6 +35,7 @@ function mockFetch(body: unknown) {
     ok: true,
     status: 200,
     statusText: 'OK',
+    headers: new Headers(),
     json: () => Promise.resolve(body),
   });
   globalThis.fetch = fn;
@@ -66,6 +67,7 @@ function mockStreamFetch(chunks: string[]) {
     ok: true,
     status: 200,
     statusText: 'OK',
+    headers: new Headers(),
     body,
   });
   globalThis.fetch = fn;
@@ -177,6 +179,7 @@ describe('CallBuilder pagination', () => {
     const fn = vi.fn()
       .mockResolvedValueOnce({
         ok: true, status: 200, statusText: 'OK',
+        headers: new Headers(),
         json: () => Promise.resolve(halCollection(
           [{ sequence: 1 }],
           'cursor2',
@@ -184,6 +187,7 @@ describe('CallBuilder pagination', () => {
       })
       .mockResolvedValueOnce({
         ok: true, status: 200, statusText: 'OK',
+        headers: new Headers(),
         json: () => Promise.resolve(halCollection([{ sequence: 2 }])),
       });
     globalThis.fetch = fn;
@@ -784,6 +788,7 @@ describe('submitTransaction()', () => {
       ok: true,
       status: 200,
       statusText: 'OK',
+      headers: new Headers(),
       json: () => Promise.resolve({
         hash: 'abc123',
         ledger: 42,
@@ -804,6 +809,28 @@ describe('submitTransaction()', () => {
     const url = new URL(call[0] as string);
     expect(url.pathname).toBe('/transactions');
   });
+
+  it('throws the HorizonError for failed transactions', async () => {
+    const validEnvelopeXdr =
+      'AAAAAgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGQAAAAAAAAAAQAAAAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==';
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+      headers: new Headers(),
+      json: () => Promise.resolve({
+        type: 'transaction_failed',
+        extras: { result_codes: { transaction: 'tx_bad_seq' } },
+      }),
+    });
+
+    const fakeTx = { toXDR: () => validEnvelopeXdr };
+    await expect(server.submitTransaction(fakeTx)).rejects.toMatchObject({
+      name: 'HorizonError',
+      status: 400,
+      extras: { result_codes: { transaction: 'tx_bad_seq' } },
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -818,6 +845,7 @@ describe('submitAsyncTransaction()', () => {
       ok: true,
       status: 200,
       statusText: 'OK',
+      headers: new Headers(),
       json: () => Promise.resolve({
         hash: 'def456',
         tx_status: 'PENDING',
@@ -884,6 +912,7 @@ describe('custom headers', () => {
       ok: true,
       status: 200,
       statusText: 'OK',
+      headers: new Headers(),
       json: () => Promise.resolve(halCollection([])),
     });
     globalThis.fetch = fn;
@@ -909,6 +938,7 @@ describe('error handling', () => {
       ok: false,
       status: 404,
       statusText: 'Not Found',
+      headers: new Headers(),
       json: () => Promise.resolve({ detail: 'Resource not found' }),
     });
     globalThis.fetch = fn;
@@ -922,6 +952,7 @@ describe('error handling', () => {
       ok: false,
       status: 500,
       statusText: 'Internal Server Error',
+      headers: new Headers(),
       json: () => Promise.resolve({ title: 'Server Error' }),
     });
 
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TransactionEnvelope } from '@stellar/xdr';
 import { SorobanRpc } from '../src/index.js';
 
 const originalFetch = globalThis.fetch;
@@ -270,6 +271,22 @@ describe('sendTransaction()', () => {
     // Should be valid base64
     expect(params.transaction).toBe(VALID_TX_ENVELOPE_XDR);
   });
+
+  it('returns ERROR responses instead of throwing', async () => {
+    mockJsonRpc({
+      status: 'ERROR',
+      hash: 'abc123def456',
+      latestLedger: 1000,
+      latestLedgerCloseTime: '1234567890',
+      // TransactionResult: feeCharged=100, txBAD_SEQ
+      errorResultXdr: 'AAAAAAAAAGT////7AAAAAA==',
+    });
+    const result = await server.sendTransaction(
+      TransactionEnvelope.fromBase64(VALID_TX_ENVELOPE_XDR),
+    );
+    expect(result.status).toBe('ERROR');
+    expect((result as any).errorResult.result).toBe('TxBADSeq');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,203 @@
+import {
+  HashIDPreimage,
+  is,
+  type SCVal,
+  type SorobanAuthorizationEntry,
+  type SorobanAuthorizedInvocation,
+  type Transaction,
+} from '@stellar/xdr';
+import { Keypair } from './keypair.js';
+import { networkId, sha256, transactionHash } from './hash.js';
+import { parsePublicKey } from './helpers.js';
+import type { Signer } from './signer.js';
+import { BuiltTransaction } from './transaction.js';
+
+/**
+ * Signs a Soroban authorization payload. Receives the preimage and its
+ * SHA-256 hash (the bytes to sign) and returns the ed25519 signature, or the
+ * signature plus the signing G-address when it differs from the entry's.
+ */
+export type AuthSigningCallback = (
+  preimage: HashIDPreimage,
+  payload: Uint8Array,
+) => Promise<Uint8Array | { signature: Uint8Array; publicKey: string }>;
+
+export type AuthSigner = Signer | AuthSigningCallback;
+
+/**
+ * Sign a `SorobanAuthorizationEntry` with Address credentials.
+ *
+ * Builds the `SorobanAuthorization` hash preimage for the entry's nonce and
+ * invocation, signs it, and returns a new entry whose signature is
+ * `Vec([Map({ public_key, signature })])` and whose expiration is
+ * `validUntilLedgerSeq`. Entries with SourceAccount credentials are returned
+ * unchanged.
+ */
+export async function authorizeEntry(
+  entry: SorobanAuthorizationEntry,
+  signer: AuthSigner,
+  validUntilLedgerSeq: number,
+  networkPassphrase: string,
+): Promise<SorobanAuthorizationEntry> {
+  if (!is(entry.credentials, 'Address')) {
+    return entry;
+  }
+  const creds = entry.credentials.Address;
+  const accountKey = is(creds.address, 'Account')
+    ? creds.address.Account.PublicKeyTypeEd25519
+    : null;
+
+  const signerKey =
+    typeof signer === 'function' ? null : parsePublicKey(signer.publicKey).PublicKeyTypeEd25519;
+  if (signerKey !== null && accountKey !== null && !bytesEqual(signerKey, accountKey)) {
+    throw new Error("Signer's public key doesn't match the entry's credential address");
+  }
+
+  const preimage: HashIDPreimage = {
+    SorobanAuthorization: {
+      networkID: await networkId(networkPassphrase),
+      nonce: creds.nonce,
+      signatureExpirationLedger: validUntilLedgerSeq,
+      invocation: entry.rootInvocation,
+    },
+  };
+  const payload = await sha256(HashIDPreimage.toXdr(preimage));
+
+  let signature: Uint8Array;
+  let publicKey: Uint8Array;
+  if (typeof signer !== 'function') {
+    signature = await signer.signAuthEntry(payload, preimage);
+    publicKey = parsePublicKey(signer.publicKey).PublicKeyTypeEd25519;
+  } else {
+    const result = await signer(preimage, payload);
+    if (result instanceof Uint8Array) {
+      if (accountKey === null) {
+        throw new Error('Signing callback must return a publicKey for non-account credentials');
+      }
+      signature = result;
+      publicKey = accountKey;
+    } else {
+      signature = result.signature;
+      publicKey = parsePublicKey(result.publicKey).PublicKeyTypeEd25519;
+    }
+    if (!(await Keypair.fromRawPublicKey(publicKey).verify(payload, signature))) {
+      throw new Error("Signature doesn't match the authorization entry");
+    }
+  }
+
+  return {
+    credentials: {
+      Address: {
+        ...creds,
+        signatureExpirationLedger: validUntilLedgerSeq,
+        signature: signatureScVal(publicKey, signature),
+      },
+    },
+    rootInvocation: entry.rootInvocation,
+  };
+}
+
+/**
+ * Build and sign a new authorization entry for `invocation` with a random
+ * nonce. `publicKey` is required when `signer` is a callback.
+ */
+export async function authorizeInvocation(
+  signer: AuthSigner,
+  validUntilLedgerSeq: number,
+  invocation: SorobanAuthorizedInvocation,
+  networkPassphrase: string,
+  publicKey?: string,
+): Promise<SorobanAuthorizationEntry> {
+  let address: string;
+  if (publicKey !== undefined) {
+    address = publicKey;
+  } else if (typeof signer !== 'function') {
+    address = signer.publicKey;
+  } else {
+    throw new Error('publicKey is required when using a signing callback');
+  }
+
+  const nonce = new DataView(crypto.getRandomValues(new Uint8Array(8)).buffer).getBigInt64(0);
+  const entry: SorobanAuthorizationEntry = {
+    credentials: {
+      Address: {
+        address: { Account: parsePublicKey(address) },
+        nonce,
+        signatureExpirationLedger: validUntilLedgerSeq,
+        signature: 'Void',
+      },
+    },
+    rootInvocation: invocation,
+  };
+  return authorizeEntry(entry, signer, validUntilLedgerSeq, networkPassphrase);
+}
+
+/**
+ * Sign every Address-credential authorization entry in a transaction's
+ * `invokeHostFunction` operations that belongs to the signer's account.
+ *
+ * Returns a new, unsigned `BuiltTransaction`: changing the auth entries
+ * changes the transaction hash, so existing envelope signatures would be
+ * invalid. `publicKey` is required when `signer` is a callback.
+ */
+export async function signAuthEntries(
+  tx: BuiltTransaction,
+  signer: AuthSigner,
+  validUntilLedgerSeq: number,
+  publicKey?: string,
+): Promise<BuiltTransaction> {
+  let account: Uint8Array;
+  if (publicKey !== undefined) {
+    account = parsePublicKey(publicKey).PublicKeyTypeEd25519;
+  } else if (typeof signer !== 'function') {
+    account = parsePublicKey(signer.publicKey).PublicKeyTypeEd25519;
+  } else {
+    throw new Error('publicKey is required when using a signing callback');
+  }
+
+  const operations = await Promise.all(
+    tx.tx.operations.map(async (op) => {
+      if (!is(op.body, 'InvokeHostFunction')) return op;
+      const ihf = op.body.InvokeHostFunction;
+      const auth = await Promise.all(
+        ihf.auth.map((entry) =>
+          belongsTo(entry, account)
+            ? authorizeEntry(entry, signer, validUntilLedgerSeq, tx.networkPassphrase)
+            : entry,
+        ),
+      );
+      return { ...op, body: { InvokeHostFunction: { ...ihf, auth } } };
+    }),
+  );
+
+  const newTx: Transaction = { ...tx.tx, operations };
+  const hash = await transactionHash(newTx, tx.networkPassphrase);
+  return new BuiltTransaction(newTx, hash, tx.networkPassphrase);
+}
+
+function belongsTo(entry: SorobanAuthorizationEntry, account: Uint8Array): boolean {
+  if (!is(entry.credentials, 'Address')) return false;
+  const address = entry.credentials.Address.address;
+  return is(address, 'Account') && bytesEqual(address.Account.PublicKeyTypeEd25519, account);
+}
+
+function signatureScVal(publicKey: Uint8Array, signature: Uint8Array): SCVal {
+  return {
+    Vec: [
+      {
+        Map: [
+          { key: { Symbol: 'public_key' }, val: { Bytes: publicKey } },
+          { key: { Symbol: 'signature' }, val: { Bytes: signature } },
+        ],
+      },
+    ],
+  };
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
@@ -1,12 +1,16 @@
-import type {
-  Operation,
-  Memo,
-  Preconditions,
-  PreconditionsV2,
-  TimeBounds,
-  LedgerBounds,
-  Transaction,
-  SignerKey,
+import {
+  is,
+  type Operation,
+  type Memo,
+  type Preconditions,
+  type PreconditionsV2,
+  type TimeBounds,
+  type LedgerBounds,
+  type Transaction,
+  type TransactionEnvelope,
+  type SignerKey,
+  type SorobanAuthorizationEntry,
+  type SorobanTransactionData,
 } from '@stellar/xdr';
 import { parseMuxedAccount } from './helpers.js';
 import { transactionHash } from './hash.js';
@@ -24,6 +28,57 @@ export interface TransactionBuilderOptions {
   timeBounds?: TimeBounds;
 }
 
+export type FeePercentile = 'p50' | 'p90' | 'p99';
+
+/** The fields of a successful simulation that `buildSimulated` applies. */
+export interface SimulationSuccess {
+  minResourceFee: string;
+  transactionData: SorobanTransactionData;
+  results: { auth: SorobanAuthorizationEntry[] }[];
+  restorePreamble?: { minResourceFee: string; transactionData: SorobanTransactionData };
+}
+
+/**
+ * The RPC methods `buildSimulated` needs; satisfied by `RpcClient`.
+ */
+export interface SimulationSource {
+  simulateTransaction(
+    envelope: TransactionEnvelope,
+    opts?: { resourceLeeway?: number },
+  ): Promise<SimulationSuccess | { error: string }>;
+  getFeeStats(): Promise<{ sorobanInclusionFee: Record<FeePercentile, string> }>;
+}
+
+export interface BuildSimulatedOptions {
+  /**
+   * `sorobanInclusionFee` percentile from `getFeeStats` used as the
+   * inclusion fee (default: 'p50'). Never below the builder's `fee`.
+   */
+  feePercentile?: FeePercentile;
+  /** Fraction added to the simulated resource fee, e.g. 0.2 for +20% (default: 0.1). */
+  resourceFeeMargin?: number;
+  /** CPU instructions the simulation adds on top of the measured count (default: 0). */
+  instructionLeeway?: number;
+}
+
+export interface SimulatedBuild {
+  /** Assembled, unsigned transaction with Soroban data, auth and fee applied. */
+  transaction: BuiltTransaction;
+  simulation: SimulationSuccess;
+  /** Inclusion fee in stroops. */
+  inclusionFee: number;
+  /** Resource fee in stroops declared in the transaction data, margin included. */
+  resourceFee: bigint;
+  /**
+   * Set when the footprint includes archived entries. They must be restored
+   * (a `restoreFootprint` transaction with this data) before `transaction`
+   * can succeed.
+   */
+  restorePreamble: { minResourceFee: string; transactionData: SorobanTransactionData } | null;
+}
+
+const DEFAULT_RESOURCE_FEE_MARGIN = 0.1;
+
 export class TransactionBuilder {
   private readonly sourceAccount: AccountLike;
   private readonly baseFee: number;
@@ -97,6 +152,48 @@ export class TransactionBuilder {
     return new BuiltTransaction(tx, hash, this.networkPassphrase);
   }
 
+  /**
+   * Build a Soroban transaction, simulate it and apply the result: resource
+   * data, auth entries, a resource fee with `resourceFeeMargin` and an
+   * inclusion fee from recent fee stats. Throws if simulation fails.
+   */
+  async buildSimulated(
+    rpc: SimulationSource,
+    opts: BuildSimulatedOptions = {},
+  ): Promise<SimulatedBuild> {
+    const built = await this.build();
+
+    const sim = await rpc.simulateTransaction(
+      built.toTransactionEnvelope(),
+      opts.instructionLeeway ? { resourceLeeway: opts.instructionLeeway } : undefined,
+    );
+    if ('error' in sim) {
+      throw new Error(`Simulation failed: ${sim.error}`);
+    }
+    const stats = await rpc.getFeeStats();
+    const percentile = stats.sorobanInclusionFee[opts.feePercentile ?? 'p50'];
+    const inclusionFee = Math.max(this.baseFee, parseInt(percentile, 10));
+
+    const margin = opts.resourceFeeMargin ?? DEFAULT_RESOURCE_FEE_MARGIN;
+    const simulated = sim.transactionData.resourceFee;
+    const resourceFee = simulated + BigInt(Math.ceil(Number(simulated) * margin));
+
+    const tx: Transaction = {
+      ...built.tx,
+      fee: inclusionFee + Number(resourceFee),
+      operations: built.tx.operations.map((op) => withSimulatedAuth(op, sim)),
+      ext: { '1': { ...sim.transactionData, resourceFee } },
+    };
+    const hash = await transactionHash(tx, this.networkPassphrase);
+    return {
+      transaction: new BuiltTransaction(tx, hash, this.networkPassphrase),
+      simulation: sim,
+      inclusionFee,
+      resourceFee,
+      restorePreamble: sim.restorePreamble ?? null,
+    };
+  }
+
   private buildPreconditions(): Preconditions {
     if (this.preconditionsV2 !== null || this.ledgerBounds !== null) {
       const v2: PreconditionsV2 = {
@@ -115,3 +212,12 @@ export class TransactionBuilder {
     return 'None';
   }
 }
+
+/** Fill in the simulated auth entries of an `InvokeHostFunction` that has none. */
+function withSimulatedAuth(op: Operation, sim: SimulationSuccess): Operation {
+  if (!is(op.body, 'InvokeHostFunction')) return op;
+  const ihf = op.body.InvokeHostFunction;
+  const auth = sim.results[0]?.auth ?? [];
+  if (ihf.auth.length > 0 || auth.length === 0) return op;
+  return { ...op, body: { InvokeHostFunction: { ...ihf, auth } } };
+}
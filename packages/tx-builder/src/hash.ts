@@ -1,9 +1,7 @@
 import {
   type Transaction,
-  Transaction as TransactionCodec,
   type FeeBumpTransaction,
-  FeeBumpTransaction as FeeBumpTransactionCodec,
-  XdrWriter,
+  transactionEnvelopeHash,
 } from '@stellar/xdr';
 
 const encoder = new TextEncoder();
@@ -17,33 +15,16 @@ export async function networkId(passphrase: string): Promise<Uint8Array> {
   return sha256(encoder.encode(passphrase));
 }
 
-// EnvelopeType.Tx = 2, as 4-byte big-endian
-const ENVELOPE_TYPE_TX = new Uint8Array([0, 0, 0, 2]);
-// EnvelopeType.TxFeeBump = 5, as 4-byte big-endian
-const ENVELOPE_TYPE_TX_FEE_BUMP = new Uint8Array([0, 0, 0, 5]);
-
 export async function transactionHash(
   tx: Transaction,
   passphrase: string,
 ): Promise<Uint8Array> {
-  const nid = await networkId(passphrase);
-  const txBytes = TransactionCodec.toXdr(tx);
-  const tagged = new Uint8Array(nid.length + ENVELOPE_TYPE_TX.length + txBytes.length);
-  tagged.set(nid, 0);
-  tagged.set(ENVELOPE_TYPE_TX, nid.length);
-  tagged.set(txBytes, nid.length + ENVELOPE_TYPE_TX.length);
-  return sha256(tagged);
+  return transactionEnvelopeHash({ Tx: { tx, signatures: [] } }, passphrase);
 }
 
 export async function feeBumpTransactionHash(
   tx: FeeBumpTransaction,
   passphrase: string,
 ): Promise<Uint8Array> {
-  const nid = await networkId(passphrase);
-  const txBytes = FeeBumpTransactionCodec.toXdr(tx);
-  const tagged = new Uint8Array(nid.length + ENVELOPE_TYPE_TX_FEE_BUMP.length + txBytes.length);
-  tagged.set(nid, 0);
-  tagged.set(ENVELOPE_TYPE_TX_FEE_BUMP, nid.length);
-  tagged.set(txBytes, nid.length + ENVELOPE_TYPE_TX_FEE_BUMP.length);
-  return sha256(tagged);
+  return transactionEnvelopeHash({ TxFeeBump: { tx, signatures: [] } }, passphrase);
 }
@@ -1,6 +1,7 @@
 export { Networks } from './networks.js';
 export { sha256, networkId, transactionHash, feeBumpTransactionHash } from './hash.js';
 export { Keypair } from './keypair.js';
+export { CallbackSigner, signDecorated, signPayloadDecorated, type Signer } from './signer.js';
 export {
   parsePublicKey,
   parseMuxedAccount,
@@ -69,13 +70,39 @@ export type {
   InvokeHostFunctionOptions,
   ExtendFootprintTtlOptions,
 } from './operations.js';
-export { TransactionBuilder, type AccountLike, type TransactionBuilderOptions } from './builder.js';
+export {
+  TransactionBuilder,
+  type AccountLike,
+  type TransactionBuilderOptions,
+  type BuildSimulatedOptions,
+  type SimulatedBuild,
+  type SimulationSource,
+  type SimulationSuccess,
+  type FeePercentile,
+} from './builder.js';
 export {
   BuiltTransaction,
   BuiltFeeBumpTransaction,
   buildFeeBumpTransaction,
   type BuildFeeBumpTransactionOptions,
 } from './transaction.js';
+export {
+  operationThresholdLevel,
+  type SignerKeyLike,
+  type SignatureVerification,
+  type HorizonAccountSigners,
+  type ThresholdAccount,
+  type ThresholdLevel,
+  type ThresholdRequirement,
+  type ThresholdCheck,
+} from './verify.js';
+export {
+  authorizeEntry,
+  authorizeInvocation,
+  signAuthEntries,
+  type AuthSigner,
+  type AuthSigningCallback,
+} from './auth.js';
 
 // Re-export @stellar/xdr for convenience
 export * from '@stellar/xdr';
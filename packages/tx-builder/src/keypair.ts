@@ -13,8 +13,9 @@ import {
   type MuxedAccount,
   type AccountID,
 } from '@stellar/xdr';
+import type { Signer } from './signer.js';
 
-export class Keypair {
+export class Keypair implements Signer {
   readonly rawPublicKey: Uint8Array;
   private readonly _rawSecretKey: Uint8Array | null;
 
@@ -99,6 +100,18 @@ export class Keypair {
     return { hint: this.signatureHint(), signature };
   }
 
+  signTransactionHash(hash: Uint8Array): Promise<Uint8Array> {
+    return this.sign(hash);
+  }
+
+  signAuthEntry(payload: Uint8Array): Promise<Uint8Array> {
+    return this.sign(payload);
+  }
+
+  signPayload(payload: Uint8Array): Promise<Uint8Array> {
+    return this.sign(payload);
+  }
+
   async verify(data: Uint8Array, signature: Uint8Array): Promise<boolean> {
     return verifyAsync(signature, data, this.rawPublicKey);
   }
@@ -0,0 +1,82 @@
+import type { DecoratedSignature, HashIDPreimage } from '@stellar/xdr';
+import { Keypair } from './keypair.js';
+import { parsePublicKey } from './helpers.js';
+
+/**
+ * Anything that can produce ed25519 signatures for a Stellar account:
+ * an in-memory `Keypair`, a hardware module, a browser wallet, a remote
+ * signing service.
+ */
+export interface Signer {
+  /** G-address of the signing key. */
+  readonly publicKey: string;
+  /** Sign a 32-byte transaction (or fee-bump) hash. */
+  signTransactionHash(hash: Uint8Array): Promise<Uint8Array>;
+  /** Sign a Soroban authorization payload: SHA-256 of `preimage`'s XDR. */
+  signAuthEntry(payload: Uint8Array, preimage: HashIDPreimage): Promise<Uint8Array>;
+  /** Sign an arbitrary payload, e.g. for a signed-payload signer. */
+  signPayload(payload: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * `Signer` that delegates every signature to a single callback and verifies
+ * the result against `publicKey` before returning it.
+ */
+export class CallbackSigner implements Signer {
+  readonly publicKey: string;
+  private readonly key: Keypair;
+  private readonly callback: (data: Uint8Array) => Promise<Uint8Array>;
+
+  constructor(publicKey: string, callback: (data: Uint8Array) => Promise<Uint8Array>) {
+    this.key = Keypair.fromPublicKey(publicKey);
+    this.publicKey = publicKey;
+    this.callback = callback;
+  }
+
+  signTransactionHash(hash: Uint8Array): Promise<Uint8Array> {
+    return this.signVerified(hash);
+  }
+
+  signAuthEntry(payload: Uint8Array): Promise<Uint8Array> {
+    return this.signVerified(payload);
+  }
+
+  signPayload(payload: Uint8Array): Promise<Uint8Array> {
+    return this.signVerified(payload);
+  }
+
+  private async signVerified(data: Uint8Array): Promise<Uint8Array> {
+    const signature = await this.callback(data);
+    if (!(await this.key.verify(data, signature))) {
+      throw new Error(`Signature returned for ${this.publicKey} does not verify`);
+    }
+    return signature;
+  }
+}
+
+/**
+ * Sign a transaction hash and attach the signer's hint.
+ */
+export async function signDecorated(signer: Signer, hash: Uint8Array): Promise<DecoratedSignature> {
+  const signature = await signer.signTransactionHash(hash);
+  return { hint: signatureHint(signer), signature };
+}
+
+/**
+ * Sign `payload` for a signed-payload signer. The hint is the key hint XORed
+ * with the last four bytes of the payload (zero-padded), per CAP-40.
+ */
+export async function signPayloadDecorated(
+  signer: Signer,
+  payload: Uint8Array,
+): Promise<DecoratedSignature> {
+  const signature = await signer.signPayload(payload);
+  const hint = signatureHint(signer);
+  const tail = new Uint8Array(4);
+  tail.set(payload.slice(-4));
+  return { hint: hint.map((b, i) => b ^ tail[i]!), signature };
+}
+
+function signatureHint(signer: Signer): Uint8Array {
+  return parsePublicKey(signer.publicKey).PublicKeyTypeEd25519.slice(-4);
+}
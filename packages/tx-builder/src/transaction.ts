@@ -9,7 +9,17 @@ import {
   encodeBase64,
   decodeBase64,
 } from '@stellar/xdr';
-import type { Keypair } from './keypair.js';
+import { signDecorated, type Signer } from './signer.js';
+import {
+  evaluateThresholds,
+  feeBumpThresholdLevels,
+  matchSignatures,
+  transactionThresholdLevels,
+  type SignatureVerification,
+  type SignerKeyLike,
+  type ThresholdAccount,
+  type ThresholdCheck,
+} from './verify.js';
 import { transactionHash, feeBumpTransactionHash } from './hash.js';
 import { parseMuxedAccount } from './helpers.js';
 
@@ -25,9 +35,9 @@ export class BuiltTransaction {
     this.networkPassphrase = networkPassphrase;
   }
 
-  async sign(...keypairs: Keypair[]): Promise<this> {
-    for (const kp of keypairs) {
-      this.signatures.push(await kp.signDecorated(this.hash));
+  async sign(...signers: Signer[]): Promise<this> {
+    for (const signer of signers) {
+      this.signatures.push(await signDecorated(signer, this.hash));
     }
     return this;
   }
@@ -37,6 +47,24 @@ export class BuiltTransaction {
     return this;
   }
 
+  /**
+   * Match the envelope's signatures against candidate signers (ed25519,
+   * pre-auth-tx, hash-x and signed-payload keys).
+   */
+  verifySignatures(signers: readonly SignerKeyLike[]): Promise<SignatureVerification> {
+    return matchSignatures(this.hash, this.signatures, signers);
+  }
+
+  /**
+   * Check whether the envelope's signatures meet `account`'s thresholds for
+   * the transaction and every operation it is the source of.
+   */
+  checkThresholds(account: ThresholdAccount): Promise<ThresholdCheck> {
+    return evaluateThresholds(this.hash, this.signatures, account, (key) =>
+      transactionThresholdLevels(this.tx, key),
+    );
+  }
+
   toEnvelope(): TransactionV1Envelope {
     return { tx: this.tx, signatures: this.signatures };
   }
@@ -88,9 +116,9 @@ export class BuiltFeeBumpTransaction {
     this.innerTransaction = innerTransaction;
   }
 
-  async sign(...keypairs: Keypair[]): Promise<this> {
-    for (const kp of keypairs) {
-      this.signatures.push(await kp.signDecorated(this.hash));
+  async sign(...signers: Signer[]): Promise<this> {
+    for (const signer of signers) {
+      this.signatures.push(await signDecorated(signer, this.hash));
     }
     return this;
   }
@@ -100,6 +128,23 @@ export class BuiltFeeBumpTransaction {
     return this;
   }
 
+  /**
+   * Match the fee bump envelope's signatures against candidate signers.
+   */
+  verifySignatures(signers: readonly SignerKeyLike[]): Promise<SignatureVerification> {
+    return matchSignatures(this.hash, this.signatures, signers);
+  }
+
+  /**
+   * Check whether the fee bump signatures meet the fee source's low
+   * threshold. Check `innerTransaction` separately.
+   */
+  checkThresholds(account: ThresholdAccount): Promise<ThresholdCheck> {
+    return evaluateThresholds(this.hash, this.signatures, account, (key) =>
+      feeBumpThresholdLevels(this.tx, key),
+    );
+  }
+
   toEnvelope(): FeeBumpTransactionEnvelope {
     return { tx: this.tx, signatures: this.signatures };
   }
@@ -0,0 +1,272 @@
+import {
+  encodeStrkey,
+  is,
+  strkeyFromString,
+  strkeyToString,
+  STRKEY_ED25519_PUBLIC,
+  type AccountEntry,
+  type DecoratedSignature,
+  type FeeBumpTransaction,
+  type MuxedAccount,
+  type Operation,
+  type SignerKey,
+  type Strkey,
+  type Transaction,
+} from '@stellar/xdr';
+import { Keypair } from './keypair.js';
+import { sha256 } from './hash.js';
+
+/** A signer as a strkey (G…, T…, X…, P…) or an XDR `SignerKey`. */
+export type SignerKeyLike = string | SignerKey;
+
+export interface SignatureVerification {
+  /** Strkeys of the candidate signers satisfied by the envelope. */
+  signers: string[];
+  /** Indices of envelope signatures that match none of the candidates. */
+  unmatched: number[];
+}
+
+/** Horizon `AccountRecord` fields used for threshold checks. */
+export interface HorizonAccountSigners {
+  account_id: string;
+  thresholds: { low_threshold: number; med_threshold: number; high_threshold: number };
+  signers: readonly { key: string; weight: number }[];
+}
+
+/** Account to check thresholds against: a Horizon record or an RPC `AccountEntry`. */
+export type ThresholdAccount = HorizonAccountSigners | AccountEntry;
+
+export type ThresholdLevel = 'low' | 'medium' | 'high';
+
+type LevelRequirement = { operation: number | null; level: ThresholdLevel };
+
+export interface ThresholdRequirement {
+  /** Operation index, or `null` for the transaction itself (fee and sequence number). */
+  operation: number | null;
+  level: ThresholdLevel;
+  threshold: number;
+  met: boolean;
+}
+
+export interface ThresholdCheck {
+  /** G-address of the checked account. */
+  account: string;
+  /** Combined weight of the account's signers satisfied by the envelope. */
+  weight: number;
+  /** One entry per requirement the account must meet in this transaction. */
+  requirements: ThresholdRequirement[];
+  /** True when every requirement is met. */
+  ok: boolean;
+}
+
+/**
+ * Match envelope signatures against candidate signers, following
+ * stellar-core: each signature satisfies at most one signer, and a pre-auth-tx
+ * signer is satisfied by the transaction hash itself.
+ */
+export async function matchSignatures(
+  hash: Uint8Array,
+  signatures: readonly DecoratedSignature[],
+  candidates: readonly SignerKeyLike[],
+): Promise<SignatureVerification> {
+  const signers: string[] = [];
+  const unmatched: number[] = [];
+  const remaining: Strkey[] = [];
+  for (const key of candidates.map(toStrkey)) {
+    if (key.type !== 'pre_auth_tx') {
+      remaining.push(key);
+    } else if (bytesEqual(key.data, hash)) {
+      signers.push(strkeyToString(key));
+    }
+  }
+
+  for (const [index, sig] of signatures.entries()) {
+    let found = false;
+    for (const [i, key] of remaining.entries()) {
+      if (await signatureMatches(key, sig, hash)) {
+        signers.push(strkeyToString(key));
+        remaining.splice(i, 1);
+        found = true;
+        break;
+      }
+    }
+    if (!found) unmatched.push(index);
+  }
+  return { signers, unmatched };
+}
+
+/**
+ * Compute the weight an envelope achieves for `account` and compare it with
+ * the thresholds `levelsFor` requires of the account's raw ed25519 key. A
+ * threshold of 0 still requires one valid signature, as in stellar-core.
+ */
+export async function evaluateThresholds(
+  hash: Uint8Array,
+  signatures: readonly DecoratedSignature[],
+  account: ThresholdAccount,
+  levelsFor: (accountKey: Uint8Array) => LevelRequirement[],
+): Promise<ThresholdCheck> {
+  const { address, key, thresholds, signers } = normalizeAccount(account);
+  const weights = new Map<string, number>();
+  for (const signer of signers) {
+    if (signer.weight > 0) weights.set(signer.key, Math.min(signer.weight, 255));
+  }
+
+  const matched = await matchSignatures(hash, signatures, [...weights.keys()]);
+  const weight = matched.signers.reduce((sum, key) => sum + (weights.get(key) ?? 0), 0);
+
+  const requirements = levelsFor(key).map(({ operation, level }) => {
+    const threshold = thresholds[level];
+    return { operation, level, threshold, met: weight > 0 && weight >= threshold };
+  });
+  return { account: address, weight, requirements, ok: requirements.every((r) => r.met) };
+}
+
+/**
+ * Threshold levels `account` must meet in `tx`: low for the transaction
+ * itself when it is the source, plus each operation it is the source of.
+ */
+export function transactionThresholdLevels(tx: Transaction, account: Uint8Array): LevelRequirement[] {
+  const levels: LevelRequirement[] = [];
+  const txSource = muxedEd25519(tx.sourceAccount);
+  if (bytesEqual(txSource, account)) {
+    levels.push({ operation: null, level: 'low' });
+  }
+  for (const [index, op] of tx.operations.entries()) {
+    const source = op.sourceAccount === null ? txSource : muxedEd25519(op.sourceAccount);
+    if (bytesEqual(source, account)) {
+      levels.push({ operation: index, level: operationThresholdLevel(op) });
+    }
+  }
+  return levels;
+}
+
+/**
+ * Threshold levels `account` must meet in a fee bump: low when it is the fee
+ * source.
+ */
+export function feeBumpThresholdLevels(tx: FeeBumpTransaction, account: Uint8Array): LevelRequirement[] {
+  return bytesEqual(muxedEd25519(tx.feeSource), account) ? [{ operation: null, level: 'low' }] : [];
+}
+
+/**
+ * Threshold level stellar-core requires from an operation's source account.
+ */
+export function operationThresholdLevel(op: Operation): ThresholdLevel {
+  const body = op.body;
+  if (body === 'Inflation') return 'low';
+  if (body === 'EndSponsoringFutureReserves') return 'medium';
+  if (
+    is(body, 'AllowTrust') ||
+    is(body, 'SetTrustLineFlags') ||
+    is(body, 'BumpSequence') ||
+    is(body, 'ClaimClaimableBalance') ||
+    is(body, 'ExtendFootprintTtl') ||
+    is(body, 'RestoreFootprint')
+  ) {
+    return 'low';
+  }
+  if (is(body, 'AccountMerge')) return 'high';
+  if (is(body, 'SetOptions')) {
+    const o = body.SetOptions;
+    const changesAuth =
+      o.masterWeight !== null ||
+      o.lowThreshold !== null ||
+      o.medThreshold !== null ||
+      o.highThreshold !== null ||
+      o.signer !== null;
+    return changesAuth ? 'high' : 'medium';
+  }
+  return 'medium';
+}
+
+function normalizeAccount(account: ThresholdAccount): {
+  address: string;
+  key: Uint8Array;
+  thresholds: Record<ThresholdLevel, number>;
+  signers: { key: string; weight: number }[];
+} {
+  if ('account_id' in account) {
+    const t = account.thresholds;
+    const key = strkeyFromString(account.account_id);
+    if (key.type !== 'public_key_ed25519') {
+      throw new Error(`Expected a G-address account_id, got ${account.account_id}`);
+    }
+    return {
+      address: account.account_id,
+      key: key.data,
+      thresholds: { low: t.low_threshold, medium: t.med_threshold, high: t.high_threshold },
+      signers: account.signers.map(({ key, weight }) => ({ key, weight })),
+    };
+  }
+  const address = encodeStrkey(STRKEY_ED25519_PUBLIC, account.accountID.PublicKeyTypeEd25519);
+  const [master = 0, low = 0, medium = 0, high = 0] = account.thresholds;
+  return {
+    address,
+    key: account.accountID.PublicKeyTypeEd25519,
+    thresholds: { low, medium, high },
+    signers: [
+      { key: address, weight: master },
+      ...account.signers.map((s) => ({ key: strkeyToString(toStrkey(s.key)), weight: s.weight })),
+    ],
+  };
+}
+
+async function signatureMatches(
+  key: Strkey,
+  sig: DecoratedSignature,
+  hash: Uint8Array,
+): Promise<boolean> {
+  switch (key.type) {
+    case 'public_key_ed25519':
+      return (
+        bytesEqual(sig.hint, key.data.slice(-4)) &&
+        (await Keypair.fromRawPublicKey(key.data).verify(hash, sig.signature))
+      );
+    case 'hash_x':
+      return bytesEqual(sig.hint, key.data.slice(-4)) && bytesEqual(await sha256(sig.signature), key.data);
+    case 'signed_payload_ed25519': {
+      const tail = new Uint8Array(4);
+      tail.set(key.payload.slice(-4));
+      const hint = key.ed25519.slice(-4).map((b, i) => b ^ tail[i]!);
+      return (
+        bytesEqual(sig.hint, hint) &&
+        (await Keypair.fromRawPublicKey(key.ed25519).verify(key.payload, sig.signature))
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+function toStrkey(signer: SignerKeyLike): Strkey {
+  if (typeof signer === 'string') {
+    const key = strkeyFromString(signer);
+    if (
+      key.type !== 'public_key_ed25519' &&
+      key.type !== 'pre_auth_tx' &&
+      key.type !== 'hash_x' &&
+      key.type !== 'signed_payload_ed25519'
+    ) {
+      throw new Error(`Not a signer key: ${signer}`);
+    }
+    return key;
+  }
+  if (is(signer, 'Ed25519')) return { type: 'public_key_ed25519', data: signer.Ed25519 };
+  if (is(signer, 'PreAuthTx')) return { type: 'pre_auth_tx', data: signer.PreAuthTx };
+  if (is(signer, 'HashX')) return { type: 'hash_x', data: signer.HashX };
+  const { ed25519, payload } = signer.Ed25519SignedPayload;
+  return { type: 'signed_payload_ed25519', ed25519, payload };
+}
+
+function muxedEd25519(account: MuxedAccount): Uint8Array {
+  return is(account, 'Ed25519') ? account.Ed25519 : account.MuxedEd25519.ed25519;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HashIDPreimage,
+  is,
+  type InvokeContractArgs,
+  type SCVal,
+  type SorobanAuthorizationEntry,
+  type SorobanAuthorizedInvocation,
+} from '@stellar/xdr';
+import { authorizeEntry, authorizeInvocation, signAuthEntries } from '../src/auth.js';
+import { TransactionBuilder } from '../src/builder.js';
+import { networkId, sha256 } from '../src/hash.js';
+import { Keypair } from '../src/keypair.js';
+import { Networks } from '../src/networks.js';
+import { invokeHostFunction, payment } from '../src/operations.js';
+import { nativeAsset } from '../src/helpers.js';
+
+const SECRET1 = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
+const SECRET2 = 'SAFBKRN4SQQAOIUOTLNNKJMTRHWB7XREBH2RE235X6ANUJYXA45VN4GS';
+
+const contractFn: InvokeContractArgs = {
+  contractAddress: { Contract: new Uint8Array(32).fill(1) },
+  functionName: 'transfer',
+  args: [{ U32: 5 }],
+};
+
+const invocation: SorobanAuthorizedInvocation = {
+  function: { ContractFn: contractFn },
+  subInvocations: [],
+};
+
+function addressEntry(kp: Keypair, nonce = 42n): SorobanAuthorizationEntry {
+  return {
+    credentials: {
+      Address: {
+        address: { Account: kp.toAccountId() },
+        nonce,
+        signatureExpirationLedger: 0,
+        signature: 'Void',
+      },
+    },
+    rootInvocation: invocation,
+  };
+}
+
+async function expectedPayload(nonce: bigint, validUntil: number): Promise<Uint8Array> {
+  const preimage: HashIDPreimage = {
+    SorobanAuthorization: {
+      networkID: await networkId(Networks.TESTNET),
+      nonce,
+      signatureExpirationLedger: validUntil,
+      invocation,
+    },
+  };
+  return sha256(HashIDPreimage.toXdr(preimage));
+}
+
+function signatureParts(entry: SorobanAuthorizationEntry): { publicKey: Uint8Array; signature: Uint8Array } {
+  if (!is(entry.credentials, 'Address')) throw new Error('expected Address credentials');
+  const sig = entry.credentials.Address.signature as { Vec: SCVal[] };
+  const map = (sig.Vec[0] as { Map: { key: SCVal; val: SCVal }[] }).Map;
+  expect(map.map((e) => e.key)).toEqual([{ Symbol: 'public_key' }, { Symbol: 'signature' }]);
+  return {
+    publicKey: (map[0]!.val as { Bytes: Uint8Array }).Bytes,
+    signature: (map[1]!.val as { Bytes: Uint8Array }).Bytes,
+  };
+}
+
+describe('authorizeEntry', () => {
+  it('signs the SorobanAuthorization preimage with a keypair', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const signed = await authorizeEntry(addressEntry(kp), kp, 1000, Networks.TESTNET);
+
+    if (!is(signed.credentials, 'Address')) throw new Error('expected Address credentials');
+    expect(signed.credentials.Address.signatureExpirationLedger).toBe(1000);
+    expect(signed.credentials.Address.nonce).toBe(42n);
+    expect(signed.rootInvocation).toBe(invocation);
+
+    const { publicKey, signature } = signatureParts(signed);
+    expect(publicKey).toEqual(kp.rawPublicKey);
+    expect(await kp.verify(await expectedPayload(42n, 1000), signature)).toBe(true);
+  });
+
+  it('returns SourceAccount entries unchanged', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const entry: SorobanAuthorizationEntry = { credentials: 'SourceAccount', rootInvocation: invocation };
+    expect(await authorizeEntry(entry, kp, 1000, Networks.TESTNET)).toBe(entry);
+  });
+
+  it('rejects a keypair that does not match the credential address', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    await expect(authorizeEntry(addressEntry(kp1), kp2, 1000, Networks.TESTNET)).rejects.toThrow(
+      "doesn't match the entry's credential address",
+    );
+  });
+
+  it('accepts an async signing callback', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    let seen: HashIDPreimage | undefined;
+    const signed = await authorizeEntry(
+      addressEntry(kp),
+      async (preimage, payload) => {
+        seen = preimage;
+        return kp.sign(payload);
+      },
+      1000,
+      Networks.TESTNET,
+    );
+    expect(seen && is(seen, 'SorobanAuthorization') && seen.SorobanAuthorization.nonce).toBe(42n);
+    const { publicKey, signature } = signatureParts(signed);
+    expect(publicKey).toEqual(kp.rawPublicKey);
+    expect(await kp.verify(await expectedPayload(42n, 1000), signature)).toBe(true);
+  });
+
+  it('uses the public key returned by the callback', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const signed = await authorizeEntry(
+      addressEntry(kp),
+      async (_preimage, payload) => ({ signature: await kp.sign(payload), publicKey: kp.publicKey }),
+      1000,
+      Networks.TESTNET,
+    );
+    expect(signatureParts(signed).publicKey).toEqual(kp.rawPublicKey);
+  });
+
+  it('rejects callback signatures that do not verify', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    await expect(
+      authorizeEntry(addressEntry(kp1), (_p, payload) => kp2.sign(payload), 1000, Networks.TESTNET),
+    ).rejects.toThrow("Signature doesn't match");
+  });
+});
+
+describe('authorizeInvocation', () => {
+  it('builds and signs a new entry with a random nonce', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const a = await authorizeInvocation(kp, 500, invocation, Networks.TESTNET);
+    const b = await authorizeInvocation(kp, 500, invocation, Networks.TESTNET);
+    if (!is(a.credentials, 'Address') || !is(b.credentials, 'Address')) {
+      throw new Error('expected Address credentials');
+    }
+    expect(a.credentials.Address.address).toEqual({ Account: kp.toAccountId() });
+    expect(a.credentials.Address.nonce).not.toBe(b.credentials.Address.nonce);
+
+    const payload = await expectedPayload(a.credentials.Address.nonce, 500);
+    expect(await kp.verify(payload, signatureParts(a).signature)).toBe(true);
+  });
+
+  it('requires a public key for callback signers', async () => {
+    await expect(
+      authorizeInvocation(async () => new Uint8Array(64), 500, invocation, Networks.TESTNET),
+    ).rejects.toThrow('publicKey is required');
+  });
+});
+
+describe('signAuthEntries', () => {
+  it("signs only the signer's Address entries and rehashes the transaction", async () => {
+    const source = await Keypair.fromSecret(SECRET1);
+    const other = await Keypair.fromSecret(SECRET2);
+    const tx = await new TransactionBuilder(
+      { address: source.publicKey, sequenceNumber: 1n },
+      { fee: 100, networkPassphrase: Networks.TESTNET },
+    )
+      .addOperation(
+        invokeHostFunction({
+          hostFunction: { InvokeContract: contractFn },
+          auth: [addressEntry(source, 1n), addressEntry(other, 2n)],
+        }),
+      )
+      .addOperation(payment({ destination: other.publicKey, asset: nativeAsset(), amount: 1n }))
+      .setTimeBounds(0n, 0n)
+      .build();
+    await tx.sign(source);
+
+    const signed = await signAuthEntries(tx, source, 2000);
+    expect(signed.hash).not.toEqual(tx.hash);
+    expect(signed.toEnvelope().signatures).toEqual([]);
+    expect(signed.tx.operations[1]).toEqual(tx.tx.operations[1]);
+
+    const body = signed.tx.operations[0]!.body;
+    if (!is(body, 'InvokeHostFunction')) throw new Error('expected InvokeHostFunction');
+    const [mine, theirs] = body.InvokeHostFunction.auth;
+    expect(await source.verify(await expectedPayload(1n, 2000), signatureParts(mine!).signature)).toBe(true);
+    expect(theirs).toEqual(addressEntry(other, 2n));
+  });
+});
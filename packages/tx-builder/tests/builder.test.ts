@@ -1,11 +1,11 @@
-import { describe, it, expect } from 'vitest';
-import { TransactionBuilder, type AccountLike } from '../src/builder.js';
+import { describe, it, expect, vi } from 'vitest';
+import { TransactionBuilder, type AccountLike, type SimulationSuccess } from '../src/builder.js';
 import { Keypair } from '../src/keypair.js';
-import { payment, createAccount } from '../src/operations.js';
+import { payment, createAccount, invokeHostFunction } from '../src/operations.js';
 import { nativeAsset, memoText } from '../src/helpers.js';
 import { Networks } from '../src/networks.js';
 import { BuiltTransaction } from '../src/transaction.js';
-import { is } from '@stellar/xdr';
+import { is, type SorobanAuthorizationEntry, type SorobanTransactionData } from '@stellar/xdr';
 
 const TEST_SECRET = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
 const DEST_PUBKEY = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
@@ -156,3 +156,147 @@ describe('TransactionBuilder', () => {
     }
   });
 });
+
+function sorobanData(resourceFee: bigint): SorobanTransactionData {
+  return {
+    ext: '0',
+    resources: {
+      footprint: { readOnly: [], readWrite: [] },
+      instructions: 1000,
+      diskReadBytes: 0,
+      writeBytes: 0,
+    },
+    resourceFee,
+  };
+}
+
+function feeDistribution(p50: string, p90: string, p99: string) {
+  return {
+    max: p99,
+    min: '100',
+    mode: p50,
+    p10: '100',
+    p20: '100',
+    p30: '100',
+    p40: '100',
+    p50,
+    p60: p50,
+    p70: p50,
+    p80: p50,
+    p90,
+    p95: p90,
+    p99,
+    transactionCount: '10',
+    ledgerCount: 50,
+  };
+}
+
+function fakeRpc(sim: SimulationSuccess | { error: string }) {
+  return {
+    simulateTransaction: vi.fn(async () => sim),
+    getFeeStats: vi.fn(async () => ({
+      sorobanInclusionFee: feeDistribution('150', '500', '2000'),
+      inclusionFee: feeDistribution('100', '100', '100'),
+      latestLedger: 1000,
+    })),
+  };
+}
+
+async function sorobanBuilder(): Promise<TransactionBuilder> {
+  const kp = await Keypair.fromSecret(TEST_SECRET);
+  return new TransactionBuilder(
+    { address: kp.publicKey, sequenceNumber: 0n },
+    { fee: 100, networkPassphrase: Networks.TESTNET },
+  )
+    .setTimeout(300)
+    .addOperation(
+      invokeHostFunction({
+        hostFunction: {
+          InvokeContract: {
+            contractAddress: { Contract: new Uint8Array(32).fill(1) },
+            functionName: 'hello',
+            args: [],
+          },
+        },
+        auth: [],
+      }),
+    );
+}
+
+describe('TransactionBuilder.buildSimulated', () => {
+  const success: SimulationSuccess = {
+    minResourceFee: '10000',
+    transactionData: sorobanData(10000n),
+    results: [{ auth: [] }],
+  };
+
+  it('applies simulation data, a resource fee margin and a p50 inclusion fee', async () => {
+    const rpc = fakeRpc(success);
+    const result = await (await sorobanBuilder()).buildSimulated(rpc);
+
+    expect(result.inclusionFee).toBe(150);
+    expect(result.resourceFee).toBe(11000n);
+    expect(result.restorePreamble).toBeNull();
+    expect(result.transaction.tx.fee).toBe(11150);
+    expect(result.transaction.tx.ext).toEqual({ '1': sorobanData(11000n) });
+    expect(rpc.simulateTransaction).toHaveBeenCalledWith(expect.anything(), undefined);
+  });
+
+  it('honours percentile, margin and instruction leeway options', async () => {
+    const rpc = fakeRpc(success);
+    const result = await (await sorobanBuilder()).buildSimulated(rpc, {
+      feePercentile: 'p99',
+      resourceFeeMargin: 0.5,
+      instructionLeeway: 50000,
+    });
+
+    expect(result.transaction.tx.fee).toBe(2000 + 15000);
+    expect(rpc.simulateTransaction).toHaveBeenCalledWith(expect.anything(), { resourceLeeway: 50000 });
+  });
+
+  it('never goes below the builder fee', async () => {
+    const rpc = fakeRpc(success);
+    rpc.getFeeStats.mockResolvedValueOnce({
+      sorobanInclusionFee: feeDistribution('50', '50', '50'),
+      inclusionFee: feeDistribution('100', '100', '100'),
+      latestLedger: 1000,
+    });
+    const result = await (await sorobanBuilder()).buildSimulated(rpc);
+    expect(result.inclusionFee).toBe(100);
+  });
+
+  it('fills in the simulated auth entries', async () => {
+    const entry: SorobanAuthorizationEntry = {
+      credentials: 'SourceAccount',
+      rootInvocation: {
+        function: {
+          ContractFn: {
+            contractAddress: { Contract: new Uint8Array(32).fill(1) },
+            functionName: 'hello',
+            args: [],
+          },
+        },
+        subInvocations: [],
+      },
+    };
+    const rpc = fakeRpc({ ...success, results: [{ auth: [entry] }] });
+    const result = await (await sorobanBuilder()).buildSimulated(rpc);
+    const body = result.transaction.tx.operations[0]!.body;
+    expect(is(body, 'InvokeHostFunction') && body.InvokeHostFunction.auth).toEqual([entry]);
+  });
+
+  it('surfaces the restore preamble', async () => {
+    const preamble = { minResourceFee: '5000', transactionData: sorobanData(5000n) };
+    const rpc = fakeRpc({ ...success, restorePreamble: preamble });
+    const result = await (await sorobanBuilder()).buildSimulated(rpc);
+    expect(result.restorePreamble).toEqual(preamble);
+  });
+
+  it('throws on simulation errors', async () => {
+    const rpc = fakeRpc({ error: 'HostError: boom', latestLedger: 1000 });
+    await expect((await sorobanBuilder()).buildSimulated(rpc)).rejects.toThrow(
+      'Simulation failed: HostError: boom',
+    );
+    expect(rpc.getFeeStats).not.toHaveBeenCalled();
+  });
+});
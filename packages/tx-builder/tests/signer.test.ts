@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { is } from '@stellar/xdr';
+import { authorizeEntry } from '../src/auth.js';
+import { TransactionBuilder } from '../src/builder.js';
+import { Keypair } from '../src/keypair.js';
+import { Networks } from '../src/networks.js';
+import { nativeAsset } from '../src/helpers.js';
+import { payment } from '../src/operations.js';
+import { CallbackSigner, signPayloadDecorated, type Signer } from '../src/signer.js';
+import { buildFeeBumpTransaction } from '../src/transaction.js';
+
+const SECRET1 = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
+const SECRET2 = 'SAFBKRN4SQQAOIUOTLNNKJMTRHWB7XREBH2RE235X6ANUJYXA45VN4GS';
+const DEST = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
+
+async function buildTx(kp: Keypair) {
+  return new TransactionBuilder(
+    { address: kp.publicKey, sequenceNumber: 1n },
+    { fee: 100, networkPassphrase: Networks.TESTNET },
+  )
+    .setTimeBounds(0n, 0n)
+    .addOperation(payment({ destination: DEST, asset: nativeAsset(), amount: 1n }))
+    .build();
+}
+
+describe('CallbackSigner', () => {
+  it('signs transactions like the wrapped keypair', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const callback = vi.fn((data: Uint8Array) => kp.sign(data));
+    const signer = new CallbackSigner(kp.publicKey, callback);
+
+    const viaKeypair = await (await buildTx(kp)).sign(kp);
+    const viaCallback = await (await buildTx(kp)).sign(signer);
+
+    expect(callback).toHaveBeenCalledWith(viaCallback.hash);
+    expect(viaCallback.toEnvelope().signatures).toEqual(viaKeypair.toEnvelope().signatures);
+  });
+
+  it('rejects signatures that do not verify', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    const signer = new CallbackSigner(kp1.publicKey, (data) => kp2.sign(data));
+    const tx = await buildTx(kp1);
+
+    await expect(tx.sign(signer)).rejects.toThrow(`Signature returned for ${kp1.publicKey} does not verify`);
+    expect(tx.toEnvelope().signatures).toEqual([]);
+  });
+
+  it('signs fee-bump transactions', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    const bump = await buildFeeBumpTransaction({
+      feeSource: kp2.publicKey,
+      fee: 200n,
+      innerTransaction: await (await buildTx(kp1)).sign(kp1),
+      networkPassphrase: Networks.TESTNET,
+    });
+    await bump.sign(new CallbackSigner(kp2.publicKey, (data) => kp2.sign(data)));
+
+    const [sig] = bump.toEnvelope().signatures;
+    expect(sig!.hint).toEqual(kp2.signatureHint());
+    expect(await kp2.verify(bump.hash, sig!.signature)).toBe(true);
+  });
+
+  it('signs authorization entries', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const entry = {
+      credentials: {
+        Address: {
+          address: { Account: kp.toAccountId() },
+          nonce: 7n,
+          signatureExpirationLedger: 0,
+          signature: 'Void' as const,
+        },
+      },
+      rootInvocation: {
+        function: {
+          ContractFn: {
+            contractAddress: { Contract: new Uint8Array(32).fill(1) },
+            functionName: 'hello',
+            args: [],
+          },
+        },
+        subInvocations: [],
+      },
+    };
+    const signer = new CallbackSigner(kp.publicKey, (data) => kp.sign(data));
+
+    const viaCallback = await authorizeEntry(entry, signer, 100, Networks.TESTNET);
+    const viaKeypair = await authorizeEntry(entry, kp, 100, Networks.TESTNET);
+    expect(viaCallback).toEqual(viaKeypair);
+  });
+});
+
+describe('Signer', () => {
+  it('accepts custom implementations in sign()', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const signer: Signer = {
+      publicKey: kp.publicKey,
+      signTransactionHash: (hash) => kp.sign(hash),
+      signAuthEntry: () => Promise.reject(new Error('unused')),
+      signPayload: () => Promise.reject(new Error('unused')),
+    };
+    const tx = await (await buildTx(kp)).sign(signer);
+    const env = tx.toTransactionEnvelope();
+    expect(is(env, 'Tx') && env.Tx.signatures[0]!.hint).toEqual(kp.signatureHint());
+  });
+
+  it('builds signed-payload hints from the payload tail', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const payload = new Uint8Array([1, 2, 3, 4, 5, 6]);
+    const sig = await signPayloadDecorated(kp, payload);
+    const keyHint = kp.signatureHint();
+    expect(sig.hint).toEqual(new Uint8Array([3, 4, 5, 6].map((b, i) => b ^ keyHint[i]!)));
+    expect(await kp.verify(payload, sig.signature)).toBe(true);
+
+    const short = await signPayloadDecorated(kp, new Uint8Array([9]));
+    expect(short.hint).toEqual(new Uint8Array([9 ^ keyHint[0]!, keyHint[1]!, keyHint[2]!, keyHint[3]!]));
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { strkeyToString, type AccountEntry, type Operation } from '@stellar/xdr';
+import { TransactionBuilder } from '../src/builder.js';
+import { sha256 } from '../src/hash.js';
+import { Keypair } from '../src/keypair.js';
+import { Networks } from '../src/networks.js';
+import { nativeAsset } from '../src/helpers.js';
+import { accountMerge, bumpSequence, payment, setOptions } from '../src/operations.js';
+import { signPayloadDecorated } from '../src/signer.js';
+import { buildFeeBumpTransaction, type BuiltTransaction } from '../src/transaction.js';
+import type { HorizonAccountSigners } from '../src/verify.js';
+
+const SECRET1 = 'SDL2ENWLAB7NHNVZUWTSZO23D3YLF4YUKUBHLWDVHKNDFJ37VDQ2RI53';
+const SECRET2 = 'SAFBKRN4SQQAOIUOTLNNKJMTRHWB7XREBH2RE235X6ANUJYXA45VN4GS';
+const DEST = 'GAT4KBPBCPTOLGILH5NNTBWSXHEBUTRQMEUSQGSPCCFM4QHO2COADB5O';
+
+async function buildTx(source: Keypair, ...ops: Operation[]): Promise<BuiltTransaction> {
+  const builder = new TransactionBuilder(
+    { address: source.publicKey, sequenceNumber: 1n },
+    { fee: 100, networkPassphrase: Networks.TESTNET },
+  ).setTimeBounds(0n, 0n);
+  if (ops.length === 0) ops = [payment({ destination: DEST, asset: nativeAsset(), amount: 1n })];
+  for (const op of ops) builder.addOperation(op);
+  return builder.build();
+}
+
+function horizonAccount(
+  kp: Keypair,
+  signers: { key: string; weight: number }[],
+  [low, med, high]: [number, number, number],
+): HorizonAccountSigners {
+  return {
+    account_id: kp.publicKey,
+    thresholds: { low_threshold: low, med_threshold: med, high_threshold: high },
+    signers,
+  };
+}
+
+describe('verifySignatures', () => {
+  it('matches ed25519 signatures by hint and reports extras', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    const tx = await (await buildTx(kp1)).sign(kp1, kp2);
+
+    expect(await tx.verifySignatures([kp1.publicKey])).toEqual({
+      signers: [kp1.publicKey],
+      unmatched: [1],
+    });
+    expect(await tx.verifySignatures([{ Ed25519: kp2.rawPublicKey }, kp1.publicKey])).toEqual({
+      signers: [kp1.publicKey, kp2.publicKey],
+      unmatched: [],
+    });
+  });
+
+  it('rejects signatures over a different hash', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const tx = await buildTx(kp);
+    tx.addSignature({ hint: kp.signatureHint(), signature: await kp.sign(new Uint8Array(32)) });
+    expect(await tx.verifySignatures([kp.publicKey])).toEqual({ signers: [], unmatched: [0] });
+  });
+
+  it('satisfies pre-auth-tx signers from the hash', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const tx = await buildTx(kp);
+    const preAuth = strkeyToString({ type: 'pre_auth_tx', data: tx.hash });
+    const other = strkeyToString({ type: 'pre_auth_tx', data: new Uint8Array(32) });
+    expect(await tx.verifySignatures([preAuth, other])).toEqual({ signers: [preAuth], unmatched: [] });
+  });
+
+  it('matches hash-x preimages', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const preimage = new TextEncoder().encode('open sesame');
+    const hashX = await sha256(preimage);
+    const tx = await buildTx(kp);
+    tx.addSignature({ hint: hashX.slice(-4), signature: preimage });
+
+    const signer = strkeyToString({ type: 'hash_x', data: hashX });
+    expect(await tx.verifySignatures([signer])).toEqual({ signers: [signer], unmatched: [] });
+  });
+
+  it('matches signed-payload signers', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const payload = new Uint8Array([1, 2, 3, 4, 5]);
+    const tx = await buildTx(kp);
+    tx.addSignature(await signPayloadDecorated(kp, payload));
+
+    const signer = strkeyToString({ type: 'signed_payload_ed25519', ed25519: kp.rawPublicKey, payload });
+    expect(await tx.verifySignatures([kp.publicKey, signer])).toEqual({
+      signers: [signer],
+      unmatched: [],
+    });
+  });
+
+  it('rejects non-signer strkeys', async () => {
+    const kp = await Keypair.fromSecret(SECRET1);
+    const tx = await buildTx(kp);
+    await expect(tx.verifySignatures([kp.secret])).rejects.toThrow('Not a signer key');
+  });
+});
+
+describe('checkThresholds', () => {
+  it('sums signer weights against each operation threshold', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    const account = horizonAccount(
+      kp1,
+      [
+        { key: kp1.publicKey, weight: 1 },
+        { key: kp2.publicKey, weight: 2 },
+      ],
+      [1, 2, 3],
+    );
+    const tx = await buildTx(
+      kp1,
+      bumpSequence({ bumpTo: 5n }),
+      payment({ destination: DEST, asset: nativeAsset(), amount: 1n }),
+      setOptions({ masterWeight: 1 }),
+    );
+
+    await tx.sign(kp2);
+    const partial = await tx.checkThresholds(account);
+    expect(partial.weight).toBe(2);
+    expect(partial.ok).toBe(false);
+    expect(partial.requirements).toEqual([
+      { operation: null, level: 'low', threshold: 1, met: true },
+      { operation: 0, level: 'low', threshold: 1, met: true },
+      { operation: 1, level: 'medium', threshold: 2, met: true },
+      { operation: 2, level: 'high', threshold: 3, met: false },
+    ]);
+
+    await tx.sign(kp1);
+    const full = await tx.checkThresholds(account);
+    expect(full.weight).toBe(3);
+    expect(full.ok).toBe(true);
+  });
+
+  it('only checks operations sourced from the account', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    const tx = await buildTx(kp1, accountMerge({ destination: DEST, source: kp2.publicKey }));
+    await tx.sign(kp1);
+
+    const source = await tx.checkThresholds(
+      horizonAccount(kp1, [{ key: kp1.publicKey, weight: 1 }], [0, 0, 0]),
+    );
+    expect(source.requirements).toEqual([{ operation: null, level: 'low', threshold: 0, met: true }]);
+
+    const merged = await tx.checkThresholds(
+      horizonAccount(kp2, [{ key: kp2.publicKey, weight: 1 }], [0, 0, 0]),
+    );
+    expect(merged.weight).toBe(0);
+    expect(merged.requirements).toEqual([{ operation: 0, level: 'high', threshold: 0, met: false }]);
+  });
+
+  it('reads master weight and signers from an AccountEntry', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    const entry: AccountEntry = {
+      accountID: kp1.toAccountId(),
+      balance: 0n,
+      seqNum: 1n,
+      numSubEntries: 1,
+      inflationDest: null,
+      flags: 0,
+      homeDomain: '',
+      thresholds: new Uint8Array([0, 1, 1, 1]),
+      signers: [{ key: { Ed25519: kp2.rawPublicKey }, weight: 1 }],
+      ext: '0',
+    };
+    const tx = await buildTx(kp1);
+
+    await tx.sign(kp1);
+    const master = await tx.checkThresholds(entry);
+    expect(master.weight).toBe(0);
+    expect(master.ok).toBe(false);
+
+    await tx.sign(kp2);
+    const signed = await tx.checkThresholds(entry);
+    expect(signed).toMatchObject({ account: kp1.publicKey, weight: 1, ok: true });
+  });
+
+  it('checks the fee source of a fee bump', async () => {
+    const kp1 = await Keypair.fromSecret(SECRET1);
+    const kp2 = await Keypair.fromSecret(SECRET2);
+    const bump = await buildFeeBumpTransaction({
+      feeSource: kp2.publicKey,
+      fee: 200n,
+      innerTransaction: await (await buildTx(kp1)).sign(kp1),
+      networkPassphrase: Networks.TESTNET,
+    });
+    const account = horizonAccount(kp2, [{ key: kp2.publicKey, weight: 1 }], [1, 1, 1]);
+
+    expect((await bump.checkThresholds(account)).ok).toBe(false);
+    await bump.sign(kp2);
+    expect(await bump.checkThresholds(account)).toMatchObject({
+      weight: 1,
+      requirements: [{ operation: null, level: 'low', threshold: 1, met: true }],
+      ok: true,
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { type Limits } from './limits.js';
-import { XdrReader } from './reader.js';
+import { XdrError } from './errors.js';
+import { type DecodeOptions, XdrReader } from './reader.js';
 import { XdrWriter } from './writer.js';
 import { encodeBase64, decodeBase64 } from './base64.js';
 
@@ -7,9 +8,9 @@ export interface XdrCodec<T> {
   encode(writer: XdrWriter, value: T): void;
   decode(reader: XdrReader): T;
   toXdr(value: T, limits?: Limits): Uint8Array;
-  fromXdr(input: Uint8Array | ArrayBufferLike, limits?: Limits): T;
+  fromXdr(input: Uint8Array | ArrayBufferLike, limits?: Limits, options?: DecodeOptions): T;
   toBase64(value: T, limits?: Limits): string;
-  fromBase64(input: string, limits?: Limits): T;
+  fromBase64(input: string, limits?: Limits, options?: DecodeOptions): T;
   toJsonValue(value: T): unknown;
   fromJsonValue(json: unknown): T;
   toJson(value: T): string;
@@ -26,20 +27,24 @@ export abstract class BaseCodec<T> implements XdrCodec<T> {
     return writer.toUint8Array();
   }
 
-  fromXdr(input: Uint8Array | ArrayBufferLike, limits?: Limits): T {
+  fromXdr(input: Uint8Array | ArrayBufferLike, limits?: Limits, options?: DecodeOptions): T {
     const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
-    const reader = new XdrReader(bytes, limits);
-    const result = this.decode(reader);
-    reader.ensureEnd();
-    return result;
+    const reader = new XdrReader(bytes, limits, options);
+    try {
+      const result = this.decode(reader);
+      reader.ensureEnd();
+      return result;
+    } catch (err) {
+      throw err instanceof XdrError ? reader.annotate(err) : err;
+    }
   }
 
   toBase64(value: T, limits?: Limits): string {
     return encodeBase64(this.toXdr(value, limits));
   }
 
-  fromBase64(input: string, limits?: Limits): T {
-    return this.fromXdr(decodeBase64(input), limits);
+  fromBase64(input: string, limits?: Limits, options?: DecodeOptions): T {
+    return this.fromXdr(decodeBase64(input), limits, options);
   }
 
   toJsonValue(value: T): unknown {
@@ -58,3 +63,23 @@ export abstract class BaseCodec<T> implements XdrCodec<T> {
     return this.fromJsonValue(JSON.parse(input));
   }
 }
+
+/**
+ * Decode a value from the start of `input`, returning it with the bytes
+ * that follow instead of failing on trailing data.
+ */
+export function tryDecodePrefix<T>(
+  codec: XdrCodec<T>,
+  input: Uint8Array | ArrayBufferLike,
+  limits?: Limits,
+  options?: DecodeOptions,
+): { value: T; rest: Uint8Array } {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const reader = new XdrReader(bytes, limits, options);
+  try {
+    const value = codec.decode(reader);
+    return { value, rest: bytes.subarray(reader.offset) };
+  } catch (err) {
+    throw err instanceof XdrError ? reader.annotate(err) : err;
+  }
+}
@@ -19,8 +19,16 @@ export function xdrStruct<T>(
     decode(reader: XdrReader): T {
       return reader.limits.withDepth(() => {
         const result: Record<string, unknown> = {};
+        if (!reader.tracksPath) {
+          for (const [name, codec] of fields) {
+            result[name] = codec.decode(reader);
+          }
+          return result as T;
+        }
         for (const [name, codec] of fields) {
+          reader.pushPath(name);
           result[name] = codec.decode(reader);
+          reader.popPath();
         }
         return result as T;
       });
@@ -157,6 +165,15 @@ interface TaggedUnionConfig {
   defaultArm?: { codec?: XdrCodec<any> };
 }
 
+/** Decode a union arm's value, entering its path only while tracking. */
+function decodeArm(reader: XdrReader, key: string, codec: XdrCodec<any>): unknown {
+  if (!reader.tracksPath) return codec.decode(reader);
+  reader.pushPath(key);
+  const value = codec.decode(reader);
+  reader.popPath();
+  return value;
+}
+
 export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
   // Forward map: tag → { key, codec }
   const forwardMap = new Map<
@@ -237,7 +254,7 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
 
         if (entry !== undefined) {
           if (entry.codec !== undefined) {
-            return { [entry.key]: entry.codec.decode(reader) };
+            return { [entry.key]: decodeArm(reader, entry.key, entry.codec) };
           }
           return entry.key;
         }
@@ -252,7 +269,7 @@ export function taggedUnion(config: TaggedUnionConfig): XdrCodec<any> {
 
         const key = typeof tag === 'number' ? String(tag) : tag;
         if (config.defaultArm.codec !== undefined) {
-          return { [key]: config.defaultArm.codec.decode(reader) };
+          return { [key]: decodeArm(reader, key, config.defaultArm.codec) };
         }
         return key;
       });
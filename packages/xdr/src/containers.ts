@@ -139,8 +139,14 @@ export function fixedArray<T>(
     }
     decode(reader: XdrReader): readonly T[] {
       const result: T[] = [];
+      if (!reader.tracksPath) {
+        for (let i = 0; i < n; i++) result.push(codec.decode(reader));
+        return result;
+      }
       for (let i = 0; i < n; i++) {
+        reader.pushPath(`[${i}]`);
         result.push(codec.decode(reader));
+        reader.popPath();
       }
       return result;
     }
@@ -179,8 +185,14 @@ export function varArray<T>(
         );
       }
       const result: T[] = [];
+      if (!reader.tracksPath) {
+        for (let i = 0; i < len; i++) result.push(codec.decode(reader));
+        return result;
+      }
       for (let i = 0; i < len; i++) {
+        reader.pushPath(`[${i}]`);
         result.push(codec.decode(reader));
+        reader.popPath();
       }
       return result;
     }
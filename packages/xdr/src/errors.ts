@@ -16,6 +16,13 @@ export type XdrErrorCode = (typeof XdrErrorCode)[keyof typeof XdrErrorCode];
 
 export class XdrError extends Error {
   readonly code: XdrErrorCode;
+  /**
+   * Where decoding failed, e.g. `TransactionEnvelope.Tx.tx.operations[2]`,
+   * when the reader was tracking its path.
+   */
+  path?: string;
+  /** Byte offset at which the value at `path` starts. */
+  offset?: number;
   constructor(code: XdrErrorCode, message?: string) {
     super(message ? `${code}: ${message}` : code);
     this.name = 'XdrError';
@@ -0,0 +1,122 @@
+/**
+ * Reading Stellar history archive files.
+ *
+ * Archives publish a checkpoint every 64 ledgers. Each checkpoint has a
+ * `history-*.json` state file (HAS) naming the bucket list, and gzipped
+ * `ledger-*`, `transactions-*`, `results-*` and `scp-*` files holding
+ * XDR values one per record, framed with RFC 5531 record marking. Bucket
+ * files use the same framing.
+ */
+import { type Limits } from './limits.js';
+import { type XdrCodec } from './codec.js';
+import { decodeRecordStream } from './stream.js';
+
+export const CHECKPOINT_FREQUENCY = 64;
+
+/** Path of the archive's root state file. */
+export const ROOT_HAS_PATH = '.well-known/stellar-history.json';
+
+export type CheckpointCategory = 'history' | 'ledger' | 'transactions' | 'results' | 'scp';
+
+export interface HistoryBucketLevel {
+  /** Hex hash of the level's current bucket; all zeros when empty. */
+  curr: string;
+  snap: string;
+  /** A pending merge; `output` is set once the merge has finished. */
+  next: { state: number; output?: string };
+}
+
+export interface HistoryArchiveState {
+  version: number;
+  server?: string;
+  currentLedger: number;
+  networkPassphrase?: string;
+  currentBuckets: HistoryBucketLevel[];
+  /** Hot archive bucket list, from protocol 23. */
+  hotArchiveBuckets?: HistoryBucketLevel[];
+}
+
+export interface ArchiveFileOptions {
+  /** Decompress the stream first, as for `.xdr.gz` files. */
+  gzip?: boolean;
+  /** Limits applied to each record. */
+  limits?: Limits;
+}
+
+const ZERO_HASH = '0'.repeat(64);
+
+/** Whether `ledger` is the last ledger of a checkpoint. */
+export function isCheckpoint(ledger: number): boolean {
+  return (ledger + 1) % CHECKPOINT_FREQUENCY === 0;
+}
+
+/** The checkpoint whose files contain `ledger`. */
+export function checkpointContaining(ledger: number): number {
+  return Math.floor(ledger / CHECKPOINT_FREQUENCY) * CHECKPOINT_FREQUENCY +
+    CHECKPOINT_FREQUENCY - 1;
+}
+
+/**
+ * Path of a checkpoint file, e.g.
+ * `ledger/00/bc/61/ledger-00bc613f.xdr.gz` for checkpoint 12345663.
+ */
+export function checkpointPath(category: CheckpointCategory, checkpoint: number): string {
+  const hex = checkpoint.toString(16).padStart(8, '0');
+  const ext = category === 'history' ? 'json' : 'xdr.gz';
+  return `${category}/${hexDirs(hex)}/${category}-${hex}.${ext}`;
+}
+
+/** Path of a bucket file, from its hex hash. */
+export function bucketPath(hash: string): string {
+  return `bucket/${hexDirs(hash)}/bucket-${hash}.xdr.gz`;
+}
+
+function hexDirs(hex: string): string {
+  return `${hex.slice(0, 2)}/${hex.slice(2, 4)}/${hex.slice(4, 6)}`;
+}
+
+/** Parse a history archive state (`history-*.json`) file. */
+export function parseHistoryArchiveState(json: string): HistoryArchiveState {
+  const has = JSON.parse(json) as Partial<HistoryArchiveState>;
+  if (
+    typeof has.version !== 'number' ||
+    typeof has.currentLedger !== 'number' ||
+    !Array.isArray(has.currentBuckets)
+  ) {
+    throw new Error('Invalid history archive state: missing version, currentLedger or buckets');
+  }
+  return has as HistoryArchiveState;
+}
+
+/**
+ * Hashes of the non-empty buckets a state refers to, including finished
+ * merge outputs and hot archive buckets, without duplicates.
+ */
+export function historyArchiveBuckets(has: HistoryArchiveState): string[] {
+  const hashes = new Set<string>();
+  for (const level of [...has.currentBuckets, ...(has.hotArchiveBuckets ?? [])]) {
+    for (const hash of [level.curr, level.snap, level.next.output]) {
+      if (hash !== undefined && hash !== ZERO_HASH) hashes.add(hash);
+    }
+  }
+  return [...hashes];
+}
+
+/**
+ * Decode the records of an archive file with `codec`, e.g.
+ * `readArchiveFile(LedgerHeaderHistoryEntry, res.body, { gzip: true })`.
+ */
+export async function* readArchiveFile<T>(
+  codec: XdrCodec<T>,
+  stream: ReadableStream<Uint8Array>,
+  options: ArchiveFileOptions = {},
+): AsyncGenerator<T> {
+  const source = options.gzip ? gunzip(stream) : stream;
+  yield* decodeRecordStream(codec, source, options.limits);
+}
+
+function gunzip(stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  // DecompressionStream is typed for ArrayBuffer-backed chunks only.
+  const pair = new DecompressionStream('gzip') as ReadableWritablePair<Uint8Array, Uint8Array>;
+  return stream.pipeThrough(pair);
+}
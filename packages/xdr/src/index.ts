@@ -3,9 +3,10 @@ export { XdrError, XdrErrorCode } from './errors.js';
 export { type Limits, DEFAULT_LIMITS, LimitTracker } from './limits.js';
 export { encodeBase64, decodeBase64 } from './base64.js';
 export { bytesToHex, hexToBytes } from './hex.js';
-export { XdrReader } from './reader.js';
+export { XdrReader, type DecodeOptions } from './reader.js';
 export { XdrWriter } from './writer.js';
-export { type XdrCodec, BaseCodec } from './codec.js';
+export { type XdrCodec, BaseCodec, tryDecodePrefix } from './codec.js';
+export { decodeStream, decodeRecordStream, readXdrRecords } from './stream.js';
 export {
   int32,
   uint32,
@@ -44,3 +45,58 @@ export * from '@stellar/strkey';
 
 // Generated Stellar XDR types
 export * from '../generated/index.js';
+
+// Contract addresses
+export { parseScAddress, scAddressToString } from './sc-address.js';
+
+// Transaction results
+export {
+  decodeTransactionResult,
+  decodeResultCodes,
+  TransactionFailedError,
+  type TransactionResultSummary,
+  type OperationResultSummary,
+} from './tx-result.js';
+
+// Ledger changes
+export {
+  extractLedgerChanges,
+  ledgerEntryKey,
+  accountBalanceDeltas,
+  trustlineDeltas,
+  contractDataChanges,
+  ttlExtensions,
+  extractContractEvents,
+  type LedgerChangePhase,
+  type LedgerChange,
+  type BalanceDelta,
+  type TrustlineDelta,
+  type ContractDataChange,
+  type TtlExtension,
+  type EmittedContractEvent,
+} from './ledger-changes.js';
+
+// Ledger close meta
+export {
+  processLedgerCloseMeta,
+  transactionEnvelopeHash,
+  type LedgerTransaction,
+  type ProcessedLedger,
+} from './ledger-close-meta.js';
+
+// History archives
+export {
+  CHECKPOINT_FREQUENCY,
+  ROOT_HAS_PATH,
+  isCheckpoint,
+  checkpointContaining,
+  checkpointPath,
+  bucketPath,
+  parseHistoryArchiveState,
+  historyArchiveBuckets,
+  readArchiveFile,
+  type CheckpointCategory,
+  type HistoryBucketLevel,
+  type HistoryArchiveState,
+  type ArchiveFileOptions,
+} from './history-archive.js';
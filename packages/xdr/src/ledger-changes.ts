@@ -0,0 +1,288 @@
+/**
+ * Ledger entry changes from transaction meta.
+ *
+ * `TransactionMeta` has five versions that record changes in different
+ * places, each as a list where `Updated` and `Removed` follow a `State`
+ * entry holding the prior value. `extractLedgerChanges` flattens them into
+ * before/after pairs; the other functions build on that list.
+ */
+import {
+  TrustLineAsset,
+  type AccountID,
+  type ConfigSettingID,
+  type ContractDataDurability,
+  type ContractEvent,
+  type LedgerEntry,
+  type LedgerEntryChangeType,
+  type LedgerEntryChanges,
+  type LedgerEntryData,
+  type LedgerKey,
+  type SCVal,
+  type TransactionEventStage,
+  type TransactionMeta,
+  type TransactionResultMeta,
+  type TransactionResultMetaV1,
+} from '../generated/index.js';
+import { is } from './composites.js';
+import { bytesToHex } from './hex.js';
+import { strkeyToString } from '@stellar/strkey';
+
+/**
+ * Where a change happened: fee charging, before or after the operations,
+ * in an operation, or the post-apply fee refund.
+ */
+export type LedgerChangePhase = 'fee' | 'txBefore' | 'op' | 'txAfter' | 'postApply';
+
+export interface LedgerChange {
+  phase: LedgerChangePhase;
+  /** Index of the operation, for `'op'` changes; otherwise `null`. */
+  opIndex: number | null;
+  type: Exclude<LedgerEntryChangeType, 'State'>;
+  key: LedgerKey;
+  /** The entry before the change; `null` when created or restored. */
+  before: LedgerEntry | null;
+  /** The entry after the change; `null` when removed. */
+  after: LedgerEntry | null;
+}
+
+export interface BalanceDelta {
+  /** G-address of the account. */
+  accountId: string;
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+export interface TrustlineDelta extends BalanceDelta {
+  asset: TrustLineAsset;
+}
+
+export interface ContractDataChange {
+  /** C-address of the contract owning the entry. */
+  contractId: string;
+  key: SCVal;
+  durability: ContractDataDurability;
+  type: LedgerChange['type'];
+  before: SCVal | null;
+  after: SCVal | null;
+}
+
+export interface TtlExtension {
+  /** Hash of the contract data or code key whose TTL changed. */
+  keyHash: Uint8Array;
+  /** Previous live-until ledger; `null` for a new TTL entry. */
+  before: number | null;
+  after: number;
+}
+
+export interface EmittedContractEvent {
+  /** Index of the emitting operation; `null` for transaction-level events. */
+  opIndex: number | null;
+  /** Stage of a transaction-level event (meta V4). */
+  stage?: TransactionEventStage;
+  event: ContractEvent;
+}
+
+/**
+ * Flatten the ledger entry changes of a transaction's meta into
+ * before/after pairs, in application order. Pass a `TransactionResultMeta`
+ * (from `LedgerCloseMeta`) to include its fee and post-apply fee changes.
+ */
+export function extractLedgerChanges(
+  meta: TransactionMeta | TransactionResultMeta | TransactionResultMetaV1,
+): LedgerChange[] {
+  if (!('txApplyProcessing' in meta)) return metaChanges(meta);
+  return [
+    ...pairChanges(meta.feeProcessing, 'fee', null),
+    ...metaChanges(meta.txApplyProcessing),
+    ...('postTxApplyFeeProcessing' in meta
+      ? pairChanges(meta.postTxApplyFeeProcessing, 'postApply', null)
+      : []),
+  ];
+}
+
+function metaChanges(meta: TransactionMeta): LedgerChange[] {
+  const ops = (operations: readonly { changes: LedgerEntryChanges }[]) =>
+    operations.flatMap((op, i) => pairChanges(op.changes, 'op', i));
+  if (is(meta, '0')) return ops(meta['0']);
+  if (is(meta, '1')) {
+    return [...pairChanges(meta['1'].txChanges, 'txBefore', null), ...ops(meta['1'].operations)];
+  }
+  const v = is(meta, '2') ? meta['2'] : is(meta, '3') ? meta['3'] : meta['4'];
+  return [
+    ...pairChanges(v.txChangesBefore, 'txBefore', null),
+    ...ops(v.operations),
+    ...pairChanges(v.txChangesAfter, 'txAfter', null),
+  ];
+}
+
+function pairChanges(
+  changes: LedgerEntryChanges,
+  phase: LedgerChangePhase,
+  opIndex: number | null,
+): LedgerChange[] {
+  const result: LedgerChange[] = [];
+  let state: LedgerEntry | null = null;
+  for (const change of changes) {
+    if (is(change, 'State')) {
+      state = change.State;
+      continue;
+    }
+    if (is(change, 'Removed')) {
+      const key = change.Removed;
+      result.push({ phase, opIndex, type: 'Removed', key, before: state, after: null });
+    } else {
+      const [type, entry] = is(change, 'Created')
+        ? ['Created' as const, change.Created]
+        : is(change, 'Updated')
+          ? ['Updated' as const, change.Updated]
+          : ['Restored' as const, change.Restored];
+      const before = type === 'Updated' ? state : null;
+      result.push({ phase, opIndex, type, key: ledgerEntryKey(entry.data), before, after: entry });
+    }
+    state = null;
+  }
+  return result;
+}
+
+/**
+ * The `LedgerKey` identifying a ledger entry.
+ */
+export function ledgerEntryKey(data: LedgerEntryData): LedgerKey {
+  if (is(data, 'Account')) return { Account: { accountID: data.Account.accountID } };
+  if (is(data, 'Trustline')) {
+    const { accountID, asset } = data.Trustline;
+    return { Trustline: { accountID, asset } };
+  }
+  if (is(data, 'Offer')) {
+    const { sellerID, offerID } = data.Offer;
+    return { Offer: { sellerID, offerID } };
+  }
+  if (is(data, 'Data')) {
+    const { accountID, dataName } = data.Data;
+    return { Data: { accountID, dataName } };
+  }
+  if (is(data, 'ClaimableBalance')) {
+    return { ClaimableBalance: { balanceID: data.ClaimableBalance.balanceID } };
+  }
+  if (is(data, 'LiquidityPool')) {
+    return { LiquidityPool: { liquidityPoolID: data.LiquidityPool.liquidityPoolID } };
+  }
+  if (is(data, 'ContractData')) {
+    const { contract, key, durability } = data.ContractData;
+    return { ContractData: { contract, key, durability } };
+  }
+  if (is(data, 'ContractCode')) return { ContractCode: { hash: data.ContractCode.hash } };
+  if (is(data, 'Ttl')) return { Ttl: { keyHash: data.Ttl.keyHash } };
+  const configSettingID = Object.keys(data.ConfigSetting)[0] as ConfigSettingID;
+  return { ConfigSetting: { configSettingID } };
+}
+
+/**
+ * Net native balance change per account, in order of first appearance.
+ * Accounts whose balance ends where it started are omitted.
+ */
+export function accountBalanceDeltas(changes: readonly LedgerChange[]): BalanceDelta[] {
+  const deltas = new Map<string, BalanceDelta>();
+  for (const { before, after } of changes) {
+    const b = before && is(before.data, 'Account') ? before.data.Account : null;
+    const a = after && is(after.data, 'Account') ? after.data.Account : null;
+    const accountID = (a ?? b)?.accountID;
+    if (accountID === undefined) continue;
+    const accountId = accountAddress(accountID);
+    track(deltas, accountId, { accountId }, b?.balance ?? 0n, a?.balance ?? 0n);
+  }
+  return [...deltas.values()].filter((d) => d.delta !== 0n);
+}
+
+/**
+ * Net trustline balance change per account and asset, in order of first
+ * appearance. Trustlines whose balance ends where it started are omitted.
+ */
+export function trustlineDeltas(changes: readonly LedgerChange[]): TrustlineDelta[] {
+  const deltas = new Map<string, TrustlineDelta>();
+  for (const { before, after } of changes) {
+    const b = before && is(before.data, 'Trustline') ? before.data.Trustline : null;
+    const a = after && is(after.data, 'Trustline') ? after.data.Trustline : null;
+    const line = a ?? b;
+    if (line === null) continue;
+    const accountId = accountAddress(line.accountID);
+    const id = `${accountId}:${bytesToHex(TrustLineAsset.toXdr(line.asset))}`;
+    track(deltas, id, { accountId, asset: line.asset }, b?.balance ?? 0n, a?.balance ?? 0n);
+  }
+  return [...deltas.values()].filter((d) => d.delta !== 0n);
+}
+
+/** Record a balance change, keeping the first `before` seen for `id`. */
+function track<D extends BalanceDelta>(
+  deltas: Map<string, D>,
+  id: string,
+  fields: Omit<D, 'before' | 'after' | 'delta'>,
+  before: bigint,
+  after: bigint,
+): void {
+  const existing = deltas.get(id);
+  if (existing) {
+    existing.after = after;
+    existing.delta = after - existing.before;
+  } else {
+    deltas.set(id, { ...fields, before, after, delta: after - before } as D);
+  }
+}
+
+/**
+ * Contract data changes, one per created, updated, restored or removed
+ * entry, with the stored values before and after.
+ */
+export function contractDataChanges(changes: readonly LedgerChange[]): ContractDataChange[] {
+  const result: ContractDataChange[] = [];
+  for (const { type, key, before, after } of changes) {
+    if (!is(key, 'ContractData') || !is(key.ContractData.contract, 'Contract')) continue;
+    result.push({
+      contractId: strkeyToString({ type: 'contract', data: key.ContractData.contract.Contract }),
+      key: key.ContractData.key,
+      durability: key.ContractData.durability,
+      type,
+      before: before && is(before.data, 'ContractData') ? before.data.ContractData.val : null,
+      after: after && is(after.data, 'ContractData') ? after.data.ContractData.val : null,
+    });
+  }
+  return result;
+}
+
+/**
+ * TTL entries that were created or whose live-until ledger increased.
+ */
+export function ttlExtensions(changes: readonly LedgerChange[]): TtlExtension[] {
+  const result: TtlExtension[] = [];
+  for (const { before, after } of changes) {
+    if (!after || !is(after.data, 'Ttl')) continue;
+    const prev = before && is(before.data, 'Ttl') ? before.data.Ttl.liveUntilLedgerSeq : null;
+    const next = after.data.Ttl.liveUntilLedgerSeq;
+    if (prev === null || next > prev) {
+      result.push({ keyHash: after.data.Ttl.keyHash, before: prev, after: next });
+    }
+  }
+  return result;
+}
+
+/**
+ * Contract events emitted by a transaction: the Soroban operation's events
+ * for meta V3, and per-operation plus transaction-level events for V4.
+ */
+export function extractContractEvents(meta: TransactionMeta): EmittedContractEvent[] {
+  if (is(meta, '3')) {
+    return (meta['3'].sorobanMeta?.events ?? []).map((event) => ({ opIndex: 0, event }));
+  }
+  if (!is(meta, '4')) return [];
+  return [
+    ...meta['4'].operations.flatMap((op, opIndex) =>
+      op.events.map((event) => ({ opIndex, event })),
+    ),
+    ...meta['4'].events.map(({ stage, event }) => ({ opIndex: null, stage, event })),
+  ];
+}
+
+function accountAddress(accountID: AccountID): string {
+  return strkeyToString({ type: 'public_key_ed25519', data: accountID.PublicKeyTypeEd25519 });
+}
@@ -0,0 +1,164 @@
+/**
+ * Per-transaction records from `LedgerCloseMeta`.
+ *
+ * The transaction set lists envelopes by phase and component (or, for
+ * parallel Soroban phases, by stage and cluster), which is not the order
+ * they were applied in. `txProcessing` is in apply order and carries each
+ * transaction's hash, so envelopes are matched to it by hash.
+ */
+import {
+  TransactionSignaturePayload,
+  type LedgerCloseMeta,
+  type LedgerEntryChanges,
+  type Transaction,
+  type TransactionEnvelope,
+  type TransactionMeta,
+  type TransactionResult,
+  type TransactionResultMeta,
+  type TransactionResultMetaV1,
+  type TransactionV0,
+} from '../generated/index.js';
+import { is } from './composites.js';
+import { bytesToHex } from './hex.js';
+import { extractContractEvents, type EmittedContractEvent } from './ledger-changes.js';
+
+export interface LedgerTransaction {
+  /** Position in apply order, from 0. */
+  index: number;
+  /** Hex transaction hash (of the outer transaction, for fee bumps). */
+  hash: string;
+  envelope: TransactionEnvelope;
+  result: TransactionResult;
+  meta: TransactionMeta;
+  /** Fee charged before the ledger's transactions were applied. */
+  feeChanges: LedgerEntryChanges;
+  /** Fee refunds after all transactions were applied (`LedgerCloseMeta` V2). */
+  postApplyFeeChanges: LedgerEntryChanges;
+  events: EmittedContractEvent[];
+  /** Transaction set phase (0 classic, 1 Soroban); 0 for V0 ledgers. */
+  phase: number;
+  /** The component's discounted base fee, if it has one. */
+  baseFee: bigint | null;
+}
+
+export interface ProcessedLedger {
+  sequence: number;
+  /** Hex ledger hash. */
+  hash: string;
+  closeTime: bigint;
+  protocolVersion: number;
+  /** Transactions in apply order. */
+  transactions: LedgerTransaction[];
+}
+
+interface TxSetEntry {
+  envelope: TransactionEnvelope;
+  phase: number;
+  baseFee: bigint | null;
+}
+
+/**
+ * Match a ledger's transaction set to its apply-order results, hashing each
+ * envelope for `networkPassphrase`. Throws if a result has no envelope.
+ */
+export async function processLedgerCloseMeta(
+  meta: LedgerCloseMeta,
+  networkPassphrase: string,
+): Promise<ProcessedLedger> {
+  const v = is(meta, '0') ? meta['0'] : is(meta, '1') ? meta['1'] : meta['2'];
+  const { header, hash } = v.ledgerHeader;
+  const processing: readonly (TransactionResultMeta | TransactionResultMetaV1)[] = v.txProcessing;
+
+  const networkId = await sha256(new TextEncoder().encode(networkPassphrase));
+  const byHash = new Map<string, TxSetEntry>();
+  for (const entry of txSetEntries(meta)) {
+    byHash.set(bytesToHex(await envelopeHash(entry.envelope, networkId)), entry);
+  }
+
+  const transactions = processing.map((txMeta, index): LedgerTransaction => {
+    const txHash = bytesToHex(txMeta.result.transactionHash);
+    const entry = byHash.get(txHash);
+    if (entry === undefined) {
+      throw new Error(
+        `Transaction ${txHash} applied in ledger ${header.ledgerSeq} is not in its transaction set`,
+      );
+    }
+    return {
+      index,
+      hash: txHash,
+      envelope: entry.envelope,
+      result: txMeta.result.result,
+      meta: txMeta.txApplyProcessing,
+      feeChanges: txMeta.feeProcessing,
+      postApplyFeeChanges:
+        'postTxApplyFeeProcessing' in txMeta ? txMeta.postTxApplyFeeProcessing : [],
+      events: extractContractEvents(txMeta.txApplyProcessing),
+      phase: entry.phase,
+      baseFee: entry.baseFee,
+    };
+  });
+
+  return {
+    sequence: header.ledgerSeq,
+    hash: bytesToHex(hash),
+    closeTime: header.scpValue.closeTime,
+    protocolVersion: header.ledgerVersion,
+    transactions,
+  };
+}
+
+function txSetEntries(meta: LedgerCloseMeta): TxSetEntry[] {
+  if (is(meta, '0')) {
+    return meta['0'].txSet.txs.map((envelope) => ({ envelope, phase: 0, baseFee: null }));
+  }
+  const txSet = is(meta, '1') ? meta['1'].txSet : meta['2'].txSet;
+  return txSet['1'].phases.flatMap((phase, i): TxSetEntry[] => {
+    if (is(phase, '0')) {
+      return phase['0'].flatMap(({ TxsetCompTxsMaybeDiscountedFee: { baseFee, txs } }) =>
+        txs.map((envelope) => ({ envelope, phase: i, baseFee })),
+      );
+    }
+    const { baseFee, executionStages } = phase['1'];
+    return executionStages.flat(2).map((envelope) => ({ envelope, phase: i, baseFee }));
+  });
+}
+
+/**
+ * Hash a transaction envelope for `networkPassphrase`. Signatures are not
+ * part of the hash, and V0 envelopes hash as the equivalent V1 transaction.
+ * Fee bump envelopes hash to the outer transaction's hash.
+ */
+export async function transactionEnvelopeHash(
+  envelope: TransactionEnvelope,
+  networkPassphrase: string,
+): Promise<Uint8Array> {
+  return envelopeHash(envelope, await sha256(new TextEncoder().encode(networkPassphrase)));
+}
+
+async function envelopeHash(
+  envelope: TransactionEnvelope,
+  networkId: Uint8Array,
+): Promise<Uint8Array> {
+  const taggedTransaction = is(envelope, 'TxFeeBump')
+    ? { TxFeeBump: envelope.TxFeeBump.tx }
+    : { Tx: is(envelope, 'Tx') ? envelope.Tx.tx : fromV0(envelope.TxV0.tx) };
+  return sha256(TransactionSignaturePayload.toXdr({ networkId, taggedTransaction }));
+}
+
+/** V0 transactions are hashed as the equivalent V1 transaction. */
+function fromV0(tx: TransactionV0): Transaction {
+  return {
+    sourceAccount: { Ed25519: tx.sourceAccountEd25519 },
+    fee: tx.fee,
+    seqNum: tx.seqNum,
+    cond: tx.timeBounds ? { Time: tx.timeBounds } : 'None',
+    memo: tx.memo,
+    operations: tx.operations,
+    ext: '0',
+  };
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', data as ArrayBufferView<ArrayBuffer>);
+  return new Uint8Array(digest);
+}
@@ -14,22 +14,79 @@ function decodeLatin1(bytes: Uint8Array): string {
   return result;
 }
 
+export interface DecodeOptions {
+  /**
+   * Track the field path being decoded, so that a failure's `XdrError`
+   * carries `path` and `offset`. A string names the root value.
+   */
+  trackPath?: boolean | string;
+}
+
+interface PathSegment {
+  segment: string;
+  offset: number;
+}
+
 export class XdrReader {
   private readonly data: Uint8Array;
   private readonly view: DataView;
   private pos: number = 0;
   readonly limits: LimitTracker;
+  private readonly root: string;
+  private readonly pathStack: PathSegment[] | null;
 
-  constructor(input: Uint8Array, limits?: Limits) {
+  constructor(input: Uint8Array, limits?: Limits, options?: DecodeOptions) {
     this.data = input;
     this.view = new DataView(input.buffer, input.byteOffset, input.byteLength);
     this.limits = new LimitTracker(limits ?? DEFAULT_LIMITS);
+    const trackPath = options?.trackPath ?? false;
+    this.root = typeof trackPath === 'string' ? trackPath : '';
+    this.pathStack = trackPath === false ? null : [];
   }
 
   get offset(): number {
     return this.pos;
   }
 
+  /** Whether `pushPath` records segments; decoders skip it when not. */
+  get tracksPath(): boolean {
+    return this.pathStack !== null;
+  }
+
+  /**
+   * The path being decoded, e.g. `operations[2].body`. Segments entered
+   * but not left stay on the stack, so after a failure this is where it
+   * happened. Empty unless path tracking is on.
+   */
+  get path(): string {
+    let path = this.root;
+    for (const { segment } of this.pathStack ?? []) {
+      path += segment.startsWith('[') || path === '' ? segment : `.${segment}`;
+    }
+    return path;
+  }
+
+  /** Enter a struct field, union arm or array element (`[i]`). */
+  pushPath(segment: string): void {
+    this.pathStack?.push({ segment, offset: this.pos });
+  }
+
+  popPath(): void {
+    this.pathStack?.pop();
+  }
+
+  /**
+   * Add the current path and the offset of the innermost value (or, at the
+   * root, the current offset) to `err`, if path tracking is on.
+   */
+  annotate(err: XdrError): XdrError {
+    if (this.pathStack === null || err.path !== undefined) return err;
+    err.path = this.path;
+    err.offset = this.pathStack[this.pathStack.length - 1]?.offset ?? this.pos;
+    err.message += ` at ${err.path || '<root>'} (byte ${err.offset})`;
+    return err;
+  }
+
   get remaining(): number {
     return this.data.length - this.pos;
   }
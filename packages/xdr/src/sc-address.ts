@@ -0,0 +1,57 @@
+/**
+ * Conversion between strkey addresses and XDR `SCAddress` values.
+ */
+
+import type { SCAddress } from '../generated/index.js';
+import { is } from './composites.js';
+import { strkeyFromString, strkeyToString } from '@stellar/strkey';
+
+/**
+ * Parse a strkey address (G..., M..., C..., B... or L...) into an `SCAddress`.
+ */
+export function parseScAddress(address: string): SCAddress {
+  const key = strkeyFromString(address);
+  switch (key.type) {
+    case 'public_key_ed25519':
+      return { Account: { PublicKeyTypeEd25519: key.data } };
+    case 'muxed_account_ed25519':
+      return { MuxedAccount: { id: key.id, ed25519: key.ed25519 } };
+    case 'contract':
+      return { Contract: key.data };
+    case 'claimable_balance_v0':
+      return { ClaimableBalance: { ClaimableBalanceIdTypeV0: key.data } };
+    case 'liquidity_pool':
+      return { LiquidityPool: key.data };
+    default:
+      throw new TypeError(`Not a valid SCAddress strkey: ${key.type}`);
+  }
+}
+
+/**
+ * Encode an `SCAddress` as its strkey string.
+ */
+export function scAddressToString(addr: SCAddress): string {
+  if (is(addr, 'Account')) {
+    return strkeyToString({
+      type: 'public_key_ed25519',
+      data: addr.Account.PublicKeyTypeEd25519,
+    });
+  }
+  if (is(addr, 'Contract')) {
+    return strkeyToString({ type: 'contract', data: addr.Contract });
+  }
+  if (is(addr, 'MuxedAccount')) {
+    return strkeyToString({
+      type: 'muxed_account_ed25519',
+      ed25519: addr.MuxedAccount.ed25519,
+      id: addr.MuxedAccount.id,
+    });
+  }
+  if (is(addr, 'ClaimableBalance')) {
+    return strkeyToString({
+      type: 'claimable_balance_v0',
+      data: addr.ClaimableBalance.ClaimableBalanceIdTypeV0,
+    });
+  }
+  return strkeyToString({ type: 'liquidity_pool', data: addr.LiquidityPool });
+}
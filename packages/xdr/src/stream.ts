@@ -0,0 +1,195 @@
+/**
+ * Decoding XDR values from a `ReadableStream`.
+ *
+ * Values may span chunk boundaries. Each value is decoded by its own
+ * `XdrReader`, so depth and byte limits apply per value rather than to the
+ * whole stream.
+ */
+import { XdrError, XdrErrorCode } from './errors.js';
+import { type Limits, DEFAULT_LIMITS } from './limits.js';
+import { type XdrCodec } from './codec.js';
+import { XdrReader } from './reader.js';
+
+const LAST_FRAGMENT = 0x80000000;
+
+/**
+ * Decode consecutive, unframed values from a stream. A value that runs
+ * past the end of the buffered bytes is retried once the buffered bytes
+ * have doubled, so a value spread over many chunks is decoded and copied
+ * O(log n) times rather than once per chunk.
+ */
+export async function* decodeStream<T>(
+  codec: XdrCodec<T>,
+  stream: ReadableStream<Uint8Array>,
+  limits: Limits = DEFAULT_LIMITS,
+): AsyncGenerator<T> {
+  const chunks = stream.getReader();
+  let pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  // Bytes to buffer before the next decode attempt.
+  let needed = 0;
+  let ended = false;
+  try {
+    for (;;) {
+      if (pendingLength > 0 && (ended || pendingLength >= needed)) {
+        const buffer = pending.length === 1 ? pending[0]! : concat(pending);
+        const decoded = tryDecode(codec, buffer, limits);
+        if (decoded) {
+          const rest = buffer.subarray(decoded.length);
+          pending = rest.length > 0 ? [rest] : [];
+          pendingLength = rest.length;
+          needed = 0;
+          yield decoded.value;
+          continue;
+        }
+        pending = [buffer];
+        needed = pendingLength * 2;
+      }
+      if (ended) break;
+      const chunk = await chunks.read();
+      if (chunk.done) {
+        ended = true;
+      } else {
+        pending.push(chunk.value);
+        pendingLength += chunk.value.length;
+      }
+    }
+  } finally {
+    if (!ended) await chunks.cancel();
+    chunks.releaseLock();
+  }
+  if (pendingLength > 0) {
+    throw new XdrError(
+      XdrErrorCode.BufferUnderflow,
+      `Stream ended inside a value: ${pendingLength} bytes left over`,
+    );
+  }
+}
+
+/** Decode a value from the start of `buffer`, or `null` if it is incomplete. */
+function tryDecode<T>(
+  codec: XdrCodec<T>,
+  buffer: Uint8Array,
+  limits: Limits,
+): { value: T; length: number } | null {
+  const reader = new XdrReader(buffer, limits);
+  try {
+    return { value: codec.decode(reader), length: reader.offset };
+  } catch (err) {
+    if (err instanceof XdrError && err.code === XdrErrorCode.BufferUnderflow) return null;
+    throw err;
+  }
+}
+
+/**
+ * Decode record-marked values (RFC 5531), one per record. Each record must
+ * hold exactly one value.
+ */
+export async function* decodeRecordStream<T>(
+  codec: XdrCodec<T>,
+  stream: ReadableStream<Uint8Array>,
+  limits: Limits = DEFAULT_LIMITS,
+): AsyncGenerator<T> {
+  for await (const record of readXdrRecords(stream, limits)) {
+    yield codec.fromXdr(record, limits);
+  }
+}
+
+/**
+ * Split a record-marked stream into records. Each record is one or more
+ * fragments, each behind a 4-byte header holding its length and, in the
+ * high bit, whether it is the record's last fragment. Chunks are buffered
+ * until a whole header or fragment is available, so each byte is copied at
+ * most once per stage however the stream is chunked.
+ */
+export async function* readXdrRecords(
+  stream: ReadableStream<Uint8Array>,
+  limits: Limits = DEFAULT_LIMITS,
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  const pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  let fragments: Uint8Array[] = [];
+  let recordLength = 0;
+  // Header of the fragment being buffered, or null while awaiting one.
+  let header: number | null = null;
+  let done = false;
+
+  // Remove the first `n` buffered bytes, copying only when they span chunks.
+  function take(n: number): Uint8Array {
+    const first = pending[0]!;
+    if (first.length >= n) {
+      if (first.length === n) pending.shift();
+      else pending[0] = first.subarray(n);
+      pendingLength -= n;
+      return first.subarray(0, n);
+    }
+    const result = new Uint8Array(n);
+    let offset = 0;
+    while (offset < n) {
+      const chunk = pending[0]!;
+      const used = Math.min(chunk.length, n - offset);
+      result.set(chunk.subarray(0, used), offset);
+      offset += used;
+      if (used === chunk.length) pending.shift();
+      else pending[0] = chunk.subarray(used);
+    }
+    pendingLength -= n;
+    return result;
+  }
+
+  try {
+    for (;;) {
+      if (header === null && pendingLength >= 4) {
+        const bytes = take(4);
+        header = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0);
+        const length = header & ~LAST_FRAGMENT;
+        if (recordLength + length > limits.len) {
+          throw new XdrError(
+            XdrErrorCode.LengthExceedsMax,
+            `Record length ${recordLength + length} exceeds limit ${limits.len}`,
+          );
+        }
+        continue;
+      }
+      if (header !== null && pendingLength >= (header & ~LAST_FRAGMENT)) {
+        const length = header & ~LAST_FRAGMENT;
+        fragments.push(length > 0 ? take(length) : new Uint8Array(0));
+        recordLength += length;
+        const last = header & LAST_FRAGMENT;
+        header = null;
+        if (last) {
+          yield fragments.length === 1 ? fragments[0]! : concat(fragments);
+          fragments = [];
+          recordLength = 0;
+        }
+        continue;
+      }
+      const chunk = await reader.read();
+      if (chunk.done) {
+        done = true;
+        break;
+      }
+      if (chunk.value.length > 0) {
+        pending.push(chunk.value);
+        pendingLength += chunk.value.length;
+      }
+    }
+  } finally {
+    if (!done) await reader.cancel();
+    reader.releaseLock();
+  }
+  if (pendingLength > 0 || header !== null || fragments.length > 0) {
+    throw new XdrError(XdrErrorCode.BufferUnderflow, 'Stream ended inside a record');
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,388 @@
+/**
+ * Transaction result decoding.
+ *
+ * Turns a `TransactionResult` into its transaction and per-operation result
+ * codes, with short explanations, and defines the error both the RPC and
+ * Horizon clients throw for failed transactions.
+ */
+import {
+  AccountMergeResultCode,
+  AllowTrustResultCode,
+  BeginSponsoringFutureReservesResultCode,
+  BumpSequenceResultCode,
+  ChangeTrustResultCode,
+  ClaimClaimableBalanceResultCode,
+  ClawbackClaimableBalanceResultCode,
+  ClawbackResultCode,
+  CreateAccountResultCode,
+  CreateClaimableBalanceResultCode,
+  EndSponsoringFutureReservesResultCode,
+  ExtendFootprintTTLResultCode,
+  InflationResultCode,
+  InvokeHostFunctionResultCode,
+  LiquidityPoolDepositResultCode,
+  LiquidityPoolWithdrawResultCode,
+  ManageBuyOfferResultCode,
+  ManageDataResultCode,
+  ManageSellOfferResultCode,
+  OperationResultCode,
+  PathPaymentStrictReceiveResultCode,
+  PathPaymentStrictSendResultCode,
+  PaymentResultCode,
+  RestoreFootprintResultCode,
+  RevokeSponsorshipResultCode,
+  SetOptionsResultCode,
+  SetTrustLineFlagsResultCode,
+  TransactionResultCode,
+  type InnerTransactionResult,
+  type OperationResult,
+  type OperationType,
+  type TransactionResult,
+} from '../generated/index.js';
+import { is } from './composites.js';
+
+export interface OperationResultSummary {
+  index: number;
+  /** Operation type, or `null` when it failed before running (e.g. `OpBADAuth`). */
+  type: OperationType | null;
+  /**
+   * The operation type's result code (e.g. `'Underfunded'`), or an
+   * `OperationResultCode` (e.g. `'OpBADAuth'`) when `type` is `null`.
+   */
+  code: string;
+  explanation: string;
+}
+
+export interface TransactionResultSummary {
+  /** Outer result code; `TxFEEBumpInner*` for fee bumps. */
+  txCode: TransactionResultCode;
+  /** Result code of a fee bump's inner transaction. */
+  innerTxCode?: TransactionResultCode;
+  /** Operation results (of the inner transaction for fee bumps). */
+  opCodes: OperationResultSummary[];
+  /** Explanation of the effective (inner, for fee bumps) transaction code. */
+  explanation: string;
+  successful: boolean;
+}
+
+/**
+ * A submitted transaction failed validation or application.
+ */
+export class TransactionFailedError extends Error {
+  readonly result: TransactionResultSummary;
+  /** Hex transaction hash, when known. */
+  readonly hash?: string;
+  /** The client response that reported the failure. */
+  readonly response?: unknown;
+  /** The client error this was derived from, if any. */
+  readonly cause?: unknown;
+
+  constructor(
+    result: TransactionResultSummary,
+    opts: { hash?: string; response?: unknown; cause?: unknown } = {},
+  ) {
+    super(describeFailure(result, opts.hash));
+    this.name = 'TransactionFailedError';
+    this.result = result;
+    this.hash = opts.hash;
+    this.response = opts.response;
+    this.cause = opts.cause;
+  }
+}
+
+/**
+ * Decode a `TransactionResult` (or a fee bump's `InnerTransactionResult`)
+ * into its result codes.
+ */
+export function decodeTransactionResult(
+  result: TransactionResult | InnerTransactionResult,
+): TransactionResultSummary {
+  const outer = result.result;
+  const txCode = armName(outer) as TransactionResultCode;
+  if (is(outer, 'TxFEEBumpInnerSuccess') || is(outer, 'TxFEEBumpInnerFailed')) {
+    const pair = is(outer, 'TxFEEBumpInnerSuccess')
+      ? outer.TxFEEBumpInnerSuccess
+      : outer.TxFEEBumpInnerFailed;
+    const inner = decodeTransactionResult(pair.result);
+    return { ...inner, txCode, innerTxCode: inner.txCode };
+  }
+  const ops: readonly OperationResult[] = is(outer, 'TxSUCCESS')
+    ? outer.TxSUCCESS
+    : is(outer, 'TxFAILED')
+      ? outer.TxFAILED
+      : [];
+  return summary(txCode, undefined, ops.map(operationSummary));
+}
+
+/**
+ * Decode Horizon's `extras.result_codes` (e.g. `{ transaction: 'tx_failed',
+ * operations: ['op_underfunded'] }`), given the submitted operations' types.
+ * Returns `null` when the transaction code is not recognized; unrecognized
+ * operation codes are kept as Horizon reports them.
+ */
+export function decodeResultCodes(
+  codes: { transaction: string; inner_transaction?: string; operations?: readonly string[] },
+  operationTypes: readonly OperationType[],
+): TransactionResultSummary | null {
+  const txCode = matchTxCode(codes.transaction);
+  if (txCode === null) return null;
+  const innerTxCode =
+    codes.inner_transaction !== undefined
+      ? matchTxCode(codes.inner_transaction) ?? undefined
+      : undefined;
+  const opCodes = (codes.operations ?? []).map((raw, index) => {
+    const name = raw.replace(/^op_/, '');
+    const opLevel = matchCode(name, OperationResultCode, 'Op', { aliases: OP_ALIASES });
+    const type = operationTypes[index];
+    if (opLevel !== null || type === undefined) {
+      return opSummary(index, null, opLevel ?? raw);
+    }
+    const code = matchCode(name, RESULT_CODES[type], '', { aliases: OP_ALIASES, suffix: true });
+    return opSummary(index, type, code ?? raw);
+  });
+  return summary(txCode, innerTxCode, opCodes);
+}
+
+function summary(
+  txCode: TransactionResultCode,
+  innerTxCode: TransactionResultCode | undefined,
+  opCodes: OperationResultSummary[],
+): TransactionResultSummary {
+  const effective = innerTxCode ?? txCode;
+  const result: TransactionResultSummary = {
+    txCode,
+    opCodes,
+    explanation: TX_EXPLANATIONS[effective],
+    successful: effective === 'TxSUCCESS',
+  };
+  if (innerTxCode !== undefined) result.innerTxCode = innerTxCode;
+  return result;
+}
+
+function operationSummary(result: OperationResult, index: number): OperationResultSummary {
+  if (typeof result === 'string') return opSummary(index, null, result);
+  const tr = result.OpINNER;
+  const type = armName(tr) as OperationType;
+  return opSummary(index, type, armName((tr as Record<string, unknown>)[type]));
+}
+
+function opSummary(
+  index: number,
+  type: OperationType | null,
+  code: string,
+): OperationResultSummary {
+  const explanation =
+    (type !== null ? OP_EXPLANATION_OVERRIDES[`${type}.${code}`] : undefined) ??
+    OP_EXPLANATIONS[code] ??
+    code.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return { index, type, code, explanation };
+}
+
+function armName(value: unknown): string {
+  return typeof value === 'string' ? value : Object.keys(value as object)[0]!;
+}
+
+function describeFailure(result: TransactionResultSummary, hash?: string): string {
+  const code = result.innerTxCode
+    ? `${result.txCode} (inner ${result.innerTxCode})`
+    : result.txCode;
+  const failed = result.opCodes
+    .filter((op) => op.code !== 'Success')
+    .map((op) => `operation ${op.index}${op.type ? ` (${op.type})` : ''}: ${op.code}`);
+  const subject = hash ? `Transaction ${hash}` : 'Transaction';
+  return [`${subject} failed: ${code} — ${result.explanation}`, ...failed].join('; ');
+}
+
+// ---------------------------------------------------------------------------
+// Horizon code matching
+// ---------------------------------------------------------------------------
+
+/** Horizon codes whose names differ from the XDR enum members. */
+const TX_ALIASES: Record<string, TransactionResultCode> = {
+  no_source_account: 'TxNOAccount',
+};
+
+const OP_ALIASES: Record<string, string> = {
+  no_source_account: 'OpNOAccount',
+  already_exists: 'AlreadyExist',
+  not_required_trust: 'TrustNotRequired',
+};
+
+/** Result code enums by operation type; their members are own properties. */
+const RESULT_CODES: Record<OperationType, object> = {
+  CreateAccount: CreateAccountResultCode,
+  Payment: PaymentResultCode,
+  PathPaymentStrictReceive: PathPaymentStrictReceiveResultCode,
+  ManageSellOffer: ManageSellOfferResultCode,
+  CreatePassiveSellOffer: ManageSellOfferResultCode,
+  SetOptions: SetOptionsResultCode,
+  ChangeTrust: ChangeTrustResultCode,
+  AllowTrust: AllowTrustResultCode,
+  AccountMerge: AccountMergeResultCode,
+  Inflation: InflationResultCode,
+  ManageData: ManageDataResultCode,
+  BumpSequence: BumpSequenceResultCode,
+  ManageBuyOffer: ManageBuyOfferResultCode,
+  PathPaymentStrictSend: PathPaymentStrictSendResultCode,
+  CreateClaimableBalance: CreateClaimableBalanceResultCode,
+  ClaimClaimableBalance: ClaimClaimableBalanceResultCode,
+  BeginSponsoringFutureReserves: BeginSponsoringFutureReservesResultCode,
+  EndSponsoringFutureReserves: EndSponsoringFutureReservesResultCode,
+  RevokeSponsorship: RevokeSponsorshipResultCode,
+  Clawback: ClawbackResultCode,
+  ClawbackClaimableBalance: ClawbackClaimableBalanceResultCode,
+  SetTrustLineFlags: SetTrustLineFlagsResultCode,
+  LiquidityPoolDeposit: LiquidityPoolDepositResultCode,
+  LiquidityPoolWithdraw: LiquidityPoolWithdrawResultCode,
+  InvokeHostFunction: InvokeHostFunctionResultCode,
+  ExtendFootprintTtl: ExtendFootprintTTLResultCode,
+  RestoreFootprint: RestoreFootprintResultCode,
+};
+
+function matchTxCode(raw: string): TransactionResultCode | null {
+  const code = raw.replace(/^tx_/, '');
+  const matched = TX_ALIASES[code] ?? matchCode(code, TransactionResultCode, 'Tx');
+  return matched as TransactionResultCode | null;
+}
+
+/**
+ * Match a snake_case Horizon code against enum member names, ignoring case,
+ * underscores and the member `prefix`. With `suffix`, falls back to the
+ * longest member the code ends with (e.g. `function_trapped` → `Trapped`).
+ */
+function matchCode(
+  code: string,
+  members: object,
+  prefix: string,
+  opts: { aliases?: Record<string, string>; suffix?: boolean } = {},
+): string | null {
+  const alias = opts.aliases?.[code];
+  if (alias !== undefined && alias in members) return alias;
+  const wanted = code.replace(/_/g, '').toLowerCase();
+  const names = Object.keys(members).filter((name) => name.startsWith(prefix));
+  const normalized = (name: string) => name.slice(prefix.length).toLowerCase();
+  const exact = names.find((name) => normalized(name) === wanted);
+  if (exact !== undefined || !opts.suffix) return exact ?? null;
+  const matches = names.filter((name) => wanted.endsWith(normalized(name)));
+  return matches.sort((a, b) => b.length - a.length)[0] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Explanations
+// ---------------------------------------------------------------------------
+
+const TX_EXPLANATIONS: Record<TransactionResultCode, string> = {
+  TxSUCCESS: 'All operations succeeded.',
+  TxFAILED: 'One or more operations failed.',
+  TxTOOEarly: "The ledger closed before the transaction's minimum time.",
+  TxTOOLate: "The ledger closed after the transaction's maximum time.",
+  TxMISSINGOperation: 'The transaction has no operations.',
+  TxBADSeq: "The sequence number does not follow the source account's.",
+  TxBADAuth: 'Too few valid signatures, or signed for the wrong network.',
+  TxINSUFFICIENTBalance: 'The fee would take the source account below its reserve.',
+  TxNOAccount: 'The source account does not exist.',
+  TxINSUFFICIENTFee: 'The fee is too small.',
+  TxBADAuthExtra: 'The transaction has signatures that are not needed.',
+  TxINTERNALError: 'An internal error occurred in stellar-core.',
+  TxNOTSupported: 'The transaction type is not supported.',
+  TxFEEBumpInnerSuccess: 'The fee bump and its inner transaction succeeded.',
+  TxFEEBumpInnerFailed: 'The inner transaction of the fee bump failed.',
+  TxBADSponsorship: 'A sponsorship was begun but not ended within the transaction.',
+  TxBADMinSeqAgeOrGap: 'The minimum sequence age or ledger gap precondition is not met.',
+  TxMALFORMED: 'The transaction is malformed.',
+  TxSOROBANInvalid: 'The Soroban resources or footprint are invalid.',
+};
+
+const OP_EXPLANATIONS: Record<string, string> = {
+  // Operation-level codes
+  OpBADAuth: "Too few valid signatures for the operation's source account.",
+  OpNOAccount: "The operation's source account does not exist.",
+  OpNOTSupported: 'The operation is not supported by this protocol version.',
+  OpTOOManySubentries: 'The account has reached the subentry limit.',
+  OpEXCEEDEDWorkLimit: 'The operation did too much work.',
+  OpTOOManySponsoring: 'The account sponsors too many entries.',
+  // Codes shared by several operation types
+  Success: 'The operation succeeded.',
+  Malformed: 'The operation has invalid parameters.',
+  Underfunded: 'The account does not have enough available balance.',
+  LowReserve: 'The account would fall below its minimum reserve.',
+  NoTrust: 'The account has no trustline for the asset.',
+  NotAuthorized: 'The account is not authorized to hold the asset.',
+  LineFull: 'The trustline would exceed its limit.',
+  NoIssuer: 'The asset issuer does not exist.',
+  SelfNotAllowed: 'An account cannot trust or authorize itself.',
+  NoTrustLine: 'The trustor has no trustline for the asset.',
+  CantRevoke: 'The issuer cannot revoke authorization.',
+  DoesNotExist: 'The entry does not exist.',
+  NotClawbackEnabled: 'Clawback is not enabled for the asset.',
+  ResourceLimitExceeded: 'The declared Soroban resources were exceeded.',
+  InsufficientRefundableFee: 'The refundable fee does not cover rent and events.',
+  // Payments and path payments
+  SrcNoTrust: 'The source account has no trustline for the asset.',
+  SrcNotAuthorized: 'The source account is not authorized to send the asset.',
+  NoDestination: 'The destination account does not exist.',
+  TooFewOffers: 'There is not enough liquidity along the path.',
+  OfferCrossSelf: 'The path crosses an offer of the source account.',
+  OverSendmax: 'The payment would send more than the maximum.',
+  UnderDestmin: 'The payment would deliver less than the minimum.',
+  // Offers
+  SellNoTrust: 'The account has no trustline for the selling asset.',
+  BuyNoTrust: 'The account has no trustline for the buying asset.',
+  SellNotAuthorized: 'The account is not authorized to sell the asset.',
+  BuyNotAuthorized: 'The account is not authorized to buy the asset.',
+  CrossSelf: 'The offer would cross an offer of the same account.',
+  SellNoIssuer: 'The issuer of the selling asset does not exist.',
+  BuyNoIssuer: 'The issuer of the buying asset does not exist.',
+  NotFound: 'The offer to update or delete does not exist.',
+  // Accounts and options
+  AlreadyExist: 'The destination account already exists.',
+  TooManySigners: 'The account already has the maximum number of signers.',
+  BadFlags: 'The flags to set and clear conflict.',
+  InvalidInflation: 'The inflation destination does not exist.',
+  CantChange: 'The flags cannot change because the account is immutable.',
+  UnknownFlag: 'An unknown flag was set.',
+  ThresholdOutOfRange: 'A weight or threshold is outside 0-255.',
+  BadSigner: 'The signer cannot be the master key.',
+  InvalidHomeDomain: 'The home domain is malformed.',
+  AuthRevocableRequired: 'Clawback requires the revocable flag.',
+  NoAccount: 'The destination account does not exist.',
+  ImmutableSet: 'The account has the immutable flag set.',
+  HasSubEntries: 'The account still has subentries.',
+  SeqnumTooFar: 'The sequence number is too high to merge the account.',
+  DestFull: 'The destination balance would overflow.',
+  IsSponsor: 'The account sponsors other entries.',
+  NotTime: 'Inflation cannot run yet.',
+  NotSupportedYet: 'The operation is not supported yet.',
+  NameNotFound: 'The data entry does not exist.',
+  InvalidName: 'The data entry name is invalid.',
+  BadSeq: 'The sequence number to bump to is invalid.',
+  // Trustlines
+  InvalidLimit: 'The limit is below the current balance and liabilities.',
+  TrustLineMissing: 'A trustline for a pool asset is missing.',
+  CannotDelete: 'The trustline is still used by liquidity pool shares.',
+  NotAuthMaintainLiabilities: 'The trustline is not authorized to maintain liabilities.',
+  TrustNotRequired: 'The issuer does not require authorization.',
+  InvalidState: 'The resulting trustline flags are invalid.',
+  // Claimable balances and sponsorship
+  CannotClaim: 'The account is not a claimant or the predicate is not met.',
+  AlreadySponsored: 'The account is already sponsored.',
+  Recursive: 'The sponsorship would be recursive.',
+  NotSponsored: 'No sponsorship was begun for the account.',
+  NotSponsor: 'The source account is not the sponsor.',
+  OnlyTransferable: 'The sponsorship can only be transferred.',
+  NotIssuer: 'The source account is not the issuer.',
+  // Liquidity pools
+  BadPrice: 'The pool price is outside the given bounds.',
+  PoolFull: 'The pool reserves would overflow.',
+  UnderMinimum: 'The withdrawal would return less than the minimum.',
+  // Soroban
+  Trapped: 'The contract call failed (panic, error or budget exceeded).',
+  EntryArchived: 'A ledger entry in the footprint is archived.',
+};
+
+const OP_EXPLANATION_OVERRIDES: Record<string, string> = {
+  'CreateAccount.Underfunded': 'The source account cannot fund the starting balance.',
+  'CreateAccount.LowReserve': 'The starting balance is below the minimum reserve.',
+  'ClaimClaimableBalance.DoesNotExist': 'The claimable balance does not exist.',
+  'ClawbackClaimableBalance.DoesNotExist': 'The claimable balance does not exist.',
+};
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  TransactionEnvelope,
+  XdrError,
+  XdrErrorCode,
+  XdrReader,
+  encodeBase64,
+  tryDecodePrefix,
+  uint32,
+  type Asset,
+  type Operation,
+} from '../src/index.js';
+
+const ISSUER = { PublicKeyTypeEd25519: new Uint8Array(32).fill(2) };
+const ZZZZ = new Uint8Array([90, 90, 90, 90]);
+
+function asset(code: Uint8Array): Asset {
+  return { CreditAlphanum4: { assetCode: code, issuer: ISSUER } };
+}
+
+const bump: Operation = { sourceAccount: null, body: { BumpSequence: { bumpTo: 1n } } };
+
+const envelope: TransactionEnvelope = {
+  Tx: {
+    tx: {
+      sourceAccount: { Ed25519: new Uint8Array(32).fill(1) },
+      fee: 300,
+      seqNum: 1n,
+      cond: 'None',
+      memo: 'None',
+      operations: [
+        bump,
+        bump,
+        {
+          sourceAccount: null,
+          body: {
+            PathPaymentStrictSend: {
+              sendAsset: 'Native',
+              sendAmount: 10n,
+              destination: { Ed25519: new Uint8Array(32).fill(3) },
+              destAsset: 'Native',
+              destMin: 9n,
+              path: [asset(new Uint8Array([85, 83, 68, 0])), asset(ZZZZ)],
+            },
+          },
+        },
+      ],
+      ext: '0',
+    },
+    signatures: [],
+  },
+};
+
+/** The envelope with the second path asset's discriminant set to 9. */
+function malformed(): { bytes: Uint8Array; offset: number } {
+  const bytes = TransactionEnvelope.toXdr(envelope);
+  const code = bytes.findIndex((_, i) => ZZZZ.every((b, j) => bytes[i + j] === b));
+  const offset = code - 4;
+  bytes[offset + 3] = 9;
+  return { bytes, offset };
+}
+
+function catchError(fn: () => unknown): XdrError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(XdrError);
+    return err as XdrError;
+  }
+  throw new Error('Expected an XdrError');
+}
+
+describe('fromXdr path tracking', () => {
+  it('reports the path and offset of a failure', () => {
+    const { bytes, offset } = malformed();
+    const error = catchError(() =>
+      TransactionEnvelope.fromXdr(bytes, undefined, { trackPath: 'TransactionEnvelope' }),
+    );
+    expect(error.code).toBe(XdrErrorCode.InvalidEnumValue);
+    expect(error.path).toBe(
+      'TransactionEnvelope.Tx.tx.operations[2].body.PathPaymentStrictSend.path[1]',
+    );
+    expect(error.offset).toBe(offset);
+    expect(error.message).toMatch(/path\[1\] \(byte \d+\)$/);
+  });
+
+  it('leaves errors unannotated by default', () => {
+    const { bytes } = malformed();
+    const error = catchError(() => TransactionEnvelope.fromBase64(encodeBase64(bytes)));
+    expect(error.message).toBe('INVALID_ENUM_VALUE: Unknown enum value: 9');
+    expect(error.path).toBeUndefined();
+    expect(error.offset).toBeUndefined();
+  });
+
+  it('enters no path segments unless tracking', () => {
+    const pushPath = vi.spyOn(XdrReader.prototype, 'pushPath');
+    const bytes = TransactionEnvelope.toXdr(envelope);
+    try {
+      expect(TransactionEnvelope.fromXdr(bytes)).toEqual(envelope);
+      expect(pushPath).not.toHaveBeenCalled();
+      TransactionEnvelope.fromXdr(bytes, undefined, { trackPath: true });
+      expect(pushPath).toHaveBeenCalled();
+    } finally {
+      pushPath.mockRestore();
+    }
+  });
+
+  it('reports trailing data at the root', () => {
+    const bytes = new Uint8Array([...uint32.toXdr(1), 0, 0, 0, 0]);
+    expect(() => uint32.fromXdr(bytes, undefined, { trackPath: true })).toThrow(
+      expect.objectContaining({ code: XdrErrorCode.BufferNotFullyConsumed, path: '', offset: 4 }),
+    );
+  });
+});
+
+describe('tryDecodePrefix', () => {
+  it('returns the value and the bytes after it', () => {
+    const bytes = TransactionEnvelope.toXdr(envelope);
+    const input = new Uint8Array([...bytes, 1, 2, 3]);
+    const { value, rest } = tryDecodePrefix(TransactionEnvelope, input);
+    expect(value).toEqual(envelope);
+    expect(rest).toEqual(new Uint8Array([1, 2, 3]));
+    expect(tryDecodePrefix(TransactionEnvelope, bytes).rest).toHaveLength(0);
+  });
+
+  it('still throws on malformed values', () => {
+    const { bytes } = malformed();
+    expect(() => tryDecodePrefix(TransactionEnvelope, bytes, undefined, { trackPath: true }))
+      .toThrow('at Tx.tx.operations[2].body.PathPaymentStrictSend.path[1]');
+  });
+});
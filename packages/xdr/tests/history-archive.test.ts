@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import {
+  CHECKPOINT_FREQUENCY,
+  ROOT_HAS_PATH,
+  bucketPath,
+  checkpointContaining,
+  checkpointPath,
+  historyArchiveBuckets,
+  isCheckpoint,
+  parseHistoryArchiveState,
+  readArchiveFile,
+  uint32,
+} from '../src/index.js';
+
+function recordMarked(records: Uint8Array[][]): Uint8Array {
+  const parts: number[] = [];
+  for (const fragments of records) {
+    fragments.forEach((fragment, i) => {
+      const last = i === fragments.length - 1 ? 0x80 : 0;
+      const n = fragment.length;
+      parts.push(last | (n >>> 24), (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff, ...fragment);
+    });
+  }
+  return new Uint8Array(parts);
+}
+
+function streamOf(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const value of iterable) result.push(value);
+  return result;
+}
+
+describe('checkpoint paths', () => {
+  it('locates checkpoints and their files', () => {
+    expect(CHECKPOINT_FREQUENCY).toBe(64);
+    expect(isCheckpoint(63)).toBe(true);
+    expect(isCheckpoint(64)).toBe(false);
+    expect(checkpointContaining(1)).toBe(63);
+    expect(checkpointContaining(64)).toBe(127);
+    expect(checkpointContaining(12345678)).toBe(12345727);
+    expect(checkpointPath('ledger', 12345663)).toBe('ledger/00/bc/61/ledger-00bc613f.xdr.gz');
+    expect(checkpointPath('history', 127)).toBe('history/00/00/00/history-0000007f.json');
+    expect(bucketPath('abcdef' + '0'.repeat(58))).toBe(
+      `bucket/ab/cd/ef/bucket-abcdef${'0'.repeat(58)}.xdr.gz`,
+    );
+    expect(ROOT_HAS_PATH).toBe('.well-known/stellar-history.json');
+  });
+});
+
+describe('history archive state', () => {
+  const json = readFileSync(new URL('./fixtures/history-0000007f.json', import.meta.url), 'utf8');
+
+  it('parses the state and lists its buckets', () => {
+    const has = parseHistoryArchiveState(json);
+    expect(has.currentLedger).toBe(127);
+    expect(has.networkPassphrase).toBe('Test SDF Network ; September 2015');
+    expect(has.currentBuckets[1]!.next).toEqual({ state: 1, output: '3'.repeat(64) });
+    expect(historyArchiveBuckets(has)).toEqual(['1', '2', '3', '4'].map((c) => c.repeat(64)));
+  });
+
+  it('rejects malformed states', () => {
+    expect(() => parseHistoryArchiveState('{"version": 1}')).toThrow(
+      'Invalid history archive state',
+    );
+  });
+});
+
+describe('readArchiveFile', () => {
+  it('decodes gzipped record-marked files', async () => {
+    const plain = recordMarked([[uint32.toXdr(63)], [uint32.toXdr(64)]]);
+    const gzipped = streamOf(plain).pipeThrough(
+      new CompressionStream('gzip') as ReadableWritablePair<Uint8Array, Uint8Array>,
+    );
+    expect(await collect(readArchiveFile(uint32, gzipped, { gzip: true }))).toEqual([63, 64]);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TransactionMeta,
+  TransactionResultMeta,
+  encodeStrkey,
+  STRKEY_CONTRACT,
+  STRKEY_ED25519_PUBLIC,
+  extractLedgerChanges,
+  accountBalanceDeltas,
+  trustlineDeltas,
+  contractDataChanges,
+  ttlExtensions,
+  extractContractEvents,
+  type ContractEvent,
+  type LedgerEntry,
+  type LedgerEntryData,
+  type TrustLineAsset,
+} from '../src/index.js';
+
+const ALICE = new Uint8Array(32).fill(1);
+const BOB = new Uint8Array(32).fill(2);
+const CONTRACT = new Uint8Array(32).fill(3);
+const KEY_HASH = new Uint8Array(32).fill(4);
+const USD: TrustLineAsset = {
+  CreditAlphanum4: {
+    assetCode: new Uint8Array([85, 83, 68, 0]),
+    issuer: { PublicKeyTypeEd25519: BOB },
+  },
+};
+
+function entry(data: LedgerEntryData): LedgerEntry {
+  return { lastModifiedLedgerSeq: 10, data, ext: '0' };
+}
+
+function account(id: Uint8Array, balance: bigint): LedgerEntry {
+  return entry({
+    Account: {
+      accountID: { PublicKeyTypeEd25519: id },
+      balance,
+      seqNum: 1n,
+      numSubEntries: 0,
+      inflationDest: null,
+      flags: 0,
+      homeDomain: '',
+      thresholds: new Uint8Array([1, 0, 0, 0]),
+      signers: [],
+      ext: '0',
+    },
+  });
+}
+
+function trustline(balance: bigint): LedgerEntry {
+  return entry({
+    Trustline: {
+      accountID: { PublicKeyTypeEd25519: ALICE },
+      asset: USD,
+      balance,
+      limit: 1000n,
+      flags: 1,
+      ext: '0',
+    },
+  });
+}
+
+function contractData(val: number): LedgerEntry {
+  return entry({
+    ContractData: {
+      ext: '0',
+      contract: { Contract: CONTRACT },
+      key: { Symbol: 'counter' },
+      durability: 'Persistent',
+      val: { U32: val },
+    },
+  });
+}
+
+function ttl(liveUntilLedgerSeq: number): LedgerEntry {
+  return entry({ Ttl: { keyHash: KEY_HASH, liveUntilLedgerSeq } });
+}
+
+const event: ContractEvent = {
+  ext: '0',
+  contractID: CONTRACT,
+  type: 'Contract',
+  body: { 0: { topics: [{ Symbol: 'incr' }], data: { U32: 2 } } },
+};
+
+// Round-trip through XDR so the fixtures are known to be well-formed.
+const metaV3 = TransactionMeta.fromXdr(TransactionMeta.toXdr({
+  3: {
+    ext: '0',
+    txChangesBefore: [{ State: account(ALICE, 100n) }, { Updated: account(ALICE, 90n) }],
+    operations: [
+      {
+        changes: [
+          { State: contractData(1) },
+          { Updated: contractData(2) },
+          { State: ttl(100) },
+          { Updated: ttl(200) },
+          { State: trustline(50n) },
+          { Updated: trustline(20n) },
+          { Created: account(BOB, 30n) },
+        ],
+      },
+    ],
+    txChangesAfter: [{ State: account(ALICE, 90n) }, { Updated: account(ALICE, 95n) }],
+    sorobanMeta: { ext: '0', events: [event], returnValue: 'Void', diagnosticEvents: [] },
+  },
+}));
+
+describe('extractLedgerChanges', () => {
+  it('pairs state entries with their updates across phases', () => {
+    const changes = extractLedgerChanges(metaV3);
+    expect(changes.map((c) => [c.phase, c.opIndex, c.type, Object.keys(c.key)[0]])).toEqual([
+      ['txBefore', null, 'Updated', 'Account'],
+      ['op', 0, 'Updated', 'ContractData'],
+      ['op', 0, 'Updated', 'Ttl'],
+      ['op', 0, 'Updated', 'Trustline'],
+      ['op', 0, 'Created', 'Account'],
+      ['txAfter', null, 'Updated', 'Account'],
+    ]);
+    expect(changes[0]!.before).toEqual(account(ALICE, 100n));
+    expect(changes[0]!.after).toEqual(account(ALICE, 90n));
+    expect(changes[4]!.before).toBeNull();
+  });
+
+  it('handles V0 and V1 meta and removals', () => {
+    const removed = { Account: { accountID: { PublicKeyTypeEd25519: BOB } } };
+    const v0 = extractLedgerChanges({
+      0: [{ changes: [{ State: account(BOB, 5n) }, { Removed: removed }] }],
+    });
+    expect(v0).toEqual([{
+      phase: 'op',
+      opIndex: 0,
+      type: 'Removed',
+      key: removed,
+      before: account(BOB, 5n),
+      after: null,
+    }]);
+
+    const v1 = extractLedgerChanges({
+      1: { txChanges: [{ Created: account(BOB, 1n) }], operations: [] },
+    });
+    expect(v1.map((c) => c.phase)).toEqual(['txBefore']);
+  });
+
+  it('includes fee changes from TransactionResultMeta', () => {
+    const resultMeta = TransactionResultMeta.fromXdr(TransactionResultMeta.toXdr({
+      result: {
+        transactionHash: new Uint8Array(32),
+        result: { feeCharged: 10n, result: { TxSUCCESS: [] }, ext: '0' },
+      },
+      feeProcessing: [{ State: account(ALICE, 110n) }, { Updated: account(ALICE, 100n) }],
+      txApplyProcessing: metaV3,
+    }));
+    const changes = extractLedgerChanges(resultMeta);
+    expect(changes[0]!.phase).toBe('fee');
+    expect(changes).toHaveLength(7);
+    expect(accountBalanceDeltas(changes)).toEqual([
+      {
+        accountId: encodeStrkey(STRKEY_ED25519_PUBLIC, ALICE),
+        before: 110n,
+        after: 95n,
+        delta: -15n,
+      },
+      { accountId: encodeStrkey(STRKEY_ED25519_PUBLIC, BOB), before: 0n, after: 30n, delta: 30n },
+    ]);
+  });
+});
+
+describe('change helpers', () => {
+  const changes = extractLedgerChanges(metaV3);
+
+  it('computes trustline deltas', () => {
+    expect(trustlineDeltas(changes)).toEqual([
+      {
+        accountId: encodeStrkey(STRKEY_ED25519_PUBLIC, ALICE),
+        asset: USD,
+        before: 50n,
+        after: 20n,
+        delta: -30n,
+      },
+    ]);
+  });
+
+  it('lists contract data changes and TTL extensions', () => {
+    expect(contractDataChanges(changes)).toEqual([
+      {
+        contractId: encodeStrkey(STRKEY_CONTRACT, CONTRACT),
+        key: { Symbol: 'counter' },
+        durability: 'Persistent',
+        type: 'Updated',
+        before: { U32: 1 },
+        after: { U32: 2 },
+      },
+    ]);
+    expect(ttlExtensions(changes)).toEqual([{ keyHash: KEY_HASH, before: 100, after: 200 }]);
+  });
+});
+
+describe('extractContractEvents', () => {
+  it('reads Soroban events from V3 meta', () => {
+    expect(extractContractEvents(metaV3)).toEqual([{ opIndex: 0, event }]);
+  });
+
+  it('reads operation and transaction events from V4 meta', () => {
+    const v4: TransactionMeta = {
+      4: {
+        ext: '0',
+        txChangesBefore: [],
+        operations: [{ ext: '0', changes: [], events: [event] }],
+        txChangesAfter: [],
+        sorobanMeta: null,
+        events: [{ stage: 'AfterTx', event }],
+        diagnosticEvents: [],
+      },
+    };
+    expect(extractContractEvents(v4)).toEqual([
+      { opIndex: 0, event },
+      { opIndex: null, stage: 'AfterTx', event },
+    ]);
+  });
+});
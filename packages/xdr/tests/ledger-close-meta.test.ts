@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LedgerCloseMeta,
+  TransactionSignaturePayload,
+  bytesToHex,
+  processLedgerCloseMeta,
+  transactionEnvelopeHash,
+  type FeeBumpTransaction,
+  type LedgerEntryChanges,
+  type LedgerHeaderHistoryEntry,
+  type Transaction,
+  type TransactionEnvelope,
+  type TransactionMeta,
+  type TransactionResultMeta,
+} from '../src/index.js';
+
+const PASSPHRASE = 'Test SDF Network ; September 2015';
+
+function tx(seqNum: bigint): Transaction {
+  return {
+    sourceAccount: { Ed25519: new Uint8Array(32).fill(1) },
+    fee: 100,
+    seqNum,
+    cond: 'None',
+    memo: 'None',
+    operations: [],
+    ext: '0',
+  };
+}
+
+function envelope(seqNum: bigint): TransactionEnvelope {
+  return { Tx: { tx: tx(seqNum), signatures: [] } };
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+async function hashOf(t: Transaction): Promise<Uint8Array> {
+  const networkId = await sha256(new TextEncoder().encode(PASSPHRASE));
+  return sha256(TransactionSignaturePayload.toXdr({ networkId, taggedTransaction: { Tx: t } }));
+}
+
+const ledgerHeader: LedgerHeaderHistoryEntry = {
+  hash: new Uint8Array(32).fill(9),
+  header: {
+    ledgerVersion: 23,
+    previousLedgerHash: new Uint8Array(32),
+    scpValue: { txSetHash: new Uint8Array(32), closeTime: 1700000000n, upgrades: [], ext: 'Basic' },
+    txSetResultHash: new Uint8Array(32),
+    bucketListHash: new Uint8Array(32),
+    ledgerSeq: 500,
+    totalCoins: 0n,
+    feePool: 0n,
+    inflationSeq: 0,
+    idPool: 0n,
+    baseFee: 100,
+    baseReserve: 5000000,
+    maxTxSetSize: 100,
+    skipList: [new Uint8Array(32), new Uint8Array(32), new Uint8Array(32), new Uint8Array(32)],
+    ext: '0',
+  },
+  ext: '0',
+};
+
+const txMeta: TransactionMeta = {
+  3: { ext: '0', txChangesBefore: [], operations: [], txChangesAfter: [], sorobanMeta: null },
+};
+
+async function resultMeta(
+  seqNum: bigint,
+  feeProcessing: LedgerEntryChanges = [],
+): Promise<TransactionResultMeta> {
+  return {
+    result: {
+      transactionHash: await hashOf(tx(seqNum)),
+      result: { feeCharged: 100n, result: { TxSUCCESS: [] }, ext: '0' },
+    },
+    feeProcessing,
+    txApplyProcessing: txMeta,
+  };
+}
+
+describe('processLedgerCloseMeta', () => {
+  it('orders transactions by apply order across phases and parallel stages', async () => {
+    const meta = LedgerCloseMeta.fromXdr(LedgerCloseMeta.toXdr({
+      1: {
+        ext: '0',
+        ledgerHeader,
+        txSet: {
+          1: {
+            previousLedgerHash: new Uint8Array(32),
+            phases: [
+              {
+                0: [{ TxsetCompTxsMaybeDiscountedFee: { baseFee: 150n, txs: [envelope(1n)] } }],
+              },
+              {
+                1: {
+                  baseFee: null,
+                  executionStages: [[[envelope(2n), envelope(3n)]], [[envelope(4n)]]],
+                },
+              },
+            ],
+          },
+        },
+        txProcessing: [
+          await resultMeta(4n),
+          await resultMeta(1n),
+          await resultMeta(3n),
+          await resultMeta(2n),
+        ],
+        upgradesProcessing: [],
+        scpInfo: [],
+        totalByteSizeOfLiveSorobanState: 0n,
+        evictedKeys: [],
+        unused: [],
+      },
+    }));
+
+    const ledger = await processLedgerCloseMeta(meta, PASSPHRASE);
+    expect(ledger).toMatchObject({
+      sequence: 500,
+      hash: '09'.repeat(32),
+      closeTime: 1700000000n,
+      protocolVersion: 23,
+    });
+    const order = ledger.transactions.map((t) => [
+      t.index,
+      seqNumOf(t.envelope),
+      t.phase,
+      t.baseFee,
+    ]);
+    expect(order).toEqual([
+      [0, 4n, 1, null],
+      [1, 1n, 0, 150n],
+      [2, 3n, 1, null],
+      [3, 2n, 1, null],
+    ]);
+    expect(ledger.transactions[0]!.hash).toBe(bytesToHex(await hashOf(tx(4n))));
+    expect(ledger.transactions[0]!.meta).toEqual(txMeta);
+    expect(ledger.transactions[0]!.postApplyFeeChanges).toEqual([]);
+  });
+
+  it('hashes V0 envelopes as V1 transactions', async () => {
+    const v0: TransactionEnvelope = {
+      TxV0: {
+        tx: {
+          sourceAccountEd25519: new Uint8Array(32).fill(1),
+          fee: 100,
+          seqNum: 7n,
+          timeBounds: null,
+          memo: 'None',
+          operations: [],
+          ext: '0',
+        },
+        signatures: [],
+      },
+    };
+    const meta: LedgerCloseMeta = {
+      0: {
+        ledgerHeader,
+        txSet: { previousLedgerHash: new Uint8Array(32), txs: [v0] },
+        txProcessing: [await resultMeta(7n)],
+        upgradesProcessing: [],
+        scpInfo: [],
+      },
+    };
+    const ledger = await processLedgerCloseMeta(meta, PASSPHRASE);
+    expect(ledger.transactions[0]!.envelope).toBe(v0);
+  });
+
+  it('throws when a result has no envelope', async () => {
+    const meta: LedgerCloseMeta = {
+      0: {
+        ledgerHeader,
+        txSet: { previousLedgerHash: new Uint8Array(32), txs: [] },
+        txProcessing: [await resultMeta(1n)],
+        upgradesProcessing: [],
+        scpInfo: [],
+      },
+    };
+    await expect(processLedgerCloseMeta(meta, PASSPHRASE)).rejects.toThrow(
+      'applied in ledger 500 is not in its transaction set',
+    );
+  });
+});
+
+describe('transactionEnvelopeHash', () => {
+  it('hashes the transaction, ignoring signatures', async () => {
+    const signed: TransactionEnvelope = {
+      Tx: { tx: tx(3n), signatures: [{ hint: new Uint8Array(4), signature: new Uint8Array(64) }] },
+    };
+    expect(await transactionEnvelopeHash(signed, PASSPHRASE)).toEqual(await hashOf(tx(3n)));
+  });
+
+  it('hashes fee bumps as the outer transaction', async () => {
+    const feeBump: FeeBumpTransaction = {
+      feeSource: { Ed25519: new Uint8Array(32).fill(2) },
+      fee: 400n,
+      innerTx: { Tx: { tx: tx(4n), signatures: [] } },
+      ext: '0',
+    };
+    const networkId = await sha256(new TextEncoder().encode(PASSPHRASE));
+    const payload = TransactionSignaturePayload.toXdr({
+      networkId,
+      taggedTransaction: { TxFeeBump: feeBump },
+    });
+    expect(
+      await transactionEnvelopeHash({ TxFeeBump: { tx: feeBump, signatures: [] } }, PASSPHRASE),
+    ).toEqual(await sha256(payload));
+  });
+});
+
+function seqNumOf(envelope: TransactionEnvelope): bigint | undefined {
+  return 'Tx' in envelope ? envelope.Tx.tx.seqNum : undefined;
+}
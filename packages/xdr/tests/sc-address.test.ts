@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseScAddress,
+  scAddressToString,
+  encodeStrkey,
+  strkeyToString,
+  STRKEY_CONTRACT,
+  STRKEY_ED25519_PUBLIC,
+  STRKEY_LIQUIDITY_POOL,
+} from '../src/index.js';
+
+const key = new Uint8Array(32).fill(3);
+
+describe('parseScAddress', () => {
+  it('parses G-addresses as accounts', () => {
+    const addr = parseScAddress(encodeStrkey(STRKEY_ED25519_PUBLIC, key));
+    expect(addr).toEqual({ Account: { PublicKeyTypeEd25519: key } });
+  });
+
+  it('parses C-addresses as contracts', () => {
+    expect(parseScAddress(encodeStrkey(STRKEY_CONTRACT, key))).toEqual({ Contract: key });
+  });
+
+  it('parses M-addresses as muxed accounts', () => {
+    const m = strkeyToString({ type: 'muxed_account_ed25519', ed25519: key, id: 42n });
+    expect(parseScAddress(m)).toEqual({ MuxedAccount: { id: 42n, ed25519: key } });
+  });
+
+  it('rejects secret keys', () => {
+    const s = strkeyToString({ type: 'private_key_ed25519', data: key });
+    expect(() => parseScAddress(s)).toThrow(TypeError);
+  });
+});
+
+describe('scAddressToString', () => {
+  it('round-trips every address kind', () => {
+    const addresses = [
+      encodeStrkey(STRKEY_ED25519_PUBLIC, key),
+      encodeStrkey(STRKEY_CONTRACT, key),
+      encodeStrkey(STRKEY_LIQUIDITY_POOL, key),
+      strkeyToString({ type: 'muxed_account_ed25519', ed25519: key, id: 7n }),
+      strkeyToString({ type: 'claimable_balance_v0', data: key }),
+    ];
+    for (const a of addresses) {
+      expect(scAddressToString(parseScAddress(a))).toBe(a);
+    }
+  });
+});
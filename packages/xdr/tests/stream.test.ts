@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  XdrError,
+  XdrErrorCode,
+  decodeRecordStream,
+  decodeStream,
+  readXdrRecords,
+  uint32,
+  varOpaque,
+  xdrString,
+  xdrStruct,
+  type XdrCodec,
+  type XdrReader,
+} from '../src/index.js';
+
+interface Entry {
+  id: number;
+  name: string;
+}
+
+const Entry: XdrCodec<Entry> = xdrStruct<Entry>([
+  ['id', uint32],
+  ['name', xdrString(100)],
+]);
+
+function recordMarked(records: Uint8Array[][]): Uint8Array {
+  const parts: number[] = [];
+  for (const fragments of records) {
+    fragments.forEach((fragment, i) => {
+      const last = i === fragments.length - 1 ? 0x80 : 0;
+      const n = fragment.length;
+      parts.push(last | (n >>> 24), (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff, ...fragment);
+    });
+  }
+  return new Uint8Array(parts);
+}
+
+/** Split `bytes` into chunks of `size` bytes. */
+function streamOf(bytes: Uint8Array, size = bytes.length): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += size) controller.enqueue(bytes.slice(i, i + size));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const value of iterable) result.push(value);
+  return result;
+}
+
+const entries: Entry[] = [
+  { id: 1, name: 'alpha' },
+  { id: 2, name: 'a somewhat longer name' },
+  { id: 3, name: '' },
+];
+
+describe('decodeStream', () => {
+  const bytes = new Uint8Array(entries.flatMap((e) => [...Entry.toXdr(e)]));
+
+  it('decodes values spanning chunk boundaries', async () => {
+    for (const size of [1, 3, 7, bytes.length]) {
+      expect(await collect(decodeStream(Entry, streamOf(bytes, size)))).toEqual(entries);
+    }
+  });
+
+  it('retries a value spread over hundreds of chunks a logarithmic number of times', async () => {
+    const Blob = varOpaque(10_000);
+    let attempts = 0;
+    const counting: XdrCodec<Uint8Array> = Object.assign(Object.create(Blob), {
+      decode(reader: XdrReader) {
+        attempts++;
+        return Blob.decode(reader);
+      },
+    });
+    const blob = new Uint8Array(4000).map((_, i) => i % 251);
+    const small = new Uint8Array([1, 2, 3]);
+    const input = new Uint8Array([...Blob.toXdr(blob), ...Blob.toXdr(small)]);
+    const values = await collect(decodeStream(counting, streamOf(input, 10)));
+    expect(values).toEqual([blob, small]);
+    expect(attempts).toBeLessThan(20);
+  });
+
+  it('rejects a stream that ends inside a value', async () => {
+    await expect(collect(decodeStream(Entry, streamOf(bytes.subarray(0, 10))))).rejects.toThrow(
+      'Stream ended inside a value',
+    );
+  });
+
+  it('applies limits to each value', async () => {
+    const limits = { depth: 512, len: 40 };
+    expect(await collect(decodeStream(Entry, streamOf(bytes, 5), limits))).toHaveLength(3);
+    await expect(
+      collect(decodeStream(Entry, streamOf(bytes), { depth: 512, len: 16 })),
+    ).rejects.toMatchObject({ code: XdrErrorCode.ByteLimitExceeded });
+    await expect(
+      collect(decodeStream(Entry, streamOf(bytes), { depth: 0, len: 1024 })),
+    ).rejects.toMatchObject({ code: XdrErrorCode.DepthLimitExceeded });
+  });
+
+  it('stops reading when the consumer stops', async () => {
+    const stream = streamOf(bytes, 4);
+    for await (const entry of decodeStream(Entry, stream)) {
+      expect(entry.id).toBe(1);
+      break;
+    }
+    expect(stream.locked).toBe(false);
+  });
+});
+
+describe('readXdrRecords', () => {
+  it('reassembles fragments split across chunks', async () => {
+    const bytes = recordMarked([
+      [uint32.toXdr(1)],
+      [new Uint8Array([0, 0]), new Uint8Array([0, 2])],
+      [uint32.toXdr(3)],
+    ]);
+    const records = await collect(readXdrRecords(streamOf(bytes, 3)));
+    expect(records.map((r) => uint32.fromXdr(r))).toEqual([1, 2, 3]);
+  });
+
+  it('copies a record spread over thousands of chunks a bounded number of times', async () => {
+    const record = new Uint8Array(20_000).map((_, i) => i % 251);
+    const bytes = recordMarked([[record.subarray(0, 5_000), record.subarray(5_000)]]);
+    const stream = streamOf(bytes, 10);
+    const originalSet = Uint8Array.prototype.set;
+    let copied = 0;
+    const set = vi.spyOn(Uint8Array.prototype, 'set').mockImplementation(function (
+      this: Uint8Array,
+      array: ArrayLike<number>,
+      offset?: number,
+    ) {
+      copied += array.length;
+      originalSet.call(this, array, offset);
+    });
+    try {
+      expect(await collect(readXdrRecords(stream))).toEqual([record]);
+    } finally {
+      set.mockRestore();
+    }
+    // Fragments are assembled once and the record once: about 2× its size.
+    expect(copied).toBeLessThan(3 * record.length);
+  });
+
+  it('rejects truncated streams and oversized records', async () => {
+    const bytes = recordMarked([[uint32.toXdr(1)]]);
+    await expect(collect(readXdrRecords(streamOf(bytes.subarray(0, 6))))).rejects.toThrow(
+      'Stream ended inside a record',
+    );
+    await expect(
+      collect(readXdrRecords(streamOf(bytes), { depth: 512, len: 2 })),
+    ).rejects.toThrow(XdrError);
+  });
+});
+
+describe('decodeRecordStream', () => {
+  it('decodes one value per record', async () => {
+    const bytes = recordMarked(entries.map((e) => [Entry.toXdr(e)]));
+    expect(await collect(decodeRecordStream(Entry, streamOf(bytes, 5)))).toEqual(entries);
+  });
+
+  it('rejects records with trailing bytes', async () => {
+    const bytes = recordMarked([[Entry.toXdr(entries[0]!), uint32.toXdr(0)]]);
+    await expect(collect(decodeRecordStream(Entry, streamOf(bytes)))).rejects.toMatchObject({
+      code: XdrErrorCode.BufferNotFullyConsumed,
+    });
+  });
+});
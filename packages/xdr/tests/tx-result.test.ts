@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TransactionResult,
+  type OperationResult,
+  decodeResultCodes,
+  decodeTransactionResult,
+  TransactionFailedError,
+} from '../src/index.js';
+
+const failedOps: OperationResult[] = [
+  { OpINNER: { CreateAccount: 'Success' } },
+  { OpINNER: { Payment: 'Underfunded' } },
+];
+
+const failed: TransactionResult = { feeCharged: 200n, result: { TxFAILED: failedOps }, ext: '0' };
+
+describe('decodeTransactionResult', () => {
+  it('decodes operation result codes', () => {
+    const decoded = TransactionResult.fromXdr(TransactionResult.toXdr(failed));
+    const summary = decodeTransactionResult(decoded);
+    expect(summary).toEqual({
+      txCode: 'TxFAILED',
+      opCodes: [
+        { index: 0, type: 'CreateAccount', code: 'Success', explanation: expect.any(String) },
+        {
+          index: 1,
+          type: 'Payment',
+          code: 'Underfunded',
+          explanation: 'The account does not have enough available balance.',
+        },
+      ],
+      explanation: 'One or more operations failed.',
+      successful: false,
+    });
+  });
+
+  it('decodes operation-level codes and transaction codes without operations', () => {
+    expect(decodeTransactionResult({
+      feeCharged: 100n,
+      result: { TxFAILED: ['OpBADAuth'] },
+      ext: '0',
+    }).opCodes).toEqual([
+      { index: 0, type: null, code: 'OpBADAuth', explanation: expect.any(String) },
+    ]);
+
+    const badSeq = decodeTransactionResult({ feeCharged: 100n, result: 'TxBADSeq', ext: '0' });
+    expect(badSeq.txCode).toBe('TxBADSeq');
+    expect(badSeq.opCodes).toEqual([]);
+    expect(badSeq.successful).toBe(false);
+  });
+
+  it('decodes the inner result of a fee bump', () => {
+    const summary = decodeTransactionResult({
+      feeCharged: 400n,
+      result: {
+        TxFEEBumpInnerFailed: {
+          transactionHash: new Uint8Array(32),
+          result: { feeCharged: 200n, result: { TxFAILED: failedOps }, ext: '0' },
+        },
+      },
+      ext: '0',
+    });
+    expect(summary.txCode).toBe('TxFEEBumpInnerFailed');
+    expect(summary.innerTxCode).toBe('TxFAILED');
+    expect(summary.opCodes.map((op) => op.code)).toEqual(['Success', 'Underfunded']);
+    expect(summary.explanation).toBe('One or more operations failed.');
+  });
+
+  it('reports success', () => {
+    const summary = decodeTransactionResult({
+      feeCharged: 100n,
+      result: { TxSUCCESS: [{ OpINNER: { Payment: 'Success' } }] },
+      ext: '0',
+    });
+    expect(summary.successful).toBe(true);
+    expect(summary.txCode).toBe('TxSUCCESS');
+  });
+});
+
+describe('decodeResultCodes', () => {
+  it('maps Horizon codes onto the XDR enums', () => {
+    const summary = decodeResultCodes(
+      { transaction: 'tx_failed', operations: ['op_success', 'op_underfunded', 'op_bad_auth'] },
+      ['CreateAccount', 'Payment', 'Payment'],
+    );
+    expect(summary?.txCode).toBe('TxFAILED');
+    expect(summary?.opCodes.map(({ type, code }) => [type, code])).toEqual([
+      ['CreateAccount', 'Success'],
+      ['Payment', 'Underfunded'],
+      [null, 'OpBADAuth'],
+    ]);
+  });
+
+  it('handles renamed and prefixed codes', () => {
+    const noAccount = decodeResultCodes({ transaction: 'tx_no_source_account' }, []);
+    expect(noAccount?.txCode).toBe('TxNOAccount');
+    const summary = decodeResultCodes(
+      {
+        transaction: 'tx_fee_bump_inner_failed',
+        inner_transaction: 'tx_failed',
+        operations: ['op_already_exists', 'function_trapped', 'op_mystery'],
+      },
+      ['CreateAccount', 'InvokeHostFunction', 'Payment'],
+    );
+    expect(summary?.innerTxCode).toBe('TxFAILED');
+    expect(summary?.opCodes.map((op) => op.code)).toEqual([
+      'AlreadyExist',
+      'Trapped',
+      'op_mystery',
+    ]);
+  });
+
+  it('returns null for an unknown transaction code', () => {
+    expect(decodeResultCodes({ transaction: 'tx_mystery' }, [])).toBeNull();
+  });
+});
+
+describe('TransactionFailedError', () => {
+  it('describes the failing operations', () => {
+    const err = new TransactionFailedError(decodeTransactionResult(failed), {
+      hash: 'ab'.repeat(32),
+      response: { status: 'FAILED' },
+    });
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toBe('TransactionFailedError');
+    expect(err.message).toBe(
+      `Transaction ${'ab'.repeat(32)} failed: TxFAILED — One or more operations failed.; ` +
+        'operation 1 (Payment): Underfunded',
+    );
+    expect(err.result.opCodes[1]?.code).toBe('Underfunded');
+    expect(err.response).toEqual({ status: 'FAILED' });
+  });
+});